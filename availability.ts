@@ -0,0 +1,144 @@
+import { CalendarNight } from "./models.js";
+import { addDays, currentMonth } from "./dates.js";
+import { Market } from "./market.js";
+import { CONFIG } from "./config.js";
+
+// Availability calendar requests and the stay windows derived from them
+
+// Airbnb's calendar API returns at most a year of months per request
+export const MAX_CALENDAR_MONTHS = 12;
+export const DEFAULT_CALENDAR_MONTHS = 3;
+const MAX_STAY_NIGHTS = 365;
+
+// Persisted GraphQL query used by Airbnb's own listing page calendar
+const CALENDAR_OPERATION = "PdpAvailabilityCalendar";
+const CALENDAR_QUERY_HASH = "8f08e03c7bd16fcad3c92a3592c19a8b559a0d0855a84028d1163d4733ed9ade";
+
+export const CALENDAR_API_HEADERS = {
+  "X-Airbnb-API-Key": CONFIG.airbnb.apiKey,
+  "Accept": "application/json",
+};
+
+export interface AvailabilityOptions {
+  startMonth?: string; // "YYYY-MM"
+  months?: number;
+  stayLength?: number;
+}
+
+// A run of consecutive open nights and the check-in dates in it that fit the stay
+export interface StayWindow {
+  start: string; // first open night
+  end: string; // morning after the last open night
+  availableNights: number;
+  checkinDates: string[];
+}
+
+export const AVAILABILITY_PROPERTIES = {
+  startMonth: {
+    type: "string",
+    pattern: "^\\d{4}-\\d{2}$",
+    description: "First month of the calendar (YYYY-MM, default the current month)"
+  },
+  months: {
+    type: "integer",
+    minimum: 1,
+    maximum: MAX_CALENDAR_MONTHS,
+    description: `Number of months to return (default ${DEFAULT_CALENDAR_MONTHS})`
+  },
+  stayLength: {
+    type: "integer",
+    minimum: 1,
+    maximum: MAX_STAY_NIGHTS,
+    description: "Nights you want to stay; returns the open windows where such a stay can be booked"
+  }
+};
+
+export function validateAvailabilityOptions({ startMonth, months, stayLength }: AvailabilityOptions): string[] {
+  const errors: string[] = [];
+  if (startMonth !== undefined) {
+    const valid = typeof startMonth === "string" && /^\d{4}-(0[1-9]|1[0-2])$/.test(startMonth);
+    if (!valid) {
+      errors.push(`startMonth must be YYYY-MM, got ${JSON.stringify(startMonth)}`);
+    } else if (startMonth < currentMonth()) {
+      errors.push(`startMonth ${startMonth} is in the past`);
+    }
+  }
+  if (months !== undefined && (!Number.isInteger(months) || months < 1 || months > MAX_CALENDAR_MONTHS)) {
+    errors.push(`months must be an integer between 1 and ${MAX_CALENDAR_MONTHS}, got ${JSON.stringify(months)}`);
+  }
+  if (stayLength !== undefined && (!Number.isInteger(stayLength) || stayLength < 1 || stayLength > MAX_STAY_NIGHTS)) {
+    errors.push(`stayLength must be an integer between 1 and ${MAX_STAY_NIGHTS}, got ${JSON.stringify(stayLength)}`);
+  }
+  return errors;
+}
+
+export function buildCalendarUrl(market: Market, id: string, startMonth: string, months: number): URL {
+  const url = new URL(`${market.baseUrl}/api/v3/${CALENDAR_OPERATION}/${CALENDAR_QUERY_HASH}`);
+  url.searchParams.append("operationName", CALENDAR_OPERATION);
+  url.searchParams.append("locale", market.locale ?? "en");
+  url.searchParams.append("currency", market.currency ?? "USD");
+  url.searchParams.append("variables", JSON.stringify({
+    request: {
+      count: months,
+      listingId: id,
+      month: parseInt(startMonth.slice(5, 7), 10),
+      year: parseInt(startMonth.slice(0, 4), 10),
+    }
+  }));
+  url.searchParams.append("extensions", JSON.stringify({
+    persistedQuery: { version: 1, sha256Hash: CALENDAR_QUERY_HASH }
+  }));
+  return url;
+}
+
+// A stay of `stayLength` nights can start on a night when that night and the
+// following ones are open, check-in is allowed, the stay length satisfies the
+// check-in night's min/max rules and check-out is allowed on the last morning.
+// The check-out morning may itself be a blocked night.
+function fitsStay(nights: CalendarNight[], index: number, stayLength: number, byDate: Map<string, CalendarNight>): boolean {
+  const checkin = nights[index];
+  if (!checkin.checkinAllowed) return false;
+  if (checkin.minNights !== undefined && stayLength < checkin.minNights) return false;
+  if (checkin.maxNights !== undefined && stayLength > checkin.maxNights) return false;
+
+  for (let offset = 1; offset < stayLength; offset++) {
+    if (!byDate.get(addDays(checkin.date, offset))?.available) return false;
+  }
+
+  // Past the end of the calendar we can't tell, so give it the benefit of the doubt
+  const checkout = byDate.get(addDays(checkin.date, stayLength));
+  return checkout === undefined || checkout.checkoutAllowed;
+}
+
+export function findStayWindows(nights: CalendarNight[], stayLength: number): StayWindow[] {
+  const byDate = new Map(nights.map(night => [night.date, night]));
+  const windows: StayWindow[] = [];
+
+  let run: number[] = [];
+  const closeRun = () => {
+    if (run.length === 0) return;
+    const checkinDates = run
+      .filter(index => fitsStay(nights, index, stayLength, byDate))
+      .map(index => nights[index].date);
+    if (checkinDates.length > 0) {
+      const last = nights[run[run.length - 1]];
+      windows.push({
+        start: nights[run[0]].date,
+        end: addDays(last.date, 1),
+        availableNights: run.length,
+        checkinDates,
+      });
+    }
+    run = [];
+  };
+
+  nights.forEach((night, index) => {
+    const previous = nights[index - 1];
+    const continuesRun = previous !== undefined && addDays(previous.date, 1) === night.date;
+    if (!night.available || !continuesRun) closeRun();
+    if (night.available) run.push(index);
+  });
+  closeRun();
+
+  return windows;
+}
@@ -0,0 +1,70 @@
+import { test, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, readdirSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ResponseCache } from './dist/cache.js';
+
+const realNow = Date.now;
+let now = Date.UTC(2026, 10, 6, 12);
+
+function useClock() {
+  Date.now = () => now;
+}
+
+afterEach(() => {
+  Date.now = realNow;
+});
+
+const url = id => `https://www.airbnb.com/rooms/${id}`;
+
+test('entries expire after their TTL', () => {
+  useClock();
+  const cache = new ResponseCache({ name: 'ttl', ttlMs: 60000, maxEntries: 10 });
+  cache.set(url(1), 'one');
+
+  now += 30000;
+  assert.deepEqual(cache.get(url(1)), { value: 'one', status: { hit: true, ageSeconds: 30 } });
+  now += 30001;
+  assert.equal(cache.get(url(1)), undefined);
+});
+
+test('the least recently used entry is evicted first', () => {
+  const cache = new ResponseCache({ name: 'lru', ttlMs: 60000, maxEntries: 2 });
+  cache.set(url(1), 'one');
+  cache.set(url(2), 'two');
+  // Reading 1 makes 2 the least recently used
+  cache.get(url(1));
+  cache.set(url(3), 'three');
+
+  assert.equal(cache.get(url(2)), undefined);
+  assert.equal(cache.get(url(1)).value, 'one');
+  assert.equal(cache.get(url(3)).value, 'three');
+});
+
+test('disk hits are kept in memory within maxEntries', () => {
+  const dir = mkdtempSync(join(tmpdir(), 'cache-test-'));
+  try {
+    const writer = new ResponseCache({ name: 'disk', ttlMs: 60000, maxEntries: 10, dir });
+    for (const id of [1, 2, 3]) writer.set(url(id), `listing ${id}`);
+
+    // A restarted server finds every entry on disk
+    const reader = new ResponseCache({ name: 'disk', ttlMs: 60000, maxEntries: 2, dir });
+    for (const id of [1, 2, 3]) assert.equal(reader.get(url(id)).value, `listing ${id}`);
+
+    // With the files gone only the two most recent reads are still in memory
+    for (const file of readdirSync(join(dir, 'disk'))) rmSync(join(dir, 'disk', file));
+    assert.equal(reader.get(url(1)), undefined);
+    assert.equal(reader.get(url(2)).value, 'listing 2');
+    assert.equal(reader.get(url(3)).value, 'listing 3');
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test('a TTL or size of 0 disables the cache', () => {
+  const cache = new ResponseCache({ name: 'off', ttlMs: 0, maxEntries: 10 });
+  cache.set(url(1), 'one');
+  assert.equal(cache.enabled, false);
+  assert.equal(cache.get(url(1)), undefined);
+});
@@ -0,0 +1,149 @@
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, unlinkSync, writeFileSync } from 'fs';
+import { join, resolve } from 'path';
+import { CONFIG } from "./config.js";
+import { normalizeUrl } from "./fixtures.js";
+import { log } from "./log.js";
+import { cacheLookups } from "./metrics.js";
+
+export interface CacheStatus {
+  hit: boolean;
+  ageSeconds: number;
+}
+
+export const MISS: CacheStatus = { hit: false, ageSeconds: 0 };
+
+interface CacheEntry<T> {
+  url: string;
+  storedAt: number;
+  value: T;
+}
+
+export interface ResponseCacheOptions {
+  name: string;
+  ttlMs: number;
+  maxEntries: number;
+  dir?: string; // optional on-disk backend so entries survive restarts
+}
+
+// Parsed responses keyed by normalized request URL. The in-memory layer is an
+// LRU bounded by maxEntries; the disk layer, when configured, only expires by TTL.
+export class ResponseCache<T> {
+  private readonly entries = new Map<string, CacheEntry<T>>();
+  private readonly dir?: string;
+
+  constructor(private readonly options: ResponseCacheOptions) {
+    this.dir = options.dir ? resolve(options.dir, options.name) : undefined;
+  }
+
+  get enabled(): boolean {
+    return this.options.ttlMs > 0 && this.options.maxEntries > 0;
+  }
+
+  get(url: string): { value: T; status: CacheStatus } | undefined {
+    if (!this.enabled) return undefined;
+
+    const found = this.lookup(normalizeUrl(url));
+    cacheLookups.inc({ cache: this.options.name, result: found ? "hit" : "miss" });
+    return found;
+  }
+
+  private lookup(key: string): { value: T; status: CacheStatus } | undefined {
+    const entry = this.entries.get(key) ?? this.readFromDisk(key);
+    if (!entry) return undefined;
+
+    const age = Date.now() - entry.storedAt;
+    if (age > this.options.ttlMs) {
+      this.delete(key);
+      return undefined;
+    }
+
+    // Re-insert to mark as most recently used; a disk hit joins the memory layer
+    this.remember(key, entry);
+
+    return { value: entry.value, status: { hit: true, ageSeconds: Math.round(age / 1000) } };
+  }
+
+  set(url: string, value: T) {
+    if (!this.enabled) return;
+
+    const key = normalizeUrl(url);
+    const entry: CacheEntry<T> = { url: key, storedAt: Date.now(), value };
+
+    this.remember(key, entry);
+    this.writeToDisk(key, entry);
+  }
+
+  // Put an entry in memory as the most recently used, evicting the least
+  // recently used beyond maxEntries. Evicted entries stay on disk.
+  private remember(key: string, entry: CacheEntry<T>) {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.options.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  private delete(key: string) {
+    this.entries.delete(key);
+    if (!this.dir) return;
+
+    const path = this.pathFor(key);
+    try {
+      if (existsSync(path)) unlinkSync(path);
+    } catch (error) {
+      log('warn', 'Failed to delete cache file', {
+        path,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  private pathFor(key: string): string {
+    return join(this.dir!, `${createHash("sha256").update(key).digest("hex")}.json`);
+  }
+
+  private readFromDisk(key: string): CacheEntry<T> | undefined {
+    if (!this.dir) return undefined;
+
+    const path = this.pathFor(key);
+    if (!existsSync(path)) return undefined;
+
+    try {
+      return JSON.parse(readFileSync(path, "utf8")) as CacheEntry<T>;
+    } catch (error) {
+      log('warn', 'Ignoring unreadable cache file', {
+        path,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return undefined;
+    }
+  }
+
+  private writeToDisk(key: string, entry: CacheEntry<T>) {
+    if (!this.dir) return;
+
+    try {
+      mkdirSync(this.dir, { recursive: true });
+      writeFileSync(this.pathFor(key), JSON.stringify(entry));
+    } catch (error) {
+      log('warn', 'Failed to write cache file', {
+        dir: this.dir,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+}
+
+// A TTL of 0 disables that cache
+export const CACHE_CONFIG = CONFIG.cache;
+
+export function createResponseCache<T>(name: string, ttlSeconds: number): ResponseCache<T> {
+  return new ResponseCache<T>({
+    name,
+    ttlMs: ttlSeconds * 1000,
+    maxEntries: CACHE_CONFIG.maxEntries,
+    dir: CACHE_CONFIG.dir,
+  });
+}
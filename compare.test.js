@@ -0,0 +1,93 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildComparison, compareListing, failedListing, validateCompareIds } from './dist/compare.js';
+
+function details(id, overrides = {}) {
+  return {
+    id,
+    url: `https://www.airbnb.com/rooms/${id}`,
+    title: `Place ${id}`,
+    rating: 4.8,
+    reviewCount: 20,
+    location: { title: "Where you'll be", subtitle: 'Paris, France', coordinates: { latitude: 48.85, longitude: 2.35 } },
+    capacity: { guests: 4, bedrooms: 2, beds: 2, bathrooms: 1 },
+    highlights: [],
+    cancellationPolicy: 'Free cancellation for 48 hours',
+    houseRules: [{ title: 'During your stay', items: ['No parties'] }],
+    amenities: [
+      { title: 'Kitchen and dining', amenities: ['Kitchen', 'Wifi'] },
+      { title: 'Not included', amenities: ['Unavailable: Washer', 'Pool'] },
+    ],
+    photos: [],
+    ...overrides,
+  };
+}
+
+function quote(id, total, currency = 'USD') {
+  return {
+    id,
+    url: `https://www.airbnb.com/rooms/${id}`,
+    checkin: '2026-11-06',
+    checkout: '2026-11-11',
+    nights: 5,
+    available: true,
+    currency,
+    nightlyRate: total / 5,
+    total,
+    discounts: [],
+    otherFees: [],
+    lineItems: [],
+  };
+}
+
+test('ids must be 2 to 10 different numeric listings', () => {
+  assert.deepEqual(validateCompareIds(['1', 2]), []);
+  assert.match(validateCompareIds(['1', '1'])[0], /between 2 and 10 different listings, got 1/);
+  assert.match(validateCompareIds(['1', 'abc'])[0], /numeric Airbnb listing ids/);
+  assert.match(validateCompareIds(Array.from({ length: 11 }, (_, i) => String(i + 1)))[0], /got 11/);
+});
+
+test('a row reads key amenities, skipping the ones listed as not included', () => {
+  const row = compareListing({ details: details('1'), quote: quote('1', 500) }, true);
+  assert.equal(row.keyAmenities.kitchen, true);
+  assert.equal(row.keyAmenities.wifi, true);
+  assert.equal(row.keyAmenities.washer, false);
+  assert.equal(row.keyAmenities.pool, false);
+  assert.equal(row.location, 'Paris, France');
+  assert.equal(row.totalPrice, 500);
+  assert.deepEqual(row.missing, []);
+});
+
+test('missing data is null and named, never zero', () => {
+  const row = compareListing({ details: details('2', { rating: undefined, amenities: [], houseRules: [] }) }, true);
+  assert.equal(row.rating, null);
+  assert.equal(row.totalPrice, null);
+  assert.equal(row.keyAmenities.wifi, null);
+  assert.deepEqual(row.missing, ['rating', 'houseRules', 'totalPrice', 'nightlyRate', 'keyAmenities']);
+
+  // Without dates a missing price is expected
+  const undated = compareListing({ details: details('2') }, false);
+  assert.deepEqual(undated.missing, []);
+});
+
+test('standouts skip failed listings and compare prices only in one currency', () => {
+  const rows = [
+    compareListing({ details: details('1', { rating: 4.5 }), quote: quote('1', 800) }, true),
+    compareListing({ details: details('2', { rating: 4.9, capacity: { bedrooms: 3 } }), quote: quote('2', 600) }, true),
+    failedListing('3', 'https://www.airbnb.com/rooms/3', 'HTTP 404', 'upstream_error'),
+  ];
+  const comparison = buildComparison(rows);
+  assert.equal(comparison.succeeded, 2);
+  assert.equal(comparison.failed, 1);
+  assert.deepEqual(comparison.best, {
+    lowestTotalPrice: '2',
+    lowestNightlyRate: '2',
+    highestRating: '2',
+    mostBedrooms: '2',
+  });
+
+  rows[1] = compareListing({ details: details('2'), quote: quote('2', 600, 'EUR') }, true);
+  const mixed = buildComparison(rows);
+  assert.equal(mixed.best.lowestTotalPrice, undefined);
+  assert.equal(mixed.best.lowestNightlyRate, undefined);
+});
@@ -0,0 +1,188 @@
+import { Coordinates, ListingDetails, PriceQuote } from "./models.js";
+
+// Side-by-side comparison of several listings fetched with the same dates and guests
+
+export const MIN_COMPARE_LISTINGS = 2;
+export const MAX_COMPARE_LISTINGS = 10;
+// Listings fetched at once; the shared request scheduler still paces the actual requests
+export const COMPARE_CONCURRENCY = 3;
+
+// Amenities that get a row of their own, matched against Airbnb's amenity titles
+export const KEY_AMENITIES: [string, RegExp][] = [
+  ["wifi", /\bwi-?fi\b/i],
+  ["kitchen", /^kitchen$/i],
+  ["washer", /\bwasher\b/i],
+  ["air_conditioning", /air conditioning|\bAC\b/],
+  ["heating", /heating/i],
+  ["free_parking", /free (?:parking|street parking)/i],
+  ["workspace", /workspace/i],
+  ["pool", /\bpool\b/i],
+  ["hot_tub", /hot tub/i],
+  ["ev_charger", /ev charger/i],
+];
+
+// One listing page parsed for both its details and, when dates are given, its price
+export interface ComparisonPage {
+  details: ListingDetails;
+  quote?: PriceQuote;
+}
+
+// Every field is present on every row; null marks data Airbnb didn't provide,
+// and `missing` names those fields so gaps are never mistaken for zeroes
+export interface ComparedListing {
+  id: string;
+  url: string;
+  ok: boolean;
+  error?: string;
+  errorType?: string;
+  name: string | null;
+  totalPrice: number | null;
+  nightlyRate: number | null;
+  currency: string | null;
+  rating: number | null;
+  reviewCount: number | null;
+  guests: number | null;
+  bedrooms: number | null;
+  beds: number | null;
+  bathrooms: number | null;
+  keyAmenities: Record<string, boolean | null>;
+  houseRules: string[] | null;
+  cancellationPolicy: string | null;
+  location: string | null;
+  coordinates: Coordinates | null;
+  missing: string[];
+}
+
+export interface ListingComparison {
+  listings: ComparedListing[];
+  succeeded: number;
+  failed: number;
+  // Ids of the standouts; price picks are only made when all prices share a currency
+  best: {
+    lowestTotalPrice?: string;
+    lowestNightlyRate?: string;
+    highestRating?: string;
+    mostBedrooms?: string;
+  };
+}
+
+export function validateCompareIds(ids: unknown): string[] {
+  if (!Array.isArray(ids) || ids.some(id => (typeof id !== "string" && typeof id !== "number") || !/^\d+$/.test(String(id)))) {
+    return ["ids must be an array of numeric Airbnb listing ids"];
+  }
+  const unique = new Set(ids.map(String));
+  if (unique.size < MIN_COMPARE_LISTINGS || unique.size > MAX_COMPARE_LISTINGS) {
+    return [`ids must contain between ${MIN_COMPARE_LISTINGS} and ${MAX_COMPARE_LISTINGS} different listings, got ${unique.size}`];
+  }
+  return [];
+}
+
+function emptyRow(id: string, url: string): ComparedListing {
+  return {
+    id,
+    url,
+    ok: true,
+    name: null,
+    totalPrice: null,
+    nightlyRate: null,
+    currency: null,
+    rating: null,
+    reviewCount: null,
+    guests: null,
+    bedrooms: null,
+    beds: null,
+    bathrooms: null,
+    keyAmenities: Object.fromEntries(KEY_AMENITIES.map(([key]) => [key, null])),
+    houseRules: null,
+    cancellationPolicy: null,
+    location: null,
+    coordinates: null,
+    missing: [],
+  };
+}
+
+export function failedListing(id: string, url: string, error: string, errorType?: string): ComparedListing {
+  return { ...emptyRow(id, url), ok: false, error, errorType };
+}
+
+// `priced` says whether dates were given, so a missing price only counts as missing then
+export function compareListing(page: ComparisonPage, priced: boolean): ComparedListing {
+  const { details, quote } = page;
+  const row = emptyRow(details.id, details.url);
+
+  row.name = details.title ?? null;
+  row.rating = details.rating ?? null;
+  row.reviewCount = details.reviewCount ?? null;
+  row.guests = details.capacity.guests ?? null;
+  row.bedrooms = details.capacity.bedrooms ?? null;
+  row.beds = details.capacity.beds ?? null;
+  row.bathrooms = details.capacity.bathrooms ?? null;
+  row.cancellationPolicy = details.cancellationPolicy ?? null;
+
+  if (quote?.available) {
+    row.totalPrice = quote.total ?? null;
+    row.nightlyRate = quote.nightlyRate ?? null;
+    row.currency = quote.currency ?? null;
+  }
+
+  // Airbnb lists amenities a place lacks in a "Not included" group
+  const amenities = details.amenities
+    .filter(group => !/not included/i.test(group.title))
+    .flatMap(group => group.amenities)
+    .filter(title => !/^unavailable:/i.test(title));
+  if (amenities.length > 0) {
+    for (const [key, pattern] of KEY_AMENITIES) {
+      row.keyAmenities[key] = amenities.some(title => pattern.test(title));
+    }
+  }
+
+  const rules = details.houseRules.flatMap(section => section.items);
+  row.houseRules = rules.length > 0 ? rules : null;
+
+  // The subtitle names the place; the title is usually a heading like "Where you'll be"
+  if (details.location) {
+    row.location = details.location.subtitle ?? details.location.title ?? null;
+    row.coordinates = details.location.coordinates ?? null;
+  }
+
+  const checked: (keyof ComparedListing)[] = [
+    "name", "rating", "reviewCount", "guests", "bedrooms", "beds", "bathrooms",
+    "houseRules", "cancellationPolicy", "location", "coordinates",
+    ...(priced ? ["totalPrice", "nightlyRate"] as const : []),
+  ];
+  row.missing = checked.filter(field => row[field] === null);
+  if (amenities.length === 0) row.missing.push("keyAmenities");
+
+  return row;
+}
+
+function pick(rows: ComparedListing[], value: (row: ComparedListing) => number | null, highest: boolean): string | undefined {
+  let best: ComparedListing | undefined;
+  for (const row of rows) {
+    const current = value(row);
+    if (current === null) continue;
+    const bestValue = best ? value(best)! : undefined;
+    if (bestValue === undefined || (highest ? current > bestValue : current < bestValue)) {
+      best = row;
+    }
+  }
+  return best?.id;
+}
+
+export function buildComparison(listings: ComparedListing[]): ListingComparison {
+  const succeeded = listings.filter(row => row.ok);
+  const currencies = new Set(succeeded.map(row => row.currency).filter(Boolean));
+  const comparablePrices = currencies.size === 1;
+
+  return {
+    listings,
+    succeeded: succeeded.length,
+    failed: listings.length - succeeded.length,
+    best: {
+      lowestTotalPrice: comparablePrices ? pick(succeeded, row => row.totalPrice, false) : undefined,
+      lowestNightlyRate: comparablePrices ? pick(succeeded, row => row.nightlyRate, false) : undefined,
+      highestRating: pick(succeeded, row => row.rating, true),
+      mostBedrooms: pick(succeeded, row => row.bedrooms, true),
+    },
+  };
+}
@@ -0,0 +1,219 @@
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { spawnSync } from 'child_process';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { dirname, join } from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+import { parseYaml, YamlSyntaxError } from './dist/yaml.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const dir = mkdtempSync(join(tmpdir(), 'config-test-'));
+
+after(() => rmSync(dir, { recursive: true, force: true }));
+
+// The config is read once, from the process's own flags and environment, when
+// config.js is imported, so each case loads it in a fresh process
+const loader = join(dir, 'load-config.mjs');
+writeFileSync(loader, `
+import { CONFIG, assertValidConfig } from ${JSON.stringify(pathToFileURL(join(__dirname, 'dist', 'config.js')).href)};
+let problems = [];
+try {
+  assertValidConfig();
+} catch (error) {
+  problems = error.problems;
+}
+console.log(JSON.stringify({ config: CONFIG, problems }));
+`);
+
+function loadConfig(args = [], env = {}) {
+  const child = spawnSync(process.execPath, [loader, ...args], {
+    env: { PATH: process.env.PATH, ...env },
+    encoding: 'utf8',
+    timeout: 30000,
+  });
+  assert.equal(child.status, 0, child.stderr);
+  return JSON.parse(child.stdout);
+}
+
+function configFile(name, text) {
+  const path = join(dir, name);
+  writeFileSync(path, text);
+  return path;
+}
+
+test('defaults apply without a file, env or flags', () => {
+  const { config, problems } = loadConfig();
+  assert.deepEqual(problems, []);
+  assert.equal(config.server.port, 8003);
+  assert.equal(config.server.http, false);
+  assert.equal(config.fetch.mode, 'live');
+  assert.deepEqual(config.server.allowedOrigins, []);
+  assert.equal(config.defaults.adults, 1);
+});
+
+test('blank and unexpanded extension settings read as unset', () => {
+  const env = {};
+  for (const name of [
+    'AIRBNB_DEFAULT_ADULTS', 'AIRBNB_DEFAULT_CHILDREN', 'AIRBNB_FETCH_TIMEOUT_SECONDS', 'AIRBNB_MAX_CONCURRENCY',
+    'AIRBNB_CACHE_TTL_SEARCH', 'AIRBNB_CACHE_DIR', 'AIRBNB_CONFIG_FILE', 'IGNORE_ROBOTS_TXT',
+  ]) {
+    env[name] = `\${user_config.${name.toLowerCase()}}`;
+  }
+  env.AIRBNB_MAX_RETRIES = '';
+  env.AIRBNB_REQUESTS_PER_SECOND = '  ';
+
+  const { config, problems } = loadConfig([], env);
+  assert.deepEqual(problems, []);
+  assert.equal(config.defaults.adults, 1);
+  assert.equal(config.defaults.children, 0);
+  assert.equal(config.fetch.timeoutSeconds, 30);
+  assert.equal(config.fetch.maxConcurrency, 2);
+  assert.equal(config.fetch.maxRetries, 3);
+  assert.equal(config.fetch.requestsPerSecond, 1);
+  assert.equal(config.cache.searchTtlSeconds, 300);
+  assert.equal(config.cache.dir, undefined);
+  assert.equal(config.airbnb.ignoreRobotsTxt, false);
+});
+
+test('flags win over env vars, which win over the file', () => {
+  const file = configFile('layers.yaml', [
+    'server:',
+    '  port: 9000',
+    '  host: 0.0.0.0',
+    'defaults:',
+    '  adults: 2',
+    '  currency: EUR',
+  ].join('\n'));
+
+  const fromFile = loadConfig(['--config', file]).config;
+  assert.equal(fromFile.server.port, 9000);
+  assert.equal(fromFile.server.host, '0.0.0.0');
+  assert.equal(fromFile.defaults.adults, 2);
+  assert.equal(fromFile.defaults.currency, 'EUR');
+
+  const fromEnv = loadConfig(['--config', file], { MCP_PORT: '9100', AIRBNB_CURRENCY: 'GBP' }).config;
+  assert.equal(fromEnv.server.port, 9100);
+  assert.equal(fromEnv.defaults.currency, 'GBP');
+  assert.equal(fromEnv.defaults.adults, 2);
+
+  const fromFlag = loadConfig(['--config', file, '--port', '9200'], { MCP_PORT: '9100' }).config;
+  assert.equal(fromFlag.server.port, 9200);
+  assert.equal(fromFlag.server.host, '0.0.0.0');
+});
+
+test('the file can be named by env var and written as JSON', () => {
+  const file = configFile('settings.json', JSON.stringify({ quotas: { toolCallsPerMinute: 30 }, server: { allowedHosts: ['a.example', 'b.example'] } }));
+  const { config, problems } = loadConfig([], { AIRBNB_CONFIG_FILE: file });
+  assert.deepEqual(problems, []);
+  assert.equal(config.quotas.toolCallsPerMinute, 30);
+  assert.deepEqual(config.server.allowedHosts, ['a.example', 'b.example']);
+});
+
+test('lists come comma-separated from env vars and as lists from the file', () => {
+  const file = configFile('lists.yaml', 'server:\n  allowedOrigins:\n    - https://a.example\n    - https://b.example\n');
+  assert.deepEqual(loadConfig(['--config', file]).config.server.allowedOrigins, ['https://a.example', 'https://b.example']);
+  assert.deepEqual(
+    loadConfig(['--config', file], { MCP_ALLOWED_ORIGINS: 'https://c.example, https://d.example' }).config.server.allowedOrigins,
+    ['https://c.example', 'https://d.example']
+  );
+});
+
+test('paths in the file are relative to the file', () => {
+  const file = configFile('paths.yaml', 'watchlist:\n  file: ./data/watchlist.json\n');
+  assert.equal(loadConfig(['--config', file]).config.watchlist.file, join(dir, 'data', 'watchlist.json'));
+  // Paths from flags stay as given
+  assert.equal(loadConfig(['--config', file, '--watchlist-file', 'w.json']).config.watchlist.file, 'w.json');
+});
+
+test('an empty watch list file setting keeps the default path', () => {
+  const loadWatchlist = join(dir, 'load-watchlist.mjs');
+  writeFileSync(loadWatchlist, `
+import { WATCHLIST_FILE } from ${JSON.stringify(pathToFileURL(join(__dirname, 'dist', 'watchlist.js')).href)};
+console.log(WATCHLIST_FILE);
+`);
+  for (const value of ['', '${user_config.watchlist_file}']) {
+    const child = spawnSync(process.execPath, [loadWatchlist], {
+      env: { PATH: process.env.PATH, HOME: dir, AIRBNB_WATCHLIST_FILE: value },
+      encoding: 'utf8',
+      timeout: 30000,
+    });
+    assert.equal(child.status, 0, child.stderr);
+    assert.equal(child.stdout.trim(), join(dir, '.mcp-server-airbnb', 'watchlist.json'));
+  }
+});
+
+test('invalid values and unknown keys are all reported, naming where they came from', () => {
+  const file = configFile('invalid.yaml', [
+    'server:',
+    '  port: 70000',
+    '  prot: 8080',
+    'logging:',
+    '  level: verbose',
+  ].join('\n'));
+  const { config, problems } = loadConfig(['--config', file], { AIRBNB_MAX_CONCURRENCY: '1.5' });
+  assert.deepEqual(problems, [
+    `server.port must be a whole number from 1 to 65535, got 70000 (from ${file})`,
+    `logging.level must be one of debug, info, warn, error, got "verbose" (from ${file})`,
+    'fetch.maxConcurrency must be a whole number of at least 1, got "1.5" (from AIRBNB_MAX_CONCURRENCY)',
+    `Unknown setting server.prot in ${file}`,
+  ]);
+  // Until startup stops on them, invalid values read as their defaults
+  assert.equal(config.server.port, 8003);
+});
+
+test('an unreadable config file is reported', () => {
+  const { problems } = loadConfig(['--config', configFile('settings.toml', 'port = 1')]);
+  assert.equal(problems.length, 1);
+  assert.match(problems[0], /^Cannot read config file .*settings\.toml: expected a \.json, \.yaml or \.yml file$/);
+
+  const missing = loadConfig(['--config', join(dir, 'missing.yaml')]).problems;
+  assert.match(missing[0], /^Cannot read config file .*missing\.yaml/);
+});
+
+test('YAML: nested maps, scalars, comments and both list styles', () => {
+  const parsed = parseYaml([
+    '# settings',
+    'server:',
+    '  port: 8003   # inline comment',
+    '  host: "127.0.0.1"',
+    "  name: 'it''s # not a comment'",
+    '  origins: [https://a.example, "b, c"]',
+    '  hosts:',
+    '  - a.example',
+    '  - 12',
+    'robots:',
+    '  failClosed: TRUE',
+    '  refreshMinutes: 1.5e2',
+    '  timeoutSeconds: ~',
+    'empty:',
+  ].join('\n'));
+  assert.deepEqual(parsed, {
+    server: {
+      port: 8003,
+      host: '127.0.0.1',
+      name: "it's # not a comment",
+      origins: ['https://a.example', 'b, c'],
+      hosts: ['a.example', 12],
+    },
+    robots: { failClosed: true, refreshMinutes: 150, timeoutSeconds: null },
+    empty: null,
+  });
+  assert.deepEqual(parseYaml('# nothing here\n'), {});
+});
+
+test('YAML: unsupported syntax fails with its line number', () => {
+  const failure = (source, message, line) => assert.throws(() => parseYaml(source), error => {
+    assert.ok(error instanceof YamlSyntaxError);
+    assert.equal(error.line, line);
+    assert.match(error.message, message);
+    return true;
+  });
+  failure('a: 1\na: 2', /duplicate key a/, 2);
+  failure('a:\n\tb: 1', /tabs can't be used/, 2);
+  failure('a: &anchor 1', /unsupported YAML syntax/, 1);
+  failure('a: |\n  text', /unsupported YAML syntax/, 1);
+  failure('a:\n  - name: x', /only lists of plain values/, 2);
+  failure('a: 1\n  b: 2', /unexpected indentation/, 2);
+  failure('just text', /expected "key: value"/, 1);
+});
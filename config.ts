@@ -0,0 +1,411 @@
+import { readFileSync } from 'fs';
+import { homedir } from 'os';
+import { dirname, extname, resolve } from 'path';
+import { getPath } from "./diagnostics.js";
+import type { FetchMode } from "./fetcher.js";
+import type { LogFormat, LogLevel } from "./log.js";
+import { getArgValue } from "./util.js";
+import { parseYaml } from "./yaml.js";
+
+// Server settings in layers: built-in defaults, then a JSON or YAML config
+// file (--config / AIRBNB_CONFIG_FILE), then environment variables, then CLI
+// flags. Every setting keeps the env var and flag it had before there was a
+// file. Problems are collected while loading and reported together when the
+// server starts; until then an invalid value reads as its default.
+
+export interface AppConfig {
+  server: {
+    http: boolean;
+    host: string;
+    port: number;
+    // Time allowed to receive a whole HTTP request, headers and body
+    requestTimeoutSeconds: number;
+    // Sessions without a request for this long are closed
+    sessionIdleMinutes: number;
+    maxSessions: number;
+    version?: string;
+    authTokens: string[];
+    authTokensFile?: string;
+    adminTokens: string[];
+    adminTokensFile?: string;
+    allowedOrigins: string[];
+    allowedHosts: string[];
+    tlsCert?: string;
+    tlsKey?: string;
+  };
+  logging: {
+    level: LogLevel;
+    format: LogFormat;
+  };
+  // 0 means unlimited
+  quotas: {
+    toolCallsPerMinute: number;
+    toolCallsPerDay: number;
+    fetchesPerMinute: number;
+    fetchesPerDay: number;
+  };
+  airbnb: {
+    // Where requests for the default domain go, e.g. a caching proxy; https://<domain> when unset
+    baseUrl?: string;
+    userAgent: string;
+    apiKey: string;
+    ignoreRobotsTxt: boolean;
+  };
+  fetch: {
+    mode: FetchMode;
+    fixturesDir: string;
+    timeoutSeconds: number;
+    requestsPerSecond: number;
+    maxConcurrency: number;
+    maxRetries: number;
+  };
+  robots: {
+    timeoutSeconds: number;
+    refreshMinutes: number;
+    failClosed: boolean;
+  };
+  cache: {
+    searchTtlSeconds: number;
+    listingTtlSeconds: number;
+    maxEntries: number;
+    dir?: string;
+  };
+  // Used when a tool call leaves them out
+  defaults: {
+    currency?: string;
+    locale?: string;
+    domain?: string;
+    adults: number;
+    children: number;
+    infants: number;
+    pets: number;
+  };
+  resources: {
+    refreshMinutes: number;
+    maxEntries: number;
+  };
+  watchlist: {
+    file?: string;
+  };
+}
+
+const DEFAULT_USER_AGENT = "ModelContextProtocol/1.0 (Autonomous; +https://github.com/modelcontextprotocol/servers)";
+// The public key Airbnb's web client sends with API requests
+const DEFAULT_API_KEY = "d306zoyjsyarp7ifhu67rjxn52tv0t20";
+
+const FETCH_MODES: readonly FetchMode[] = ["live", "record", "replay"];
+const LOG_LEVELS: readonly LogLevel[] = ["debug", "info", "warn", "error"];
+const LOG_FORMATS: readonly LogFormat[] = ["text", "json"];
+
+// Desktop extension hosts can pass an optional setting the user left empty as
+// "" or as its unexpanded "${user_config.name}" placeholder; both mean unset
+const UNEXPANDED_PLACEHOLDER = /^\$\{[^}]*\}$/;
+
+function isSet(value: string | undefined): value is string {
+  return value !== undefined && value.trim() !== "" && !UNEXPANDED_PLACEHOLDER.test(value.trim());
+}
+
+export class ConfigError extends Error {
+  constructor(readonly problems: string[]) {
+    super(`Invalid configuration: ${problems.join("; ")}`);
+    this.name = new.target.name;
+  }
+}
+
+interface SettingSource {
+  env?: string;
+  flag?: string;
+}
+
+interface NumberSetting extends SettingSource {
+  default: number;
+  min?: number;
+  max?: number;
+  integer?: boolean;
+}
+
+interface StringSetting extends SettingSource {
+  default?: string;
+  values?: readonly string[];
+  pattern?: RegExp;
+  expected?: string;
+  // Relative paths in the config file are taken relative to the file, and ~ is the home directory
+  path?: boolean;
+}
+
+interface FoundValue {
+  value: unknown;
+  from: string;
+  inFile: boolean;
+}
+
+// Reads settings by their dotted key in the file, e.g. "fetch.timeoutSeconds",
+// remembering the keys asked for so leftovers in the file can be reported
+class ConfigReader {
+  readonly problems: string[] = [];
+  private readonly keys = new Set<string>();
+
+  constructor(private readonly file: Record<string, unknown>, private readonly fileName?: string) {}
+
+  // The value from the highest layer that sets one; blank strings and
+  // placeholders count as unset
+  private lookup(key: string, { env, flag }: SettingSource): FoundValue | undefined {
+    this.keys.add(key);
+    const fromFlag = flag ? getArgValue(flag) : undefined;
+    if (isSet(fromFlag)) return { value: fromFlag, from: flag!, inFile: false };
+    const fromEnv = env ? process.env[env] : undefined;
+    if (isSet(fromEnv)) return { value: fromEnv, from: env!, inFile: false };
+    const fromFile = getPath(this.file, key.split("."));
+    if (fromFile !== undefined && fromFile !== null && (typeof fromFile !== "string" || isSet(fromFile))) {
+      return { value: fromFile, from: this.fileName!, inFile: true };
+    }
+    return undefined;
+  }
+
+  private invalid(key: string, found: FoundValue, expected: string): void {
+    this.problems.push(`${key} must be ${expected}, got ${JSON.stringify(found.value)} (from ${found.from})`);
+  }
+
+  number(key: string, setting: NumberSetting): number {
+    const found = this.lookup(key, setting);
+    if (!found) return setting.default;
+
+    const { min = 0, max = Infinity, integer = false } = setting;
+    const value = typeof found.value === "string" && found.value.trim() !== "" ? Number(found.value) : found.value;
+    if (typeof value !== "number" || !Number.isFinite(value) || value < min || value > max || (integer && !Number.isInteger(value))) {
+      const range = Number.isFinite(max) ? `from ${min} to ${max}` : `of at least ${min}`;
+      this.invalid(key, found, `${integer ? "a whole number" : "a number"} ${range}`);
+      return setting.default;
+    }
+    return value;
+  }
+
+  // A boolean's CLI flag is a switch that turns it on
+  boolean(key: string, setting: SettingSource & { default: boolean }): boolean {
+    const found = this.lookup(key, { env: setting.env });
+    if (setting.flag && process.argv.slice(2).includes(setting.flag)) return true;
+    if (!found) return setting.default;
+
+    const value = typeof found.value === "string" ? { true: true, false: false }[found.value.toLowerCase()] : found.value;
+    if (typeof value !== "boolean") {
+      this.invalid(key, found, "true or false");
+      return setting.default;
+    }
+    return value;
+  }
+
+  string<T extends string = string>(key: string, setting: StringSetting & { default: T }): T;
+  string<T extends string = string>(key: string, setting: StringSetting): T | undefined;
+  string(key: string, setting: StringSetting): string | undefined {
+    const found = this.lookup(key, setting);
+    if (!found) return setting.default;
+
+    if (typeof found.value !== "string" && typeof found.value !== "number") {
+      this.invalid(key, found, setting.expected ?? "a string");
+      return setting.default;
+    }
+    const value = setting.values ? String(found.value).toLowerCase() : String(found.value);
+    if (setting.values && !setting.values.includes(value)) {
+      this.invalid(key, found, `one of ${setting.values.join(", ")}`);
+      return setting.default;
+    }
+    if (setting.pattern && !setting.pattern.test(value)) {
+      this.invalid(key, found, setting.expected ?? `a value matching ${setting.pattern}`);
+      return setting.default;
+    }
+    if (setting.path && found.inFile) {
+      return resolve(dirname(found.from), value.replace(/^~(?=$|[\\/])/, homedir()));
+    }
+    return value;
+  }
+
+  // Comma-separated in env vars and flags, a list (or the same string) in the file
+  list(key: string, setting: SettingSource): string[] {
+    const found = this.lookup(key, setting);
+    if (!found) return [];
+
+    if (typeof found.value === "string") {
+      return found.value.split(",").map(item => item.trim()).filter(Boolean);
+    }
+    if (Array.isArray(found.value) && found.value.every(item => typeof item === "string" || typeof item === "number")) {
+      return found.value.map(String).filter(Boolean);
+    }
+    this.invalid(key, found, "a list of strings");
+    return [];
+  }
+
+  // Keys in the file that no setting reads, most likely typos
+  unknownKeys(): string[] {
+    const unknown: string[] = [];
+    const walk = (section: Record<string, unknown>, prefix: string) => {
+      for (const [name, value] of Object.entries(section)) {
+        const key = prefix ? `${prefix}.${name}` : name;
+        if (this.keys.has(key)) continue;
+        const isSection = value !== null && typeof value === "object" && !Array.isArray(value) &&
+          [...this.keys].some(known => known.startsWith(`${key}.`));
+        if (isSection) {
+          walk(value as Record<string, unknown>, key);
+        } else {
+          unknown.push(key);
+        }
+      }
+    };
+    walk(this.file, "");
+    return unknown;
+  }
+}
+
+function readConfigFile(path: string): Record<string, unknown> {
+  const text = readFileSync(path, "utf8");
+  const extension = extname(path).toLowerCase();
+  let data: unknown;
+  if (extension === ".json") {
+    data = JSON.parse(text);
+  } else if (extension === ".yaml" || extension === ".yml") {
+    data = parseYaml(text);
+  } else {
+    throw new Error("expected a .json, .yaml or .yml file");
+  }
+  if (data === null || typeof data !== "object" || Array.isArray(data)) {
+    throw new Error("expected a mapping of settings at the top level");
+  }
+  return data as Record<string, unknown>;
+}
+
+function readSettings(read: ConfigReader): AppConfig {
+  const args = process.argv.slice(2);
+  // --replay-fixtures and --record-fixtures predate the mode setting and still win over it
+  const mode = read.string<FetchMode>("fetch.mode", { env: "AIRBNB_FETCH_MODE", values: FETCH_MODES, default: "live" });
+
+  return {
+    server: {
+      http: read.boolean("server.http", { env: "MCP_HTTP_MODE", flag: "--http", default: false }),
+      host: read.string("server.host", { env: "MCP_HOST", flag: "--host", default: "127.0.0.1" }),
+      port: read.number("server.port", { env: "MCP_PORT", flag: "--port", default: 8003, min: 1, max: 65535, integer: true }),
+      requestTimeoutSeconds: read.number("server.requestTimeoutSeconds", {
+        env: "MCP_REQUEST_TIMEOUT_SECONDS", flag: "--request-timeout", default: 60, min: 1
+      }),
+      sessionIdleMinutes: read.number("server.sessionIdleMinutes", {
+        env: "MCP_SESSION_IDLE_MINUTES", flag: "--session-idle-minutes", default: 30, min: 1
+      }),
+      maxSessions: read.number("server.maxSessions", {
+        env: "MCP_MAX_SESSIONS", flag: "--max-sessions", default: 100, min: 1, integer: true
+      }),
+      version: read.string("server.version", { env: "MCP_SERVER_VERSION" }),
+      // Tokens have no flags, so they don't show up in process listings
+      authTokens: read.list("server.authTokens", { env: "MCP_AUTH_TOKENS" }),
+      authTokensFile: read.string("server.authTokensFile", { env: "MCP_AUTH_TOKENS_FILE", flag: "--auth-tokens-file", path: true }),
+      adminTokens: read.list("server.adminTokens", { env: "MCP_ADMIN_TOKENS" }),
+      adminTokensFile: read.string("server.adminTokensFile", { env: "MCP_ADMIN_TOKENS_FILE", flag: "--admin-tokens-file", path: true }),
+      allowedOrigins: read.list("server.allowedOrigins", { env: "MCP_ALLOWED_ORIGINS", flag: "--allowed-origins" }),
+      allowedHosts: read.list("server.allowedHosts", { env: "MCP_ALLOWED_HOSTS", flag: "--allowed-hosts" }),
+      tlsCert: read.string("server.tlsCert", { env: "MCP_TLS_CERT", flag: "--tls-cert", path: true }),
+      tlsKey: read.string("server.tlsKey", { env: "MCP_TLS_KEY", flag: "--tls-key", path: true }),
+    },
+    logging: {
+      level: read.string<LogLevel>("logging.level", { env: "MCP_LOG_LEVEL", flag: "--log-level", values: LOG_LEVELS, default: "info" }),
+      format: read.string<LogFormat>("logging.format", { env: "MCP_LOG_FORMAT", flag: "--log-format", values: LOG_FORMATS, default: "text" }),
+    },
+    quotas: {
+      toolCallsPerMinute: read.number("quotas.toolCallsPerMinute", {
+        env: "MCP_QUOTA_TOOL_CALLS_PER_MINUTE", flag: "--quota-tool-calls-per-minute", default: 0, integer: true
+      }),
+      toolCallsPerDay: read.number("quotas.toolCallsPerDay", {
+        env: "MCP_QUOTA_TOOL_CALLS_PER_DAY", flag: "--quota-tool-calls-per-day", default: 0, integer: true
+      }),
+      fetchesPerMinute: read.number("quotas.fetchesPerMinute", {
+        env: "MCP_QUOTA_FETCHES_PER_MINUTE", flag: "--quota-fetches-per-minute", default: 0, integer: true
+      }),
+      fetchesPerDay: read.number("quotas.fetchesPerDay", {
+        env: "MCP_QUOTA_FETCHES_PER_DAY", flag: "--quota-fetches-per-day", default: 0, integer: true
+      }),
+    },
+    airbnb: {
+      baseUrl: read.string("airbnb.baseUrl", {
+        env: "AIRBNB_BASE_URL", flag: "--base-url",
+        pattern: /^https?:\/\/[^/?#\s]+\/?$/, expected: "an http(s) URL without a path, e.g. https://www.airbnb.com"
+      })?.replace(/\/$/, ""),
+      userAgent: read.string("airbnb.userAgent", { env: "AIRBNB_USER_AGENT", flag: "--user-agent", default: DEFAULT_USER_AGENT }),
+      apiKey: read.string("airbnb.apiKey", { env: "AIRBNB_API_KEY", flag: "--airbnb-api-key", default: DEFAULT_API_KEY }),
+      ignoreRobotsTxt: read.boolean("airbnb.ignoreRobotsTxt", { env: "IGNORE_ROBOTS_TXT", flag: "--ignore-robots-txt", default: false }),
+    },
+    fetch: {
+      mode: args.includes("--replay-fixtures") ? "replay" : args.includes("--record-fixtures") ? "record" : mode,
+      fixturesDir: read.string("fetch.fixturesDir", { env: "AIRBNB_FIXTURES_DIR", flag: "--fixtures-dir", default: "fixtures", path: true }),
+      timeoutSeconds: read.number("fetch.timeoutSeconds", { env: "AIRBNB_FETCH_TIMEOUT_SECONDS", flag: "--fetch-timeout", default: 30, min: 1 }),
+      requestsPerSecond: read.number("fetch.requestsPerSecond", { env: "AIRBNB_REQUESTS_PER_SECOND", flag: "--requests-per-second", default: 1 }),
+      maxConcurrency: read.number("fetch.maxConcurrency", {
+        env: "AIRBNB_MAX_CONCURRENCY", flag: "--max-concurrency", default: 2, min: 1, integer: true
+      }),
+      maxRetries: read.number("fetch.maxRetries", { env: "AIRBNB_MAX_RETRIES", flag: "--max-retries", default: 3, integer: true }),
+    },
+    robots: {
+      timeoutSeconds: read.number("robots.timeoutSeconds", { env: "AIRBNB_ROBOTS_TIMEOUT_SECONDS", flag: "--robots-timeout", default: 10, min: 1 }),
+      refreshMinutes: read.number("robots.refreshMinutes", { env: "AIRBNB_ROBOTS_REFRESH_MINUTES", flag: "--robots-refresh-minutes", default: 360 }),
+      failClosed: read.boolean("robots.failClosed", { env: "AIRBNB_ROBOTS_FAIL_CLOSED", flag: "--robots-fail-closed", default: false }),
+    },
+    cache: {
+      searchTtlSeconds: read.number("cache.searchTtlSeconds", { env: "AIRBNB_CACHE_TTL_SEARCH", flag: "--cache-ttl-search", default: 300 }),
+      listingTtlSeconds: read.number("cache.listingTtlSeconds", { env: "AIRBNB_CACHE_TTL_LISTING", flag: "--cache-ttl-listing", default: 3600 }),
+      maxEntries: read.number("cache.maxEntries", { env: "AIRBNB_CACHE_MAX_ENTRIES", flag: "--cache-max-entries", default: 200, integer: true }),
+      dir: read.string("cache.dir", { env: "AIRBNB_CACHE_DIR", flag: "--cache-dir", path: true }),
+    },
+    // Currency, locale and domain are checked by the market module at startup
+    defaults: {
+      currency: read.string("defaults.currency", { env: "AIRBNB_CURRENCY", flag: "--currency" }),
+      locale: read.string("defaults.locale", { env: "AIRBNB_LOCALE", flag: "--locale" }),
+      domain: read.string("defaults.domain", { env: "AIRBNB_DOMAIN", flag: "--domain" }),
+      adults: read.number("defaults.adults", { env: "AIRBNB_DEFAULT_ADULTS", flag: "--default-adults", default: 1, min: 1, integer: true }),
+      children: read.number("defaults.children", { env: "AIRBNB_DEFAULT_CHILDREN", flag: "--default-children", default: 0, integer: true }),
+      infants: read.number("defaults.infants", { env: "AIRBNB_DEFAULT_INFANTS", flag: "--default-infants", default: 0, integer: true }),
+      pets: read.number("defaults.pets", { env: "AIRBNB_DEFAULT_PETS", flag: "--default-pets", default: 0, integer: true }),
+    },
+    resources: {
+      refreshMinutes: read.number("resources.refreshMinutes", {
+        env: "AIRBNB_RESOURCE_REFRESH_MINUTES", flag: "--resource-refresh-minutes", default: 60
+      }),
+      maxEntries: read.number("resources.maxEntries", {
+        env: "AIRBNB_RESOURCE_MAX_ENTRIES", flag: "--resource-max-entries", default: 100, integer: true
+      }),
+    },
+    watchlist: {
+      file: read.string("watchlist.file", { env: "AIRBNB_WATCHLIST_FILE", flag: "--watchlist-file", path: true }),
+    },
+  };
+}
+
+function loadConfig(): { config: AppConfig; file?: string; problems: string[] } {
+  const file = [getArgValue("--config"), process.env.AIRBNB_CONFIG_FILE].find(isSet);
+  const problems: string[] = [];
+
+  let data: Record<string, unknown> = {};
+  if (file) {
+    try {
+      data = readConfigFile(file);
+    } catch (error) {
+      problems.push(`Cannot read config file ${file}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  const reader = new ConfigReader(data, file && resolve(file));
+  const config = readSettings(reader);
+  problems.push(
+    ...reader.problems,
+    ...reader.unknownKeys().map(key => `Unknown setting ${key} in ${file}`)
+  );
+  return { config, file, problems };
+}
+
+const loaded = loadConfig();
+
+export const CONFIG: AppConfig = loaded.config;
+export const CONFIG_FILE: string | undefined = loaded.file;
+
+// Called before the server starts; `extraProblems` come from checks that live
+// with the code using a setting, such as the market defaults
+export function assertValidConfig(extraProblems: string[] = []): void {
+  const problems = [...loaded.problems, ...extraProblems];
+  if (problems.length > 0) {
+    throw new ConfigError(problems);
+  }
+}
@@ -0,0 +1,91 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  addDays,
+  applyFlexibleDates,
+  isWithinWindow,
+  nightsBetween,
+  resolveMonths,
+  validateSearchDates
+} from './dist/dates.js';
+
+// Months relative to today, since flexible searches only reach a year ahead
+function monthFromNow(offset) {
+  const now = new Date();
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + offset, 1)).toISOString().slice(0, 7);
+}
+
+test('nightsBetween counts nights and rejects impossible dates', () => {
+  assert.equal(nightsBetween('2026-03-28', '2026-04-02'), 5);
+  assert.equal(nightsBetween('2024-02-28', '2024-03-01'), 2);
+  assert.equal(nightsBetween('2025-02-31', '2025-03-02'), undefined);
+});
+
+test('addDays crosses month and year ends', () => {
+  assert.equal(addDays('2026-12-30', 3), '2027-01-02');
+  assert.equal(addDays('2026-03-01', -1), '2026-02-28');
+});
+
+test('exact dates must be valid and in order', () => {
+  assert.deepEqual(validateSearchDates({ checkin: '2026-11-06', checkout: '2026-11-11' }), []);
+  assert.deepEqual(validateSearchDates({ checkin: '2026-11-06', checkout: '2026-11-06' }), ['checkout must be after checkin']);
+  assert.match(validateSearchDates({ checkin: '2026-02-30' })[0], /checkin must be a valid YYYY-MM-DD date/);
+});
+
+test('flexible dates need months or a window, and no exact dates', () => {
+  assert.deepEqual(validateSearchDates({ flexibleDates: { stayLength: 'week' } }), ['flexibleDates needs months or a window to search in']);
+  const errors = validateSearchDates({ checkin: '2026-11-06', flexibleDates: { stayLength: 'week', months: [monthFromNow(0)] } });
+  assert.match(errors[0], /can't be combined with checkin\/checkout/);
+});
+
+test('flexible months must fall within the next twelve months', () => {
+  assert.deepEqual(validateSearchDates({ flexibleDates: { stayLength: 'weekend', months: [monthFromNow(0), monthFromNow(11)] } }), []);
+  assert.match(validateSearchDates({ flexibleDates: { stayLength: 'weekend', months: [monthFromNow(12)] } })[0], /outside the searchable range/);
+  assert.match(validateSearchDates({ flexibleDates: { stayLength: 'weekend', months: [monthFromNow(-1)] } })[0], /outside the searchable range/);
+});
+
+test('a window must be long enough for the stay', () => {
+  const window = { start: '2026-11-02', end: '2026-11-07' };
+  assert.deepEqual(validateSearchDates({ flexibleDates: { stayLength: 5, window } }), []);
+  assert.deepEqual(
+    validateSearchDates({ flexibleDates: { stayLength: 'week', window } }),
+    ['flexibleDates.window is 5 nights long, too short for a week stay']
+  );
+  assert.deepEqual(
+    validateSearchDates({ flexibleDates: { stayLength: 2, window: { start: '2026-11-07', end: '2026-11-02' } } }),
+    ['flexibleDates.window.end must be after flexibleDates.window.start']
+  );
+});
+
+test('stay length is a named length or 1 to 28 nights', () => {
+  const months = [monthFromNow(0)];
+  assert.match(validateSearchDates({ flexibleDates: { stayLength: 29, months } })[0], /stayLength must be/);
+  assert.match(validateSearchDates({ flexibleDates: { stayLength: 'fortnight', months } })[0], /stayLength must be/);
+});
+
+test('a window resolves to every month it touches', () => {
+  assert.deepEqual(resolveMonths({ stayLength: 'week', window: { start: '2026-11-20', end: '2027-01-05' } }), ['2026-11', '2026-12', '2027-01']);
+  assert.deepEqual(resolveMonths({ stayLength: 'week', months: ['2026-11', '2026-11'], window: { start: '2027-03-01', end: '2027-03-09' } }), ['2026-11']);
+});
+
+test('flexible dates become Airbnb trip parameters', () => {
+  const url = new URL('https://www.airbnb.com/s/Paris/homes');
+  applyFlexibleDates(url, { stayLength: 10, months: ['2026-11', '2027-01'] });
+  assert.equal(url.searchParams.get('date_picker_type'), 'flexible_dates');
+  assert.deepEqual(url.searchParams.getAll('flexible_trip_dates[]'), ['november', 'january']);
+  assert.deepEqual(url.searchParams.getAll('flexible_trip_lengths[]'), ['one_week']);
+  assert.equal(url.searchParams.get('price_filter_num_nights'), '10');
+
+  const weekend = new URL('https://www.airbnb.com/s/Paris/homes');
+  applyFlexibleDates(weekend, { stayLength: 'weekend', months: ['2026-11'] });
+  assert.deepEqual(weekend.searchParams.getAll('flexible_trip_lengths[]'), ['weekend_trip']);
+  assert.equal(weekend.searchParams.has('price_filter_num_nights'), false);
+});
+
+test('stays are kept only when they fit entirely inside the window', () => {
+  const window = { start: '2026-11-02', end: '2026-11-09' };
+  assert.equal(isWithinWindow({ checkin: '2026-11-02', checkout: '2026-11-09', nights: 7 }, window), true);
+  assert.equal(isWithinWindow({ checkin: '2026-11-01', checkout: '2026-11-04', nights: 3 }, window), false);
+  assert.equal(isWithinWindow({ checkin: '2026-11-07', checkout: '2026-11-10', nights: 3 }, window), false);
+  assert.equal(isWithinWindow({ checkin: '2026-11-07', checkout: '2026-11-10', nights: 3 }, undefined), true);
+});
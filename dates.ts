@@ -0,0 +1,230 @@
+import { ResolvedDates } from "./models.js";
+
+// Exact and flexible trip dates for searches
+
+export type StayLength = "weekend" | "week" | "month" | number;
+
+export interface FlexibleDates {
+  months?: string[]; // "YYYY-MM"
+  stayLength: StayLength;
+  window?: {
+    start: string; // "YYYY-MM-DD"
+    end: string;
+  };
+}
+
+export interface SearchDates {
+  checkin?: string;
+  checkout?: string;
+  flexibleDates?: FlexibleDates;
+}
+
+const MONTH_NAMES = [
+  "january", "february", "march", "april", "may", "june",
+  "july", "august", "september", "october", "november", "december",
+];
+
+// Airbnb only offers flexible searches over the next twelve months
+const MAX_FLEXIBLE_MONTHS = 12;
+const MAX_FLEXIBLE_NIGHTS = 28;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const FLEXIBLE_DATES_PROPERTY = {
+  type: "object",
+  description: "Search flexible dates instead of exact checkin/checkout, e.g. a weekend in October or 7 nights sometime in June",
+  properties: {
+    months: {
+      type: "array",
+      items: { type: "string", pattern: "^\\d{4}-\\d{2}$" },
+      description: "Months to search (YYYY-MM). Derived from window when omitted"
+    },
+    stayLength: {
+      oneOf: [
+        { type: "string", enum: ["weekend", "week", "month"] },
+        { type: "integer", minimum: 1, maximum: MAX_FLEXIBLE_NIGHTS }
+      ],
+      description: "\"weekend\", \"week\", \"month\" or a number of nights"
+    },
+    window: {
+      type: "object",
+      properties: {
+        start: { type: "string", description: "Earliest check-in (YYYY-MM-DD)" },
+        end: { type: "string", description: "Latest check-out (YYYY-MM-DD)" }
+      },
+      required: ["start", "end"],
+      description: "Only return stays that fall entirely within these dates"
+    }
+  },
+  required: ["stayLength"]
+};
+
+function parseDate(value: unknown): Date | undefined {
+  if (typeof value !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return undefined;
+  const date = new Date(`${value}T00:00:00Z`);
+  // Reject dates like 2025-02-31 that Date silently rolls over
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(value) ? date : undefined;
+}
+
+function parseMonth(value: unknown): Date | undefined {
+  if (typeof value !== "string" || !/^\d{4}-\d{2}$/.test(value)) return undefined;
+  return parseDate(`${value}-01`);
+}
+
+function formatMonth(date: Date): string {
+  return date.toISOString().slice(0, 7);
+}
+
+function startOfCurrentMonth(): Date {
+  const now = new Date();
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+export function nightsBetween(checkin: string, checkout: string): number | undefined {
+  const start = parseDate(checkin);
+  const end = parseDate(checkout);
+  if (!start || !end) return undefined;
+  return Math.round((end.getTime() - start.getTime()) / DAY_MS);
+}
+
+// Shift a YYYY-MM-DD date by a number of days
+export function addDays(date: string, days: number): string {
+  const start = new Date(`${date}T00:00:00Z`);
+  return new Date(start.getTime() + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+export function currentMonth(): string {
+  return formatMonth(startOfCurrentMonth());
+}
+
+// Months touched by a date window, in "YYYY-MM" form
+function monthsInWindow(start: Date, end: Date): string[] {
+  const months: string[] = [];
+  const cursor = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), 1));
+  while (cursor <= end) {
+    months.push(formatMonth(cursor));
+    cursor.setUTCMonth(cursor.getUTCMonth() + 1);
+  }
+  return months;
+}
+
+export function resolveMonths(flexibleDates: FlexibleDates): string[] {
+  if (flexibleDates.months && flexibleDates.months.length > 0) {
+    return [...new Set(flexibleDates.months)];
+  }
+  const start = parseDate(flexibleDates.window?.start);
+  const end = parseDate(flexibleDates.window?.end);
+  return start && end ? monthsInWindow(start, end) : [];
+}
+
+function stayNights(stayLength: StayLength): number {
+  switch (stayLength) {
+    case "weekend": return 2;
+    case "week": return 7;
+    case "month": return MAX_FLEXIBLE_NIGHTS;
+    default: return stayLength;
+  }
+}
+
+function validateFlexibleDates(flexibleDates: FlexibleDates, errors: string[]) {
+  const { months, stayLength, window } = flexibleDates;
+
+  const isNamedLength = stayLength === "weekend" || stayLength === "week" || stayLength === "month";
+  const isNights = Number.isInteger(stayLength) && (stayLength as number) >= 1 && (stayLength as number) <= MAX_FLEXIBLE_NIGHTS;
+  if (!isNamedLength && !isNights) {
+    errors.push(`flexibleDates.stayLength must be "weekend", "week", "month" or a number of nights from 1 to ${MAX_FLEXIBLE_NIGHTS}, got ${JSON.stringify(stayLength)}`);
+  }
+
+  if (months !== undefined) {
+    if (!Array.isArray(months)) {
+      errors.push("flexibleDates.months must be an array of YYYY-MM strings");
+    } else {
+      const firstMonth = startOfCurrentMonth();
+      const lastMonth = new Date(firstMonth);
+      lastMonth.setUTCMonth(lastMonth.getUTCMonth() + MAX_FLEXIBLE_MONTHS - 1);
+
+      for (const month of months) {
+        const date = parseMonth(month);
+        if (!date) {
+          errors.push(`flexibleDates.months entries must be YYYY-MM, got ${JSON.stringify(month)}`);
+        } else if (date < firstMonth || date > lastMonth) {
+          errors.push(`flexibleDates.months entry ${month} is outside the searchable range ${formatMonth(firstMonth)} to ${formatMonth(lastMonth)}`);
+        }
+      }
+    }
+  }
+
+  if (window !== undefined) {
+    const start = parseDate(window?.start);
+    const end = parseDate(window?.end);
+    if (!start || !end) {
+      errors.push("flexibleDates.window.start and flexibleDates.window.end must be valid YYYY-MM-DD dates");
+    } else if (end <= start) {
+      errors.push("flexibleDates.window.end must be after flexibleDates.window.start");
+    } else if (isNamedLength || isNights) {
+      const windowNights = Math.round((end.getTime() - start.getTime()) / DAY_MS);
+      if (windowNights < stayNights(stayLength)) {
+        const label = typeof stayLength === "number" ? `${stayLength}-night` : stayLength;
+        errors.push(`flexibleDates.window is ${windowNights} nights long, too short for a ${label} stay`);
+      }
+    }
+  }
+
+  if ((!months || months.length === 0) && window === undefined) {
+    errors.push("flexibleDates needs months or a window to search in");
+  }
+}
+
+// Returns a list of problems with the requested dates; empty when they can be used
+export function validateSearchDates({ checkin, checkout, flexibleDates }: SearchDates): string[] {
+  const errors: string[] = [];
+
+  if (flexibleDates !== undefined) {
+    if (checkin || checkout) {
+      errors.push("flexibleDates can't be combined with checkin/checkout; use one or the other");
+    }
+    if (typeof flexibleDates !== "object" || flexibleDates === null) {
+      errors.push("flexibleDates must be an object");
+    } else {
+      validateFlexibleDates(flexibleDates, errors);
+    }
+    return errors;
+  }
+
+  if (checkin !== undefined && !parseDate(checkin)) {
+    errors.push(`checkin must be a valid YYYY-MM-DD date, got ${JSON.stringify(checkin)}`);
+  }
+  if (checkout !== undefined && !parseDate(checkout)) {
+    errors.push(`checkout must be a valid YYYY-MM-DD date, got ${JSON.stringify(checkout)}`);
+  }
+  if (checkin && checkout && errors.length === 0 && (nightsBetween(checkin, checkout) ?? 0) <= 0) {
+    errors.push("checkout must be after checkin");
+  }
+
+  return errors;
+}
+
+// Translate flexible dates into Airbnb's flexible-trip query parameters
+export function applyFlexibleDates(searchUrl: URL, flexibleDates: FlexibleDates) {
+  const { stayLength } = flexibleDates;
+
+  searchUrl.searchParams.append("date_picker_type", "flexible_dates");
+
+  for (const month of resolveMonths(flexibleDates)) {
+    const monthIndex = parseInt(month.slice(5, 7), 10) - 1;
+    searchUrl.searchParams.append("flexible_trip_dates[]", MONTH_NAMES[monthIndex]);
+  }
+
+  // Airbnb only knows three trip lengths; a night count picks the closest one and
+  // narrows pricing to that many nights
+  const nights = stayNights(stayLength);
+  const tripLength = nights <= 3 ? "weekend_trip" : nights <= 14 ? "one_week" : "one_month";
+  searchUrl.searchParams.append("flexible_trip_lengths[]", tripLength);
+  if (typeof stayLength === "number") {
+    searchUrl.searchParams.append("price_filter_num_nights", stayLength.toString());
+  }
+}
+
+export function isWithinWindow(dates: ResolvedDates, window: FlexibleDates["window"]): boolean {
+  if (!window) return true;
+  return dates.checkin >= window.start && dates.checkout <= window.end;
+}
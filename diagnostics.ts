@@ -0,0 +1,98 @@
+// What a parser looked for in a page and what it found. When Airbnb changes
+// a page, this turns "page structure may have changed" into the list of
+// paths and sections that went missing and the fallbacks used instead.
+
+export interface DiagnosticsReport {
+  parser: string;
+  found: string[];
+  missing: string[]; // expected on every page; missing means the page changed
+  absent: string[]; // optional parts this page doesn't have
+  fallbacks: string[];
+  warnings: string[];
+}
+
+export class ParseDiagnostics {
+  private readonly found: string[] = [];
+  private readonly missing: string[] = [];
+  private readonly absent: string[] = [];
+  private readonly fallbacks: string[] = [];
+  private readonly notes: string[] = [];
+
+  constructor(readonly parser: string) {}
+
+  // Record whether an expected path or section is there, passing the value through
+  expect<T>(label: string, value: T): T {
+    (value === undefined || value === null ? this.missing : this.found).push(label);
+    return value;
+  }
+
+  // Like expect, for parts some pages legitimately lack
+  optional<T>(label: string, value: T): T {
+    (value === undefined || value === null ? this.absent : this.found).push(label);
+    return value;
+  }
+
+  fallback(label: string): void {
+    this.fallbacks.push(label);
+  }
+
+  warn(message: string): void {
+    this.notes.push(message);
+  }
+
+  // The page no longer matches what the parser expects, even if it still parsed
+  get drifted(): boolean {
+    return this.missing.length > 0 || this.fallbacks.length > 0;
+  }
+
+  warnings(): string[] {
+    return [
+      ...this.missing.map(label => `Expected ${label} is missing`),
+      ...this.fallbacks.map(label => `Read from fallback ${label}`),
+      ...this.notes,
+    ];
+  }
+
+  // Spread into a parsed model: adds `warnings` only when there are some
+  warningsField(): { warnings?: string[] } {
+    const warnings = this.warnings();
+    return warnings.length > 0 ? { warnings } : {};
+  }
+
+  report(): DiagnosticsReport {
+    return {
+      parser: this.parser,
+      found: [...this.found],
+      missing: [...this.missing],
+      absent: [...this.absent],
+      fallbacks: [...this.fallbacks],
+      warnings: this.warnings(),
+    };
+  }
+}
+
+// Walk a JSON value along a path such as ["data", "presentation", 0]
+export function getPath(root: unknown, path: (string | number)[]): any {
+  let value: any = root;
+  for (const key of path) {
+    if (value === null || typeof value !== "object") return undefined;
+    value = value[key];
+  }
+  return value;
+}
+
+// Breadth-first search for the shallowest value matching `predicate`, for
+// when an expected path has moved elsewhere in the payload
+export function findDeep(root: unknown, predicate: (value: any) => boolean, maxDepth: number = 12): any {
+  let level: unknown[] = [root];
+  for (let depth = 0; depth <= maxDepth && level.length > 0; depth++) {
+    const next: unknown[] = [];
+    for (const value of level) {
+      if (value === null || typeof value !== "object") continue;
+      if (predicate(value)) return value;
+      next.push(...Object.values(value));
+    }
+    level = next;
+  }
+  return undefined;
+}
@@ -0,0 +1,86 @@
+// Typed failures for requests to Airbnb, so tools can tell transient
+// conditions ("try again later") apart from breakage ("page changed")
+
+export type AirbnbErrorType =
+  | "rate_limited"
+  | "upstream_error"
+  | "timeout"
+  | "page_structure_changed"
+  | "fixture_missing"
+  | "quota_exceeded";
+
+export class AirbnbError extends Error {
+  constructor(readonly type: AirbnbErrorType, message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+export class RateLimitedError extends AirbnbError {
+  constructor(readonly status: number, readonly retryAfterMs?: number) {
+    super("rate_limited", retryAfterMs !== undefined
+      ? `Airbnb is rate limiting requests (HTTP ${status}); try again in ${Math.ceil(retryAfterMs / 1000)}s`
+      : `Airbnb is rate limiting requests (HTTP ${status}); try again later`);
+  }
+}
+
+export class UpstreamHttpError extends AirbnbError {
+  constructor(readonly status: number, statusText: string) {
+    super("upstream_error", `HTTP ${status}: ${statusText}`);
+  }
+}
+
+export class RequestTimeoutError extends AirbnbError {
+  constructor(readonly timeoutMs: number) {
+    super("timeout", `Request timeout after ${timeoutMs}ms`);
+  }
+}
+
+export class PageStructureError extends AirbnbError {
+  constructor(message: string) {
+    super("page_structure_changed", message);
+  }
+}
+
+export class FixtureMissingError extends AirbnbError {
+  constructor(url: string, dir: string) {
+    super("fixture_missing", `No recorded fixture for ${url} in ${dir}`);
+  }
+}
+
+// A client of the shared HTTP server would go over one of its quotas
+export class QuotaExceededError extends AirbnbError {
+  constructor(readonly client: string, readonly quota: string, readonly limit: number, readonly resetAt: Date) {
+    super("quota_exceeded", `Quota of ${limit} ${quota} exceeded for client ${client}; it resets at ${resetAt.toISOString()}`);
+  }
+
+  get retryAfterSeconds(): number {
+    return Math.max(1, Math.ceil((this.resetAt.getTime() - Date.now()) / 1000));
+  }
+}
+
+// Fields added to a tool's JSON error payload
+export function describeError(error: unknown): { error: string; errorType: string; retryAfterSeconds?: number; resetAt?: string } {
+  if (error instanceof QuotaExceededError) {
+    return {
+      error: error.message,
+      errorType: error.type,
+      retryAfterSeconds: error.retryAfterSeconds,
+      resetAt: error.resetAt.toISOString(),
+    };
+  }
+  if (error instanceof RateLimitedError) {
+    return {
+      error: error.message,
+      errorType: error.type,
+      retryAfterSeconds: error.retryAfterMs !== undefined ? Math.ceil(error.retryAfterMs / 1000) : undefined,
+    };
+  }
+  if (error instanceof AirbnbError) {
+    return { error: error.message, errorType: error.type };
+  }
+  return {
+    error: error instanceof Error ? error.message : String(error),
+    errorType: "internal_error",
+  };
+}
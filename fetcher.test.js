@@ -0,0 +1,83 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer } from 'http';
+
+// A local server stands in for Airbnb, answering each path from a list of
+// scripted responses. The config is read when dist/ is first imported, so the
+// modules are loaded only after the environment is set.
+process.env.AIRBNB_REQUESTS_PER_SECOND = '0';
+process.env.AIRBNB_MAX_RETRIES = '2';
+
+const scripts = new Map();
+const requests = new Map();
+const server = createServer((req, res) => {
+  requests.set(req.url, (requests.get(req.url) ?? 0) + 1);
+  const [status, headers = {}] = scripts.get(req.url).shift() ?? [200];
+  res.writeHead(status, headers);
+  res.end(`status ${status}`);
+});
+
+let baseUrl;
+let fetchWithUserAgent;
+let RateLimitedError;
+let UpstreamHttpError;
+
+before(async () => {
+  await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${server.address().port}`;
+  ({ fetchWithUserAgent } = await import('./dist/fetcher.js'));
+  ({ RateLimitedError, UpstreamHttpError } = await import('./dist/errors.js'));
+});
+
+after(() => new Promise(resolve => server.close(resolve)));
+
+function script(path, responses) {
+  scripts.set(path, responses);
+  return `${baseUrl}${path}`;
+}
+
+test('a 429 is retried after the Retry-After the server asks for', async () => {
+  const url = script('/retry-after', [[429, { 'Retry-After': '1' }], [200]]);
+  const started = Date.now();
+  const response = await fetchWithUserAgent(url);
+  const elapsed = Date.now() - started;
+
+  assert.equal(await response.text(), 'status 200');
+  assert.equal(requests.get('/retry-after'), 2);
+  assert.ok(elapsed >= 950, `retried after ${elapsed} ms`);
+});
+
+test('a 503 without Retry-After is retried after a backoff', async () => {
+  const url = script('/unavailable', [[503], [200]]);
+  const response = await fetchWithUserAgent(url);
+  assert.equal(response.status, 200);
+  assert.equal(requests.get('/unavailable'), 2);
+});
+
+test('running out of retries is a RateLimitedError', async () => {
+  const url = script('/limited', Array.from({ length: 5 }, () => [429, { 'Retry-After': '0' }]));
+  await assert.rejects(fetchWithUserAgent(url), error => {
+    assert.ok(error instanceof RateLimitedError);
+    assert.equal(error.status, 429);
+    return true;
+  });
+  // The first attempt and maxRetries more
+  assert.equal(requests.get('/limited'), 3);
+});
+
+test('a long Retry-After is reported instead of waited out', async () => {
+  const url = script('/later', [[429, { 'Retry-After': '120' }], [200]]);
+  await assert.rejects(fetchWithUserAgent(url), error => {
+    assert.ok(error instanceof RateLimitedError);
+    assert.equal(error.retryAfterMs, 120000);
+    assert.match(error.message, /try again in 120s/);
+    return true;
+  });
+  assert.equal(requests.get('/later'), 1);
+});
+
+test('other errors are not retried', async () => {
+  const url = script('/missing', [[404], [200]]);
+  await assert.rejects(fetchWithUserAgent(url), UpstreamHttpError);
+  assert.equal(requests.get('/missing'), 1);
+});
@@ -0,0 +1,159 @@
+import fetch, { Response } from "node-fetch";
+import { CONFIG } from "./config.js";
+import { FixtureStore } from "./fixtures.js";
+import { RequestScheduler } from "./scheduler.js";
+import { FixtureMissingError, RateLimitedError, RequestTimeoutError, UpstreamHttpError } from "./errors.js";
+import { sleep } from "./util.js";
+import { log } from "./log.js";
+import { upstreamResponses } from "./metrics.js";
+
+export const USER_AGENT = CONFIG.airbnb.userAgent;
+
+// live: talk to Airbnb; record: talk to Airbnb and save every response as a fixture;
+// replay: serve saved fixtures only and never touch the network
+export type FetchMode = "live" | "record" | "replay";
+
+export const FETCH_MODE: FetchMode = CONFIG.fetch.mode;
+export const FIXTURES_DIR = CONFIG.fetch.fixturesDir;
+
+const fixtureStore = FETCH_MODE === "live" ? undefined : new FixtureStore(FIXTURES_DIR);
+
+// Request pacing, retries and the timeout for one attempt
+export const REQUEST_CONFIG = {
+  requestsPerSecond: CONFIG.fetch.requestsPerSecond,
+  maxConcurrency: CONFIG.fetch.maxConcurrency,
+  maxRetries: CONFIG.fetch.maxRetries,
+  timeoutMs: CONFIG.fetch.timeoutSeconds * 1000,
+};
+
+// Statuses worth retrying: Airbnb asking us to slow down, or briefly unavailable
+const RETRYABLE_STATUSES = new Set([429, 503]);
+const BACKOFF_BASE_MS = 1000;
+// Longer waits are reported to the caller instead of blocking the tool call
+const MAX_RETRY_DELAY_MS = 30000;
+
+export const scheduler = new RequestScheduler(REQUEST_CONFIG);
+
+// Retry-After is either a number of seconds or an HTTP date
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(header);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// Exponential backoff with full jitter
+function backoffDelay(attempt: number): number {
+  return Math.random() * BACKOFF_BASE_MS * 2 ** attempt;
+}
+
+async function fetchLive(url: string, timeout: number, headers: Record<string, string>) {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeout);
+
+  try {
+    const response = await fetch(url, {
+      headers: {
+        "User-Agent": USER_AGENT,
+        "Accept-Language": "en-US,en;q=0.9",
+        "Accept": "text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8",
+        "Cache-Control": "no-cache",
+        ...headers,
+      },
+      signal: controller.signal
+    });
+
+    clearTimeout(timeoutId);
+    return response;
+  } catch (error) {
+    clearTimeout(timeoutId);
+
+    if (error instanceof Error && error.name === 'AbortError') {
+      throw new RequestTimeoutError(timeout);
+    }
+
+    throw error;
+  }
+}
+
+async function fetchAndRecord(url: string, timeout: number, headers: Record<string, string>) {
+  const response = await fetchLive(url, timeout, headers);
+  const body = await response.text();
+  const contentType = response.headers.get("content-type") || "text/html";
+
+  const path = fixtureStore!.write(url, { status: response.status, contentType, body });
+  log('info', 'Recorded fixture', { url, path, status: response.status });
+
+  return new Response(body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: { "Content-Type": contentType },
+  });
+}
+
+function replayFixture(url: string) {
+  const fixture = fixtureStore!.read(url);
+  if (!fixture) {
+    throw new FixtureMissingError(url, fixtureStore!.dir);
+  }
+
+  return new Response(fixture.body, {
+    status: fixture.status,
+    headers: { "Content-Type": fixture.contentType },
+  });
+}
+
+async function fetchOnce(url: string, timeout: number, headers: Record<string, string>): Promise<Response> {
+  try {
+    const response = await fetchByMode(url, timeout, headers);
+    upstreamResponses.inc({ status: String(response.status) });
+    return response;
+  } catch (error) {
+    if (!(error instanceof FixtureMissingError)) {
+      upstreamResponses.inc({ status: error instanceof RequestTimeoutError ? "timeout" : "network_error" });
+    }
+    throw error;
+  }
+}
+
+function fetchByMode(url: string, timeout: number, headers: Record<string, string>): Promise<Response> {
+  switch (FETCH_MODE) {
+    case "replay":
+      return Promise.resolve(replayFixture(url));
+    case "record":
+      return scheduler.schedule(() => fetchAndRecord(url, timeout, headers));
+    default:
+      return scheduler.schedule(() => fetchLive(url, timeout, headers));
+  }
+}
+
+// Extra headers override the defaults, e.g. an Accept for JSON API calls
+export async function fetchWithUserAgent(url: string, timeout: number = REQUEST_CONFIG.timeoutMs, headers: Record<string, string> = {}) {
+  for (let attempt = 0; ; attempt++) {
+    const response = await fetchOnce(url, timeout, headers);
+    if (response.ok) {
+      return response;
+    }
+
+    if (!RETRYABLE_STATUSES.has(response.status)) {
+      throw new UpstreamHttpError(response.status, response.statusText);
+    }
+
+    const retryAfterMs = parseRetryAfter(response.headers.get("retry-after"));
+    const delayMs = retryAfterMs ?? backoffDelay(attempt);
+    if (attempt >= REQUEST_CONFIG.maxRetries || delayMs > MAX_RETRY_DELAY_MS) {
+      throw new RateLimitedError(response.status, retryAfterMs);
+    }
+
+    log('warn', 'Airbnb asked us to back off, retrying', {
+      url,
+      status: response.status,
+      attempt: attempt + 1,
+      delayMs: Math.round(delayMs)
+    });
+    await sleep(delayMs);
+  }
+}
@@ -0,0 +1,179 @@
+// Search filters that map onto Airbnb's search query string
+
+export const ROOM_TYPES = {
+  entire_home: "Entire home/apt",
+  private_room: "Private room",
+  shared_room: "Shared room",
+  hotel_room: "Hotel room",
+} as const;
+
+export type RoomType = keyof typeof ROOM_TYPES;
+
+// Airbnb identifies amenities in search URLs by numeric id (amenities[]=<id>)
+export const AMENITY_IDS = {
+  wifi: 4,
+  kitchen: 8,
+  washer: 33,
+  dryer: 34,
+  air_conditioning: 5,
+  heating: 30,
+  dedicated_workspace: 47,
+  tv: 58,
+  hair_dryer: 45,
+  iron: 46,
+  pool: 7,
+  hot_tub: 25,
+  free_parking: 9,
+  ev_charger: 97,
+  crib: 286,
+  gym: 15,
+  bbq_grill: 99,
+  breakfast: 16,
+  indoor_fireplace: 27,
+  smoking_allowed: 11,
+  self_check_in: 51,
+  beachfront: 671,
+  waterfront: 670,
+  smoke_alarm: 35,
+  carbon_monoxide_alarm: 36,
+} as const;
+
+export type Amenity = keyof typeof AMENITY_IDS;
+
+export interface SearchFilters {
+  roomType?: RoomType;
+  minBedrooms?: number;
+  minBeds?: number;
+  minBathrooms?: number;
+  amenities?: Amenity[];
+  instantBook?: boolean;
+  superhost?: boolean;
+  minPrice?: number;
+  maxPrice?: number;
+}
+
+const MAX_ROOM_COUNT = 50;
+
+// JSON Schema fragments for the search tool's inputSchema
+export const SEARCH_FILTER_PROPERTIES = {
+  roomType: {
+    type: "string",
+    enum: Object.keys(ROOM_TYPES),
+    description: "Only return this type of place"
+  },
+  minBedrooms: {
+    type: "integer",
+    minimum: 0,
+    maximum: MAX_ROOM_COUNT,
+    description: "Minimum number of bedrooms"
+  },
+  minBeds: {
+    type: "integer",
+    minimum: 0,
+    maximum: MAX_ROOM_COUNT,
+    description: "Minimum number of beds"
+  },
+  minBathrooms: {
+    type: "integer",
+    minimum: 0,
+    maximum: MAX_ROOM_COUNT,
+    description: "Minimum number of bathrooms"
+  },
+  amenities: {
+    type: "array",
+    items: {
+      type: "string",
+      enum: Object.keys(AMENITY_IDS)
+    },
+    description: "Amenities every listing must have"
+  },
+  instantBook: {
+    type: "boolean",
+    description: "Only return listings that can be booked without waiting for host approval"
+  },
+  superhost: {
+    type: "boolean",
+    description: "Only return listings from Superhosts"
+  }
+};
+
+function checkCount(value: unknown, name: string, errors: string[]) {
+  if (value === undefined) return;
+  if (!Number.isInteger(value) || (value as number) < 0 || (value as number) > MAX_ROOM_COUNT) {
+    errors.push(`${name} must be an integer between 0 and ${MAX_ROOM_COUNT}, got ${JSON.stringify(value)}`);
+  }
+}
+
+function checkBoolean(value: unknown, name: string, errors: string[]) {
+  if (value !== undefined && typeof value !== "boolean") {
+    errors.push(`${name} must be true or false, got ${JSON.stringify(value)}`);
+  }
+}
+
+function checkPrice(value: unknown, name: string, errors: string[]) {
+  if (value === undefined) return;
+  if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+    errors.push(`${name} must be a non-negative number, got ${JSON.stringify(value)}`);
+  }
+}
+
+// Returns a list of problems with the given filters; empty when they can be applied
+export function validateSearchFilters(filters: SearchFilters): string[] {
+  const errors: string[] = [];
+  const { roomType, minBedrooms, minBeds, minBathrooms, amenities, instantBook, superhost, minPrice, maxPrice } = filters;
+
+  if (roomType !== undefined && !Object.prototype.hasOwnProperty.call(ROOM_TYPES, roomType)) {
+    errors.push(`roomType must be one of ${Object.keys(ROOM_TYPES).join(", ")}, got ${JSON.stringify(roomType)}`);
+  }
+
+  checkCount(minBedrooms, "minBedrooms", errors);
+  checkCount(minBeds, "minBeds", errors);
+  checkCount(minBathrooms, "minBathrooms", errors);
+  checkBoolean(instantBook, "instantBook", errors);
+  checkBoolean(superhost, "superhost", errors);
+  checkPrice(minPrice, "minPrice", errors);
+  checkPrice(maxPrice, "maxPrice", errors);
+
+  if (amenities !== undefined) {
+    if (!Array.isArray(amenities)) {
+      errors.push("amenities must be an array of amenity names");
+    } else {
+      const unknown = amenities.filter(amenity => !Object.prototype.hasOwnProperty.call(AMENITY_IDS, amenity));
+      if (unknown.length > 0) {
+        errors.push(`Unknown amenities: ${unknown.join(", ")}. Supported amenities: ${Object.keys(AMENITY_IDS).join(", ")}`);
+      }
+    }
+  }
+
+  // Combinations Airbnb can't satisfy
+  if (typeof minPrice === "number" && typeof maxPrice === "number" && minPrice > maxPrice) {
+    errors.push(`minPrice (${minPrice}) cannot be greater than maxPrice (${maxPrice})`);
+  }
+  if (roomType === "shared_room" && (minBedrooms || minBathrooms)) {
+    errors.push("minBedrooms and minBathrooms can't be used with roomType shared_room: shared rooms don't have private bedrooms or bathrooms");
+  }
+  if (roomType === "hotel_room" && minBedrooms && minBedrooms > 1) {
+    errors.push("roomType hotel_room only supports a single bedroom; remove minBedrooms or choose another roomType");
+  }
+
+  return errors;
+}
+
+export function applySearchFilters(searchUrl: URL, filters: SearchFilters) {
+  const { roomType, minBedrooms, minBeds, minBathrooms, amenities, instantBook, superhost, minPrice, maxPrice } = filters;
+
+  if (roomType) searchUrl.searchParams.append("room_types[]", ROOM_TYPES[roomType]);
+  if (minBedrooms) searchUrl.searchParams.append("min_bedrooms", minBedrooms.toString());
+  if (minBeds) searchUrl.searchParams.append("min_beds", minBeds.toString());
+  if (minBathrooms) searchUrl.searchParams.append("min_bathrooms", minBathrooms.toString());
+
+  for (const amenity of new Set(amenities ?? [])) {
+    searchUrl.searchParams.append("amenities[]", AMENITY_IDS[amenity].toString());
+  }
+
+  if (instantBook) searchUrl.searchParams.append("ib", "true");
+  if (superhost) searchUrl.searchParams.append("superhost", "true");
+
+  if (minPrice) searchUrl.searchParams.append("price_min", minPrice.toString());
+  if (maxPrice) searchUrl.searchParams.append("price_max", maxPrice.toString());
+}
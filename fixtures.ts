@@ -0,0 +1,85 @@
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, readdirSync, writeFileSync } from 'fs';
+import { join, resolve } from 'path';
+
+export interface Fixture {
+  url: string;
+  status: number;
+  contentType: string;
+  recordedAt: string;
+  body: string;
+}
+
+// Normalize a URL so that equivalent requests map to the same fixture:
+// lower-case host, no fragment, query parameters sorted by name.
+export function normalizeUrl(url: string): string {
+  const parsed = new URL(url);
+  parsed.hash = "";
+  parsed.hostname = parsed.hostname.toLowerCase();
+
+  const params = [...parsed.searchParams.entries()]
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  parsed.search = "";
+  for (const [key, value] of params) {
+    parsed.searchParams.append(key, value);
+  }
+
+  return parsed.toString();
+}
+
+// Fixture file name: a readable slug of the path plus a hash of the full normalized URL
+export function fixtureKey(url: string): string {
+  const normalized = normalizeUrl(url);
+  const { pathname } = new URL(normalized);
+  const slug = pathname
+    .replace(/[^a-zA-Z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60) || "root";
+  const hash = createHash("sha256").update(normalized).digest("hex").slice(0, 16);
+  return `${slug}-${hash}`;
+}
+
+export class FixtureStore {
+  readonly dir: string;
+
+  constructor(dir: string) {
+    this.dir = resolve(dir);
+  }
+
+  private pathFor(url: string): string {
+    return join(this.dir, `${fixtureKey(url)}.json`);
+  }
+
+  has(url: string): boolean {
+    return existsSync(this.pathFor(url));
+  }
+
+  read(url: string): Fixture | undefined {
+    const path = this.pathFor(url);
+    if (!existsSync(path)) {
+      return undefined;
+    }
+    return JSON.parse(readFileSync(path, "utf8")) as Fixture;
+  }
+
+  // Every stored fixture with its file name, in name order
+  list(): { file: string; fixture: Fixture }[] {
+    if (!existsSync(this.dir)) return [];
+    return readdirSync(this.dir)
+      .filter(file => file.endsWith(".json"))
+      .sort()
+      .map(file => ({ file, fixture: JSON.parse(readFileSync(join(this.dir, file), "utf8")) as Fixture }));
+  }
+
+  write(url: string, fixture: Omit<Fixture, "url" | "recordedAt">): string {
+    mkdirSync(this.dir, { recursive: true });
+    const path = this.pathFor(url);
+    const record: Fixture = {
+      url: normalizeUrl(url),
+      recordedAt: new Date().toISOString(),
+      ...fixture,
+    };
+    writeFileSync(path, JSON.stringify(record, null, 2) + "\n");
+    return path;
+  }
+}
@@ -0,0 +1,399 @@
+import {
+  ListingAvailability,
+  ListingCapacity,
+  ListingDetails,
+  ListingReviews,
+  Money,
+  PriceQuote,
+  SearchResult,
+} from "./models.js";
+import { ReviewPage } from "./reviews.js";
+import { StayWindow } from "./availability.js";
+import { ComparedListing, KEY_AMENITIES, ListingComparison } from "./compare.js";
+import { CollectedSearchResults } from "./pagination.js";
+import { CacheStatus } from "./cache.js";
+import { PriceChange, PriceObservation, WatchCheck, WatchlistSummary } from "./watchlist.js";
+
+// Compact plain-text renderings for clients that only read text content.
+// The full data is always returned as structuredContent alongside these.
+
+const DESCRIPTION_PREVIEW_LENGTH = 500;
+const CHECKIN_DATES_PREVIEW = 5;
+
+export function formatMoney(money: Money): string {
+  const amount = Number.isInteger(money.amount) ? money.amount.toString() : money.amount.toFixed(2);
+  return `${amount} ${money.currency}`;
+}
+
+function formatRating(rating?: number, reviewCount?: number): string | undefined {
+  if (rating === undefined) return undefined;
+  return reviewCount !== undefined ? `${rating}★ (${reviewCount} reviews)` : `${rating}★`;
+}
+
+function formatCacheStatus(cache: CacheStatus): string | undefined {
+  if (!cache.hit) return undefined;
+  const age = cache.ageSeconds < 60 ? `${cache.ageSeconds}s` : `${Math.round(cache.ageSeconds / 60)}m`;
+  return `(served from cache, ${age} old)`;
+}
+
+// Same wording as search warnings, for pages that were only partly readable
+function formatWarnings(warnings: string[] | undefined): string[] {
+  return (warnings ?? []).map(warning => `Warning: ${warning}`);
+}
+
+function formatSearchResult(result: SearchResult, index: number): string {
+  const prices: string[] = [];
+  if (result.price) {
+    prices.push(`${formatMoney(result.price)}${result.price.qualifier ? ` / ${result.price.qualifier}` : ""}`);
+  }
+  if (result.totalPrice) {
+    prices.push(`${formatMoney(result.totalPrice)} total`);
+  }
+
+  const dates = result.resolvedDates
+    ? `${result.resolvedDates.checkin} to ${result.resolvedDates.checkout} (${result.resolvedDates.nights} nights)`
+    : undefined;
+
+  const parts = [
+    result.name ?? result.title ?? `Listing ${result.id}`,
+    result.distanceKm !== undefined ? `${result.distanceKm} km away` : undefined,
+    dates,
+    prices.join(", "),
+    formatRating(result.rating, result.reviewCount),
+    result.badges.join(", "),
+  ].filter(Boolean);
+
+  return `${index + 1}. ${parts.join(" · ")}\n   ${result.url}`;
+}
+
+export function formatSearchResults(
+  searchUrl: string,
+  results: CollectedSearchResults,
+  refinement?: { removedByFilter: Record<string, number>; sortBy?: string }
+): string {
+  const pages = results.pagesFetched > 1 ? ` across ${results.pagesFetched} pages` : "";
+  const sorted = refinement?.sortBy ? `, sorted by ${refinement.sortBy.replace(/_/g, " ")}` : "";
+  const lines = [
+    `Found ${results.searchResults.length} listings${pages}${sorted}: ${searchUrl}`,
+    ...results.searchResults.map(formatSearchResult),
+    ...results.warnings.map(warning => `Warning: ${warning}`),
+  ];
+
+  const removed = Object.entries(refinement?.removedByFilter ?? {});
+  if (removed.length > 0) {
+    lines.push(`Removed by filters: ${removed.map(([filter, count]) => `${filter} ${count}`).join(", ")}`);
+  }
+
+  const cacheLine = formatCacheStatus(results.cache);
+  if (cacheLine) lines.push(cacheLine);
+
+  if (results.paginationInfo.nextPageCursor) {
+    lines.push(`Next page cursor: ${results.paginationInfo.nextPageCursor}`);
+  }
+
+  return lines.join("\n");
+}
+
+function formatCapacity({ guests, bedrooms, beds, bathrooms }: ListingCapacity): string | undefined {
+  const parts = [
+    guests !== undefined ? `${guests} guests` : undefined,
+    bedrooms === 0 ? "studio" : bedrooms !== undefined ? `${bedrooms} bedrooms` : undefined,
+    beds !== undefined ? `${beds} beds` : undefined,
+    bathrooms !== undefined ? `${bathrooms} baths` : undefined,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(" · ") : undefined;
+}
+
+export function formatListingDetails(details: ListingDetails, cache: CacheStatus): string {
+  const heading = [details.title ?? `Listing ${details.id}`, formatRating(details.rating, details.reviewCount)]
+    .filter(Boolean)
+    .join(" · ");
+  const lines = [heading, details.url];
+
+  const cacheLine = formatCacheStatus(cache);
+  if (cacheLine) lines.push(cacheLine);
+  lines.push(...formatWarnings(details.warnings));
+
+  if (details.location) {
+    const { title, subtitle, coordinates } = details.location;
+    const place = [title, subtitle].filter(Boolean).join(", ");
+    const point = coordinates ? ` (${coordinates.latitude}, ${coordinates.longitude})` : "";
+    lines.push(`Location: ${place}${point}`);
+  }
+  const capacity = formatCapacity(details.capacity);
+  if (capacity) {
+    lines.push(capacity);
+  }
+  if (details.highlights.length > 0) {
+    lines.push(`Highlights: ${details.highlights.join("; ")}`);
+  }
+  for (const group of details.amenities) {
+    lines.push(`${group.title || "Amenities"}: ${group.amenities.join(", ")}`);
+  }
+  for (const section of details.houseRules) {
+    lines.push(`${section.title || "House rules"}: ${section.items.join(", ")}`);
+  }
+  if (details.cancellationPolicy) {
+    lines.push(`Cancellation: ${details.cancellationPolicy}`);
+  }
+  if (details.photos.length > 0) {
+    const rooms = [...new Set(details.photos.map(photo => photo.room).filter(Boolean))];
+    lines.push(`Photos: ${details.photos.length}${rooms.length > 0 ? ` (${rooms.join(", ")})` : ""}`);
+  }
+  if (details.description) {
+    const preview = details.description.length > DESCRIPTION_PREVIEW_LENGTH
+      ? `${details.description.slice(0, DESCRIPTION_PREVIEW_LENGTH)}…`
+      : details.description;
+    lines.push("", preview);
+  }
+
+  return lines.join("\n");
+}
+
+export function formatListingReviews(listing: ListingReviews, page: ReviewPage, cache: CacheStatus): string {
+  const lines = [
+    `Reviews for listing ${listing.id}${listing.overallRating !== undefined ? ` · ${formatRating(listing.overallRating, listing.reviewCount)}` : ""}`,
+    listing.url,
+  ];
+
+  const cacheLine = formatCacheStatus(cache);
+  if (cacheLine) lines.push(cacheLine);
+  lines.push(...formatWarnings(listing.warnings));
+
+  if (listing.categoryRatings.length > 0) {
+    lines.push(listing.categoryRatings.map(category => `${category.label} ${category.rating}`).join(" · "));
+  }
+
+  const { offset, reviewsOnPage, reviewCount, nextOffset, truncated } = page.pagination;
+  lines.push("", `Showing ${page.reviews.length} of the ${reviewsOnPage} reviews on the reviews page (from ${offset})`);
+  if (truncated) {
+    lines.push(`Truncated: the listing has ${reviewCount} reviews, but only the ${reviewsOnPage} on the reviews page can be returned`);
+  }
+  for (const review of page.reviews) {
+    const meta = [review.reviewerName, review.localizedDate ?? review.date, review.rating !== undefined ? `${review.rating}★` : undefined, review.language]
+      .filter(Boolean)
+      .join(" · ");
+    lines.push(`- ${meta}: ${review.text.replace(/\s+/g, " ")}`);
+    if (review.hostResponse) {
+      lines.push(`  Host response: ${review.hostResponse.replace(/\s+/g, " ")}`);
+    }
+  }
+  if (nextOffset !== undefined) {
+    lines.push(`Next offset: ${nextOffset}`);
+  }
+
+  return lines.join("\n");
+}
+
+// Days of the month as compact ranges, e.g. "1-5, 9, 20-31"
+function formatDayRanges(days: number[]): string {
+  const ranges: string[] = [];
+  let start = days[0];
+  for (let i = 1; i <= days.length; i++) {
+    if (days[i] !== days[i - 1] + 1) {
+      const end = days[i - 1];
+      ranges.push(start === end ? `${start}` : `${start}-${end}`);
+      start = days[i];
+    }
+  }
+  return ranges.join(", ");
+}
+
+export function formatListingAvailability(
+  availability: ListingAvailability,
+  stayLength: number | undefined,
+  stayWindows: StayWindow[] | undefined,
+  cache: CacheStatus
+): string {
+  const { nights } = availability;
+  const open = nights.filter(night => night.available);
+  const lines = [
+    nights.length > 0
+      ? `Availability for listing ${availability.id}: ${open.length} of ${nights.length} nights open, ${nights[0].date} to ${nights[nights.length - 1].date}`
+      : `Availability for listing ${availability.id}: no calendar data`,
+    availability.url,
+  ];
+
+  const cacheLine = formatCacheStatus(cache);
+  if (cacheLine) lines.push(cacheLine);
+  lines.push(...formatWarnings(availability.warnings));
+
+  const months = [...new Set(nights.map(night => night.date.slice(0, 7)))];
+  for (const month of months) {
+    const monthNights = nights.filter(night => night.date.startsWith(month));
+    const openDays = monthNights.filter(night => night.available).map(night => parseInt(night.date.slice(8), 10));
+    lines.push(`${month}: ${openDays.length}/${monthNights.length} open${openDays.length > 0 ? ` (${formatDayRanges(openDays)})` : ""}`);
+  }
+
+  if (stayLength !== undefined && stayWindows) {
+    lines.push("");
+    if (stayWindows.length === 0) {
+      lines.push(`No open window fits a ${stayLength}-night stay`);
+    }
+    for (const window of stayWindows) {
+      const preview = window.checkinDates.slice(0, CHECKIN_DATES_PREVIEW).join(", ");
+      const more = window.checkinDates.length > CHECKIN_DATES_PREVIEW ? ` and ${window.checkinDates.length - CHECKIN_DATES_PREVIEW} more` : "";
+      lines.push(`- ${window.start} to ${window.end} (${window.availableNights} open nights): ${stayLength}-night stays can check in ${preview}${more}`);
+    }
+  }
+
+  return lines.join("\n");
+}
+
+export function formatPriceQuote(quote: PriceQuote, cache: CacheStatus): string {
+  const lines = [
+    `Price quote for listing ${quote.id}: ${quote.checkin} to ${quote.checkout} (${quote.nights} nights)`,
+    quote.url,
+  ];
+
+  const cacheLine = formatCacheStatus(cache);
+  if (cacheLine) lines.push(cacheLine);
+  lines.push(...formatWarnings(quote.warnings));
+
+  if (!quote.available || !quote.currency) {
+    lines.push("", "No price available for these dates and guests");
+    return lines.join("\n");
+  }
+
+  const money = (amount: number) => formatMoney({ amount, currency: quote.currency! });
+  lines.push("");
+  if (quote.accommodation !== undefined) {
+    const rate = quote.nightlyRate !== undefined ? `${money(quote.nightlyRate)} × ${quote.nights} nights = ` : "";
+    lines.push(`Accommodation: ${rate}${money(quote.accommodation)}`);
+  }
+  if (quote.cleaningFee !== undefined) lines.push(`Cleaning fee: ${money(quote.cleaningFee)}`);
+  if (quote.serviceFee !== undefined) lines.push(`Service fee: ${money(quote.serviceFee)}`);
+  for (const fee of quote.otherFees) lines.push(`${fee.description}: ${money(fee.amount)}`);
+  for (const discount of quote.discounts) lines.push(`${discount.description}: -${money(discount.amount)}`);
+  if (quote.taxes !== undefined) lines.push(`Taxes: ${money(quote.taxes)}`);
+  if (quote.total !== undefined) {
+    lines.push(`Total${quote.totalIncludesTaxes === false ? " before taxes" : ""}: ${money(quote.total)}`);
+  }
+
+  return lines.join("\n");
+}
+
+const MISSING = "missing";
+
+function tableCell(value: unknown): string {
+  if (value === null || value === undefined) return MISSING;
+  return String(value).replace(/\|/g, "/").replace(/\s+/g, " ");
+}
+
+// A markdown table with one column per listing
+export function formatListingComparison(comparison: ListingComparison, cache: CacheStatus): string {
+  const { listings, best } = comparison;
+  const ok = (row: ComparedListing, value: unknown) => (row.ok ? tableCell(value) : "—");
+  const price = (row: ComparedListing, amount: number | null) =>
+    amount !== null && row.currency ? formatMoney({ amount, currency: row.currency }) : amount;
+
+  const rows: [string, (row: ComparedListing) => string][] = [
+    ["Name", row => (row.ok ? tableCell(row.name) : `failed: ${tableCell(row.error)}`)],
+    ["Total price", row => ok(row, price(row, row.totalPrice))],
+    ["Nightly rate", row => ok(row, price(row, row.nightlyRate))],
+    ["Rating", row => ok(row, row.rating !== null ? formatRating(row.rating, row.reviewCount ?? undefined) : null)],
+    ["Guests", row => ok(row, row.guests)],
+    ["Bedrooms", row => ok(row, row.bedrooms)],
+    ["Beds", row => ok(row, row.beds)],
+    ["Baths", row => ok(row, row.bathrooms)],
+    ...KEY_AMENITIES.map(([key]) => [
+      key.replace(/_/g, " "),
+      (row: ComparedListing) => ok(row, row.keyAmenities[key] === null ? null : row.keyAmenities[key] ? "yes" : "no"),
+    ] as [string, (row: ComparedListing) => string]),
+    ["House rules", row => ok(row, row.houseRules?.join("; "))],
+    ["Cancellation", row => ok(row, row.cancellationPolicy)],
+    ["Location", row => ok(row, row.location)],
+  ];
+
+  const lines = [
+    `Compared ${comparison.succeeded} of ${listings.length} listings${comparison.failed > 0 ? ` (${comparison.failed} failed)` : ""}`,
+  ];
+  const cacheLine = formatCacheStatus(cache);
+  if (cacheLine) lines.push(cacheLine);
+
+  lines.push(
+    "",
+    `| | ${listings.map(row => row.id).join(" | ")} |`,
+    `|---|${listings.map(() => "---").join("|")}|`,
+    ...rows.map(([label, cell]) => `| ${label} | ${listings.map(cell).join(" | ")} |`),
+  );
+
+  const standouts = [
+    best.lowestTotalPrice && `lowest total: ${best.lowestTotalPrice}`,
+    best.lowestNightlyRate && `lowest nightly rate: ${best.lowestNightlyRate}`,
+    best.highestRating && `highest rated: ${best.highestRating}`,
+    best.mostBedrooms && `most bedrooms: ${best.mostBedrooms}`,
+  ].filter(Boolean);
+  if (standouts.length > 0) {
+    lines.push("", `Best: ${standouts.join(" · ")}`);
+  }
+  lines.push("", ...listings.map(row => `${row.id}: ${row.url}`));
+
+  return lines.join("\n");
+}
+
+function formatObservation(observation: PriceObservation): string {
+  const amount = observation.total ?? observation.price;
+  const price = amount !== undefined
+    ? `${observation.currency ? formatMoney({ amount, currency: observation.currency }) : amount}${observation.total !== undefined ? " total" : ""}`
+    : "no price";
+  return observation.available === false ? `unavailable (${observation.checkedAt})` : `${price} (${observation.checkedAt})`;
+}
+
+function formatPriceChange(change: PriceChange): string {
+  const format = (amount: number) => change.current.currency ? formatMoney({ amount, currency: change.current.currency }) : String(amount);
+  const direction = change.change < 0 ? "dropped" : "rose";
+  return `${change.field === "total" ? "total" : "price"} ${direction} ${format(change.previous[change.field]!)} → ${format(change.current[change.field]!)} (${change.percent > 0 ? "+" : ""}${change.percent}%)`;
+}
+
+export function formatWatchlist(summary: WatchlistSummary): string {
+  if (summary.searches.length === 0 && summary.stays.length === 0) {
+    return `The watch list is empty (${summary.file})`;
+  }
+  const checked = (lastCheckedAt?: string) => (lastCheckedAt ? `last checked ${lastCheckedAt}` : "not checked yet");
+  return [
+    `Watch list (${summary.file}):`,
+    ...summary.searches.map(search =>
+      `- search "${search.name}": ${search.listingsPresent} listings, ${checked(search.lastCheckedAt)}`),
+    ...summary.stays.map(stay =>
+      `- stay "${stay.name}": listing ${stay.params.id}, ${stay.params.checkin} to ${stay.params.checkout}, ` +
+      (stay.latest ? `latest ${formatObservation(stay.latest)}` : checked(stay.lastCheckedAt))),
+  ].join("\n");
+}
+
+export function formatWatchChecks(checks: WatchCheck[]): string {
+  if (checks.length === 0) {
+    return "Nothing to check: the watch list is empty";
+  }
+  const lines: string[] = [];
+  for (const check of checks) {
+    if ("error" in check) {
+      lines.push(`${check.type === "search" ? "Search" : "Stay"} "${check.name}": check failed: ${check.error}`);
+      continue;
+    }
+    const baseline = check.previousCheckAt ? "" : " (first check, baseline recorded)";
+
+    if (check.type === "stay") {
+      lines.push(`Stay "${check.name}": listing ${check.id}, ${check.checkin} to ${check.checkout}${baseline}`);
+      if (check.availabilityChanged) lines.push(`  now ${check.available ? "available" : "unavailable"}`);
+      if (check.priceChange) lines.push(`  ${formatPriceChange(check.priceChange)}`);
+      lines.push(`  history: ${check.prices.map(formatObservation).join(", ")}`);
+      continue;
+    }
+
+    lines.push(`Search "${check.name}": ${check.resultCount} listings${baseline}`);
+    for (const listing of check.newListings) {
+      lines.push(`  new: ${listing.name ?? listing.id} ${listing.url}`);
+    }
+    for (const listing of check.removedListings) {
+      lines.push(`  removed: ${listing.name ?? listing.id} ${listing.url}`);
+    }
+    for (const change of check.priceChanges) {
+      lines.push(`  ${change.name ?? change.id}: ${formatPriceChange(change)}`);
+    }
+    if (check.previousCheckAt && check.newListings.length + check.removedListings.length + check.priceChanges.length === 0) {
+      lines.push(`  no changes since ${check.previousCheckAt}`);
+    }
+  }
+  return lines.join("\n");
+}
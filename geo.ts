@@ -0,0 +1,135 @@
+import { Coordinates } from "./models.js";
+
+// Map-based searches: an explicit viewport, or a center point and radius that
+// is searched as its enclosing box and then trimmed to the circle
+
+export interface BoundingBox {
+  neLat: number;
+  neLng: number;
+  swLat: number;
+  swLng: number;
+}
+
+export interface RadiusArea {
+  latitude: number;
+  longitude: number;
+  radiusKm: number;
+}
+
+export interface GeoSearch {
+  location?: string;
+  placeId?: string;
+  boundingBox?: BoundingBox;
+  radius?: RadiusArea;
+}
+
+export const MAX_RADIUS_KM = 50;
+const EARTH_RADIUS_KM = 6371;
+const KM_PER_DEGREE_LAT = 111.32;
+
+export const GEO_SEARCH_PROPERTIES = {
+  boundingBox: {
+    type: "object",
+    description: "Search a map viewport instead of a named location",
+    properties: {
+      neLat: { type: "number", description: "Latitude of the north-east corner" },
+      neLng: { type: "number", description: "Longitude of the north-east corner" },
+      swLat: { type: "number", description: "Latitude of the south-west corner" },
+      swLng: { type: "number", description: "Longitude of the south-west corner" }
+    },
+    required: ["neLat", "neLng", "swLat", "swLng"]
+  },
+  radius: {
+    type: "object",
+    description: "Search around a point, e.g. within 2 km of a venue. Results carry distanceKm and are sorted nearest first",
+    properties: {
+      latitude: { type: "number" },
+      longitude: { type: "number" },
+      radiusKm: { type: "number", exclusiveMinimum: 0, maximum: MAX_RADIUS_KM }
+    },
+    required: ["latitude", "longitude", "radiusKm"]
+  }
+};
+
+function isLatitude(value: unknown): boolean {
+  return typeof value === "number" && Number.isFinite(value) && Math.abs(value) <= 90;
+}
+
+function isLongitude(value: unknown): boolean {
+  return typeof value === "number" && Number.isFinite(value) && Math.abs(value) <= 180;
+}
+
+export function validateGeoSearch({ location, placeId, boundingBox, radius }: GeoSearch): string[] {
+  const errors: string[] = [];
+
+  if (boundingBox !== undefined && radius !== undefined) {
+    errors.push("boundingBox and radius can't be combined; use one or the other");
+  }
+  if (!location && !placeId && boundingBox === undefined && radius === undefined) {
+    errors.push("location, placeId, boundingBox or radius is required");
+  }
+
+  if (boundingBox !== undefined) {
+    const { neLat, neLng, swLat, swLng } = boundingBox ?? {};
+    if (!isLatitude(neLat) || !isLatitude(swLat) || !isLongitude(neLng) || !isLongitude(swLng)) {
+      errors.push("boundingBox needs neLat/swLat between -90 and 90 and neLng/swLng between -180 and 180");
+    } else if (neLat <= swLat) {
+      errors.push("boundingBox.neLat must be north of boundingBox.swLat");
+    } else if (neLng <= swLng) {
+      // Viewports crossing the antimeridian would need two searches
+      errors.push("boundingBox.neLng must be east of boundingBox.swLng");
+    }
+  }
+
+  if (radius !== undefined) {
+    const { latitude, longitude, radiusKm } = radius ?? {};
+    if (!isLatitude(latitude) || !isLongitude(longitude)) {
+      errors.push("radius.latitude must be between -90 and 90 and radius.longitude between -180 and 180");
+    }
+    if (typeof radiusKm !== "number" || !(radiusKm > 0) || radiusKm > MAX_RADIUS_KM) {
+      errors.push(`radius.radiusKm must be greater than 0 and at most ${MAX_RADIUS_KM}, got ${JSON.stringify(radiusKm)}`);
+    }
+  }
+
+  return errors;
+}
+
+// Great-circle distance (haversine), rounded to 10 m
+export function distanceKm(from: Coordinates, to: Coordinates): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLng = toRadians(to.longitude - from.longitude);
+  const a = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLng / 2) ** 2;
+  const distance = 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+  return Math.round(distance * 100) / 100;
+}
+
+// The smallest viewport that contains the circle
+export function boundsForRadius({ latitude, longitude, radiusKm }: RadiusArea): BoundingBox {
+  const dLat = radiusKm / KM_PER_DEGREE_LAT;
+  const dLng = radiusKm / (KM_PER_DEGREE_LAT * Math.max(Math.cos((latitude * Math.PI) / 180), 0.01));
+  return {
+    neLat: Math.min(latitude + dLat, 90),
+    neLng: Math.min(longitude + dLng, 180),
+    swLat: Math.max(latitude - dLat, -90),
+    swLng: Math.max(longitude - dLng, -180),
+  };
+}
+
+// Web-map zoom level at which the viewport roughly fills the map
+function zoomForBounds({ neLng, swLng }: BoundingBox): number {
+  const zoom = Math.round(Math.log2(360 / (neLng - swLng)));
+  return Math.min(Math.max(zoom, 1), 20);
+}
+
+// Airbnb's "search as I move the map" parameters
+export function applyMapBounds(searchUrl: URL, bounds: BoundingBox) {
+  searchUrl.searchParams.append("ne_lat", bounds.neLat.toFixed(6));
+  searchUrl.searchParams.append("ne_lng", bounds.neLng.toFixed(6));
+  searchUrl.searchParams.append("sw_lat", bounds.swLat.toFixed(6));
+  searchUrl.searchParams.append("sw_lng", bounds.swLng.toFixed(6));
+  searchUrl.searchParams.append("zoom", zoomForBounds(bounds).toString());
+  searchUrl.searchParams.append("search_by_map", "true");
+  searchUrl.searchParams.append("search_type", "user_map_move");
+}
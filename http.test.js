@@ -0,0 +1,198 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, request } from 'http';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { CallToolRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { createHttpHandler } from './dist/http.js';
+import { MetricsRegistry } from './dist/metrics.js';
+import { UsageTracker } from './dist/quota.js';
+
+const TOKEN = 'token-a';
+const OTHER_TOKEN = 'token-b';
+
+const INITIALIZE = {
+  jsonrpc: '2.0',
+  id: 0,
+  method: 'initialize',
+  params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'http-test', version: '1.0.0' } },
+};
+
+const toolCall = id => ({ jsonrpc: '2.0', id, method: 'tools/call', params: { name: 'echo', arguments: {} } });
+
+// An MCP server with one tool behind the HTTP handler, on an ephemeral port
+async function startServer({ security = {}, sessions = {}, toolCallsPerMinute = 0 } = {}) {
+  const usage = new UsageTracker({ toolCalls: { minute: toolCallsPerMinute, day: 0 }, fetches: { minute: 0, day: 0 } });
+  const { handle, closeSessions } = createHttpHandler({
+    connect: async transport => {
+      const server = new Server({ name: 'http-test', version: '1.0.0' }, { capabilities: { tools: {} } });
+      server.setRequestHandler(CallToolRequestSchema, async () => ({ content: [{ type: 'text', text: 'ok' }] }));
+      await server.connect(transport);
+    },
+    health: () => ({}),
+    security: { tokens: [TOKEN, OTHER_TOKEN], adminTokens: [], allowedOrigins: [], allowedHosts: [], ...security },
+    sessions: { idleTimeoutMs: 60000, maxSessions: 10, ...sessions },
+    usage,
+    metrics: new MetricsRegistry(),
+  });
+  const server = createServer(handle);
+  await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+
+  const send = (method, path, { token = TOKEN, sessionId, headers = {}, body } = {}) => new Promise((resolve, reject) => {
+    const req = request({
+      host: '127.0.0.1',
+      port: server.address().port,
+      method,
+      path,
+      agent: false,
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': 'application/json, text/event-stream',
+        ...(token && { 'Authorization': `Bearer ${token}` }),
+        ...(sessionId && { 'Mcp-Session-Id': sessionId }),
+        ...headers,
+      },
+    }, res => {
+      let text = '';
+      res.setEncoding('utf8');
+      res.on('data', chunk => { text += chunk; });
+      res.on('end', () => resolve({ status: res.statusCode, headers: res.headers, text }));
+    });
+    req.on('error', reject);
+    req.end(body === undefined ? undefined : JSON.stringify(body));
+  });
+
+  const stop = async () => {
+    await closeSessions();
+    await new Promise(resolve => server.close(resolve));
+  };
+  return { send, stop, usage };
+}
+
+// Open a session and return its id
+async function initialize(send, options = {}) {
+  const response = await send('POST', '/mcp', { ...options, body: INITIALIZE });
+  assert.equal(response.status, 200, response.text);
+  return response.headers['mcp-session-id'];
+}
+
+test('requests without a valid token are refused with 401', async () => {
+  const { send, stop } = await startServer();
+  try {
+    const missing = await send('POST', '/mcp', { token: null, body: INITIALIZE });
+    assert.equal(missing.status, 401);
+    assert.equal(missing.headers['www-authenticate'], 'Bearer');
+    assert.match(JSON.parse(missing.text).error.message, /missing bearer token/);
+
+    const wrong = await send('POST', '/mcp', { token: 'token-c', body: INITIALIZE });
+    assert.equal(wrong.status, 401);
+    assert.match(JSON.parse(wrong.text).error.message, /invalid token/);
+
+    const apiKey = await send('POST', '/mcp', { token: null, headers: { 'X-API-Key': TOKEN }, body: INITIALIZE });
+    assert.equal(apiKey.status, 200);
+
+    // Health checks stay open
+    assert.equal((await send('GET', '/health', { token: null })).status, 200);
+  } finally {
+    await stop();
+  }
+});
+
+test('unknown hosts and origins are refused with 403', async () => {
+  const { send, stop } = await startServer({ security: { allowedHosts: ['127.0.0.1'] } });
+  try {
+    const host = await send('POST', '/mcp', { headers: { Host: 'rebound.example' }, body: INITIALIZE });
+    assert.equal(host.status, 403);
+    assert.match(JSON.parse(host.text).error.message, /Host not allowed: rebound\.example/);
+
+    const origin = await send('POST', '/mcp', { headers: { Origin: 'https://evil.example' }, body: INITIALIZE });
+    assert.equal(origin.status, 403);
+    assert.match(JSON.parse(origin.text).error.message, /Origin not allowed/);
+
+    // Without allowed origins configured, pages served from localhost may connect
+    const local = await send('POST', '/mcp', { headers: { Origin: 'http://localhost:5173' }, body: INITIALIZE });
+    assert.equal(local.status, 200);
+    assert.equal(local.headers['access-control-allow-origin'], 'http://localhost:5173');
+  } finally {
+    await stop();
+  }
+});
+
+test('a session only answers the token that opened it', async () => {
+  const { send, stop } = await startServer();
+  try {
+    const sessionId = await initialize(send);
+
+    const stolen = await send('POST', '/mcp', { token: OTHER_TOKEN, sessionId, body: toolCall(1) });
+    assert.equal(stolen.status, 404);
+    assert.deepEqual(JSON.parse(stolen.text).error, { code: -32001, message: 'Session not found' });
+
+    const own = await send('POST', '/mcp', { sessionId, body: toolCall(2) });
+    assert.equal(own.status, 200);
+    assert.match(own.text, /"text":"ok"/);
+  } finally {
+    await stop();
+  }
+});
+
+test('a batch over the tool call quota gets a JSON-RPC 429 and is not charged', async () => {
+  const { send, stop, usage } = await startServer({ toolCallsPerMinute: 2 });
+  try {
+    const sessionId = await initialize(send);
+
+    const batch = await send('POST', '/mcp', { sessionId, body: [toolCall(1), toolCall(2), toolCall(3)] });
+    assert.equal(batch.status, 429);
+    assert.ok(Number(batch.headers['retry-after']) > 0);
+    const { error, id } = JSON.parse(batch.text);
+    assert.equal(id, null);
+    assert.equal(error.code, -32000);
+    assert.equal(error.data.quota, 'tool calls per minute');
+    assert.equal(error.data.limit, 2);
+    assert.equal(error.data.requested, 3);
+
+    // The rejected batch used none of the quota
+    assert.equal((await send('POST', '/mcp', { sessionId, body: toolCall(4) })).status, 200);
+    const [client] = usage.report().clients;
+    assert.equal(client.toolCalls.minute.used, 1);
+    assert.equal(client.toolCalls.rejected, 3);
+  } finally {
+    await stop();
+  }
+});
+
+test('sessions idle for longer than the limit are closed', async () => {
+  const { send, stop } = await startServer({ sessions: { idleTimeoutMs: 200 } });
+  try {
+    const idle = await initialize(send);
+    const active = await initialize(send);
+    for (let i = 0; i < 6; i++) {
+      await new Promise(resolve => setTimeout(resolve, 100));
+      assert.equal((await send('POST', '/mcp', { sessionId: active, body: toolCall(i) })).status, 200);
+    }
+
+    const expired = await send('POST', '/mcp', { sessionId: idle, body: toolCall(9) });
+    assert.equal(expired.status, 404);
+    assert.equal(JSON.parse(expired.text).error.code, -32001);
+    const health = JSON.parse((await send('GET', '/health')).text);
+    assert.equal(health.sessions, 1);
+  } finally {
+    await stop();
+  }
+});
+
+test('new sessions beyond maxSessions are refused with 503 until one closes', async () => {
+  const { send, stop } = await startServer({ sessions: { maxSessions: 1 } });
+  try {
+    const sessionId = await initialize(send);
+
+    const refused = await send('POST', '/mcp', { body: INITIALIZE });
+    assert.equal(refused.status, 503);
+    assert.match(JSON.parse(refused.text).error.message, /Too many open sessions/);
+    // Requests on the open session still go through
+    assert.equal((await send('POST', '/mcp', { sessionId, body: toolCall(1) })).status, 200);
+
+    assert.equal((await send('DELETE', '/mcp', { sessionId })).status, 200);
+    await initialize(send);
+  } finally {
+    await stop();
+  }
+});
@@ -0,0 +1,448 @@
+import { createHash, randomUUID, timingSafeEqual } from 'crypto';
+import { readFileSync } from 'fs';
+import { IncomingMessage, ServerResponse } from 'http';
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { CONFIG } from "./config.js";
+import { QuotaExceededError } from "./errors.js";
+import { log } from "./log.js";
+import { MetricsRegistry } from "./metrics.js";
+import { UsageTracker, runAsClient } from "./quota.js";
+
+// MCP over Streamable HTTP at /mcp. Each session gets its own SDK transport,
+// connected to a Server built by the caller with the same handlers as stdio;
+// the transport takes care of JSON-RPC framing, batching, notifications and
+// SSE streams. /health stays a plain JSON endpoint. Host, Origin and (when
+// tokens are configured) credentials are checked before any of it.
+
+const MAX_BODY_BYTES = 1024 * 1024;
+// How often idle sessions are looked for
+const SESSION_SWEEP_INTERVAL_MS = 60000;
+
+const LOOPBACK_HOSTS = ["localhost", "127.0.0.1", "::1"];
+const WILDCARD_HOSTS = ["0.0.0.0", "::"];
+
+export interface HttpSecurityOptions {
+  // Accepted bearer tokens or API keys; empty disables authentication
+  tokens: string[];
+  // Tokens for /usage and /metrics; when empty, they take the same tokens as /mcp
+  adminTokens: string[];
+  // Browser origins allowed to call the server, or "*" for any; when empty,
+  // only pages served from localhost are
+  allowedOrigins: string[];
+  // Accepted Host header names, against DNS rebinding; empty skips the check
+  allowedHosts: string[];
+}
+
+export interface HttpSessionLimits {
+  // Sessions with no request in flight for this long are closed
+  idleTimeoutMs: number;
+  maxSessions: number;
+}
+
+export interface HttpConfig {
+  host: string;
+  port: number;
+  requestTimeoutMs: number;
+  sessions: HttpSessionLimits;
+  tls?: { cert: Buffer; key: Buffer };
+  security: HttpSecurityOptions;
+}
+
+export interface HttpHandlerOptions {
+  // Connect a fresh Server to a new session's transport
+  connect: (transport: StreamableHTTPServerTransport) => Promise<void>;
+  health: () => Record<string, unknown>;
+  security: HttpSecurityOptions;
+  sessions: HttpSessionLimits;
+  // Per-client quotas on tool calls, and the counters /usage reports
+  usage: UsageTracker;
+  metrics: MetricsRegistry;
+}
+
+function readFile(path: string, what: string): Buffer {
+  try {
+    return readFileSync(path);
+  } catch (error) {
+    throw new Error(`Cannot read ${what} ${path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+// One token per line; blank lines and # comments are ignored
+function readTokensFile(path: string, what: string): string[] {
+  const tokens = readFile(path, what).toString("utf8")
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith("#"));
+  if (tokens.length === 0) {
+    throw new Error(`The ${what} ${path} has no tokens`);
+  }
+  return tokens;
+}
+
+// Host names in Host headers and URLs, without port or IPv6 brackets
+function normalizeHost(host: string): string {
+  const bracketed = host.match(/^\[([^\]]+)\]/);
+  if (bracketed) return bracketed[1].toLowerCase();
+  return (host.split(":").length > 2 ? host : host.split(":")[0]).toLowerCase();
+}
+
+// Resolve HTTP mode settings, reading the token and TLS files they point to
+export function loadHttpConfig(): HttpConfig {
+  const { host, port, tlsCert: certPath, tlsKey: keyPath, authTokensFile: tokensFile, adminTokensFile } = CONFIG.server;
+
+  const tokens = [...CONFIG.server.authTokens, ...(tokensFile ? readTokensFile(tokensFile, "auth tokens file") : [])];
+  const adminTokens = [...CONFIG.server.adminTokens, ...(adminTokensFile ? readTokensFile(adminTokensFile, "admin tokens file") : [])];
+
+  // Bound to one address, clients must name it (or localhost); bound to every
+  // interface, the names clients use can't be guessed and must be configured
+  const configuredHosts = CONFIG.server.allowedHosts;
+  const bindHost = normalizeHost(host);
+  const allowedHosts = configuredHosts.length > 0
+    ? configuredHosts.map(normalizeHost)
+    : WILDCARD_HOSTS.includes(bindHost) ? [] : [...new Set([bindHost, ...LOOPBACK_HOSTS])];
+
+  if (Boolean(certPath) !== Boolean(keyPath)) {
+    throw new Error("TLS needs both a certificate (--tls-cert / MCP_TLS_CERT) and a key (--tls-key / MCP_TLS_KEY)");
+  }
+
+  return {
+    host,
+    port,
+    requestTimeoutMs: CONFIG.server.requestTimeoutSeconds * 1000,
+    sessions: { idleTimeoutMs: CONFIG.server.sessionIdleMinutes * 60000, maxSessions: CONFIG.server.maxSessions },
+    ...(certPath && keyPath && {
+      tls: { cert: readFile(certPath, "TLS certificate"), key: readFile(keyPath, "TLS key") }
+    }),
+    security: {
+      tokens,
+      adminTokens,
+      allowedOrigins: CONFIG.server.allowedOrigins,
+      allowedHosts
+    }
+  };
+}
+
+export function isLoopbackHost(host: string): boolean {
+  return LOOPBACK_HOSTS.includes(normalizeHost(host));
+}
+
+class HttpRequestError extends Error {
+  constructor(readonly status: number, readonly code: number, message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  if (res.headersSent) return;
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, code: number, message: string) {
+  sendJson(res, status, { jsonrpc: '2.0', error: { code, message }, id: null });
+}
+
+function tokenDigest(token: string): Buffer {
+  return createHash('sha256').update(token).digest();
+}
+
+// Compare digests in constant time so response timing doesn't leak tokens
+function createTokenCheck(tokens: string[]) {
+  const digests = tokens.map(tokenDigest);
+  return (candidate: string) => {
+    const digest = tokenDigest(candidate);
+    return digests.some(known => timingSafeEqual(known, digest));
+  };
+}
+
+// Bearer token in Authorization, or the same token in X-API-Key
+function requestToken(req: IncomingMessage): string | undefined {
+  const authorization = req.headers['authorization'];
+  const bearer = authorization?.match(/^Bearer\s+(\S+)\s*$/i);
+  if (bearer) return bearer[1];
+  const apiKey = req.headers['x-api-key'];
+  return typeof apiKey === 'string' && apiKey ? apiKey : undefined;
+}
+
+// Quotas are kept per token, or per address when there is no authentication.
+// Tokens are identified by a digest prefix so they never show up in /usage.
+function clientId(req: IncomingMessage, token: string | undefined): string {
+  return token
+    ? `token:${tokenDigest(token).toString('hex').slice(0, 8)}`
+    : `ip:${req.socket.remoteAddress ?? 'unknown'}`;
+}
+
+function toolCallIds(body: unknown): (string | number | null)[] {
+  const messages = Array.isArray(body) ? body : [body];
+  return messages
+    .filter(message => message && typeof message === 'object' && message.method === 'tools/call')
+    .map(message => message.id ?? null);
+}
+
+function originAllowed(origin: string, allowedOrigins: string[]): boolean {
+  if (allowedOrigins.length === 0) {
+    try {
+      return isLoopbackHost(new URL(origin).host);
+    } catch {
+      return false;
+    }
+  }
+  return allowedOrigins.includes('*') || allowedOrigins.includes(origin);
+}
+
+function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new HttpRequestError(413, -32600, `Request body larger than ${MAX_BODY_BYTES} bytes`));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+      } catch {
+        reject(new HttpRequestError(400, -32700, 'Parse error'));
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+interface Session {
+  transport: StreamableHTTPServerTransport;
+  // The client that opened the session; only it may use the session
+  client: string;
+  lastSeenAt: number;
+  // Requests still being answered, including open SSE streams
+  inFlight: number;
+}
+
+function startsSession(body: unknown): boolean {
+  return Array.isArray(body) ? body.some(message => isInitializeRequest(message)) : isInitializeRequest(body);
+}
+
+export function createHttpHandler(options: HttpHandlerOptions) {
+  const sessions = new Map<string, Session>();
+  const { security } = options;
+  const tokenMatches = createTokenCheck(security.tokens);
+  const adminTokenMatches = createTokenCheck(security.adminTokens);
+
+  // Returns false, after responding, when the request lacks a valid token
+  const authenticate = (req: IncomingMessage, res: ServerResponse, matches: (token: string) => boolean): boolean => {
+    const token = requestToken(req);
+    if (token && matches(token)) return true;
+    res.setHeader('WWW-Authenticate', 'Bearer');
+    reject(req, res, 401, token ? 'Unauthorized: invalid token' : 'Unauthorized: missing bearer token or API key');
+    return false;
+  };
+
+  const reject = (req: IncomingMessage, res: ServerResponse, status: number, message: string) => {
+    log('warn', 'Rejected HTTP request', {
+      reason: message,
+      method: req.method,
+      url: req.url,
+      remoteAddress: req.socket.remoteAddress
+    });
+    sendJsonRpcError(res, status, -32000, message);
+  };
+
+  const openSession = async (client: string) => {
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: sessionId => {
+        sessions.set(sessionId, { transport, client, lastSeenAt: Date.now(), inFlight: 0 });
+        log('info', 'HTTP session started', { sessionId, client, sessions: sessions.size });
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId && sessions.delete(transport.sessionId)) {
+        log('info', 'HTTP session closed', { sessionId: transport.sessionId, sessions: sessions.size });
+      }
+    };
+    await options.connect(transport);
+    return transport;
+  };
+
+  // Clients that go away without a DELETE leave sessions behind; close those
+  // idle for longer than the limit
+  const sweepTimer = setInterval(() => {
+    const idleSince = Date.now() - options.sessions.idleTimeoutMs;
+    for (const [sessionId, session] of sessions) {
+      if (session.inFlight === 0 && session.lastSeenAt < idleSince) {
+        log('info', 'Closing idle HTTP session', { sessionId, client: session.client });
+        void session.transport.close();
+      }
+    }
+  }, Math.min(SESSION_SWEEP_INTERVAL_MS, options.sessions.idleTimeoutMs));
+  sweepTimer.unref();
+
+  const handle = async (req: IncomingMessage, res: ServerResponse) => {
+    const hostHeader = req.headers.host ?? '';
+    if (security.allowedHosts.length > 0 && !security.allowedHosts.includes(normalizeHost(hostHeader))) {
+      reject(req, res, 403, `Host not allowed: ${hostHeader || '(none)'}`);
+      return;
+    }
+
+    // Requests from browsers carry an Origin; other clients don't
+    const origin = req.headers.origin;
+    if (origin !== undefined) {
+      if (!originAllowed(origin, security.allowedOrigins)) {
+        reject(req, res, 403, `Origin not allowed: ${origin}`);
+        return;
+      }
+      // Browsers need to see the session id to continue a session
+      res.setHeader('Access-Control-Allow-Origin', origin);
+      res.setHeader('Vary', 'Origin');
+      res.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+      res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Accept, Authorization, X-API-Key, Mcp-Session-Id, Mcp-Protocol-Version, Last-Event-ID');
+      res.setHeader('Access-Control-Expose-Headers', 'Mcp-Session-Id');
+    }
+
+    const parsedUrl = new URL(req.url || '', 'http://localhost');
+
+    // Preflights never carry credentials
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+
+    if (parsedUrl.pathname === '/health' && req.method === 'GET') {
+      sendJson(res, 200, {
+        status: 'ok',
+        ...options.health(),
+        sessions: sessions.size,
+        timestamp: new Date().toISOString()
+      });
+      return;
+    }
+
+    if ((parsedUrl.pathname === '/usage' || parsedUrl.pathname === '/metrics') && req.method === 'GET') {
+      if (security.adminTokens.length > 0) {
+        if (!authenticate(req, res, adminTokenMatches)) return;
+      } else if (security.tokens.length > 0 && !authenticate(req, res, tokenMatches)) {
+        return;
+      }
+      if (parsedUrl.pathname === '/metrics') {
+        res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' });
+        res.end(options.metrics.render());
+      } else {
+        sendJson(res, 200, options.usage.report());
+      }
+      return;
+    }
+
+    // /health stays open for load balancers; everything else needs a token
+    if (security.tokens.length > 0 && !authenticate(req, res, tokenMatches)) {
+      return;
+    }
+
+    if (parsedUrl.pathname !== '/mcp') {
+      sendJson(res, 404, { error: 'Not Found' });
+      return;
+    }
+
+    try {
+      const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+      const client = clientId(req, security.tokens.length > 0 ? requestToken(req) : undefined);
+      const sessionId = req.headers['mcp-session-id'];
+      let session = typeof sessionId === 'string' ? sessions.get(sessionId) : undefined;
+      // With authentication on, a session is only good for the token that opened it;
+      // anyone else is told it doesn't exist rather than that it belongs to someone
+      if (session && security.tokens.length > 0 && session.client !== client) {
+        log('warn', 'HTTP session used by another client', { sessionId, client, owner: session.client });
+        session = undefined;
+      }
+
+      let transport = session?.transport;
+      if (!transport) {
+        if (sessionId !== undefined) {
+          // Unknown or expired session: the client has to initialize again
+          sendJsonRpcError(res, 404, -32001, 'Session not found');
+          return;
+        }
+        if (req.method !== 'POST' || !startsSession(body)) {
+          sendJsonRpcError(res, 400, -32000, 'Bad Request: no valid session ID provided');
+          return;
+        }
+        if (sessions.size >= options.sessions.maxSessions) {
+          log('warn', 'Refusing new HTTP session, too many open', { client, sessions: sessions.size });
+          sendJsonRpcError(res, 503, -32000, 'Too many open sessions; try again later');
+          return;
+        }
+        transport = await openSession(client);
+      }
+
+      if (session) {
+        const current = session;
+        current.lastSeenAt = Date.now();
+        current.inFlight++;
+        res.on('close', () => {
+          current.inFlight--;
+          current.lastSeenAt = Date.now();
+        });
+      }
+
+      // Tool calls are charged up front, a batch all or nothing so a rejected
+      // batch costs nothing; the fetches they make are charged as they happen,
+      // to the client set here
+      const callIds = toolCallIds(body);
+      if (callIds.length > 0) {
+        try {
+          options.usage.charge(client, 'toolCalls', callIds.length);
+        } catch (error) {
+          if (!(error instanceof QuotaExceededError)) throw error;
+          log('warn', 'Client over quota', { client, quota: error.quota, requested: callIds.length, resetAt: error.resetAt.toISOString() });
+          res.setHeader('Retry-After', String(error.retryAfterSeconds));
+          sendJson(res, 429, {
+            jsonrpc: '2.0',
+            error: {
+              code: -32000,
+              message: error.message,
+              data: {
+                errorType: error.type,
+                client,
+                quota: error.quota,
+                limit: error.limit,
+                requested: callIds.length,
+                resetAt: error.resetAt.toISOString(),
+                retryAfterSeconds: error.retryAfterSeconds
+              }
+            },
+            id: callIds.length === 1 ? callIds[0] : null
+          });
+          return;
+        }
+      }
+
+      await runAsClient(client, () => transport!.handleRequest(req, res, body));
+    } catch (error) {
+      if (error instanceof HttpRequestError) {
+        log('warn', 'Rejected HTTP request', { error: error.message });
+        sendJsonRpcError(res, error.status, error.code, error.message);
+        return;
+      }
+      log('error', 'HTTP request failed', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      sendJsonRpcError(res, 500, -32603, 'Internal error');
+    }
+  };
+
+  // Close every open session, e.g. on shutdown
+  const closeSessions = async () => {
+    clearInterval(sweepTimer);
+    await Promise.all([...sessions.values()].map(session => session.transport.close()));
+  };
+
+  return { handle, closeSessions };
+}
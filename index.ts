@@ -2,17 +2,119 @@
 
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
 import {
   CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
   Tool,
   McpError,
   ErrorCode,
 } from "@modelcontextprotocol/sdk/types.js";
-import fetch from "node-fetch";
-import * as cheerio from "cheerio";
-import { cleanObject, flattenArraysInObject, pickBySchema } from "./util.js";
-import robotsParser from "robots-parser";
+import {
+  extractClientData,
+  parseListingAvailability,
+  parseListingDetails,
+  parseListingReviews,
+  parsePriceQuote,
+  parseSearchResults,
+} from "./parsers.js";
+import { ListingAvailability, ListingDetails, ListingReviews, PriceQuote, SearchResult, SearchResults } from "./models.js";
+import { describeError } from "./errors.js";
+import { CONFIG, CONFIG_FILE, assertValidConfig } from "./config.js";
+import { CACHE_CONFIG, CacheStatus, MISS, ResponseCache, createResponseCache } from "./cache.js";
+import {
+  COMPARE_LISTINGS_OUTPUT_SCHEMA,
+  LISTING_AVAILABILITY_OUTPUT_SCHEMA,
+  LISTING_DETAILS_OUTPUT_SCHEMA,
+  LISTING_REVIEWS_OUTPUT_SCHEMA,
+  CHECK_WATCHES_OUTPUT_SCHEMA,
+  PRICE_QUOTE_OUTPUT_SCHEMA,
+  ROBOTS_STATUS_OUTPUT_SCHEMA,
+  SEARCH_OUTPUT_SCHEMA,
+  WATCHLIST_OUTPUT_SCHEMA,
+} from "./schemas.js";
+import {
+  formatListingAvailability,
+  formatListingComparison,
+  formatListingDetails,
+  formatListingReviews,
+  formatPriceQuote,
+  formatSearchResults,
+  formatWatchChecks,
+  formatWatchlist,
+} from "./format.js";
+import { pageFetchedReviews, REVIEW_PAGE_PROPERTIES, validateReviewPageOptions } from "./reviews.js";
+import {
+  AVAILABILITY_PROPERTIES,
+  CALENDAR_API_HEADERS,
+  DEFAULT_CALENDAR_MONTHS,
+  buildCalendarUrl,
+  findStayWindows,
+  validateAvailabilityOptions,
+} from "./availability.js";
+import { PAGINATION_PROPERTIES, SearchPage, collectSearchPages, validatePaginationOptions } from "./pagination.js";
+import { FLEXIBLE_DATES_PROPERTY, applyFlexibleDates, currentMonth, isWithinWindow, validateSearchDates } from "./dates.js";
+import { SEARCH_FILTER_PROPERTIES, SearchFilters, applySearchFilters, validateSearchFilters } from "./filters.js";
+import { FETCH_MODE, FIXTURES_DIR, REQUEST_CONFIG, USER_AGENT, fetchWithUserAgent } from "./fetcher.js";
+import { log, withLogContext } from "./log.js";
+import { mapWithConcurrency } from "./util.js";
+import { RobotsPolicy } from "./robots.js";
+import {
+  COMPARE_CONCURRENCY,
+  ComparedListing,
+  MAX_COMPARE_LISTINGS,
+  MIN_COMPARE_LISTINGS,
+  ComparisonPage,
+  buildComparison,
+  compareListing,
+  failedListing,
+  validateCompareIds,
+} from "./compare.js";
+import { RESULT_REFINEMENT_PROPERTIES, createResultFilter, sortResults, validateResultRefinement } from "./refine.js";
+import { GEO_SEARCH_PROPERTIES, applyMapBounds, boundsForRadius, distanceKm, validateGeoSearch } from "./geo.js";
+import {
+  MARKET_DEFAULTS,
+  MARKET_PROPERTIES,
+  Market,
+  applyMarket,
+  isMarketOrigin,
+  resolveMarket,
+  validateMarketOptions
+} from "./market.js";
+import {
+  WATCHLIST_FILE,
+  WatchCheck,
+  findWatch,
+  readWatchlist,
+  recordSearchCheck,
+  recordStayCheck,
+  summarizeWatchlist,
+  updateWatchlist,
+  validateWatchName,
+} from "./watchlist.js";
+import {
+  RESOURCE_CONFIG,
+  RESOURCE_TEMPLATES,
+  ResourceRegistry,
+  listingUri,
+  parseResourceUri,
+  searchHash,
+  searchUri,
+} from "./resources.js";
+import { AIRBNB_PROMPTS, buildPrompt, validatePromptArguments } from "./prompts.js";
+import { createHttpHandler, isLoopbackHost, loadHttpConfig } from "./http.js";
+import { QUOTA_LIMITS, chargeUpstreamFetch, usageTracker } from "./quota.js";
+import { metrics, parseDrift, parseFailures, robotsBlocks, toolCallDuration, toolCalls } from "./metrics.js";
+import { ParseDiagnostics } from "./diagnostics.js";
+import { runSelfTest } from "./selftest.js";
+import { randomUUID } from 'crypto';
 import { readFileSync } from 'fs';
 import { fileURLToPath } from 'url';
 import { dirname, join } from 'path';
@@ -24,9 +126,9 @@ const __dirname = dirname(__filename);
 function getVersion(): string {
   try {
     const packageJson = JSON.parse(readFileSync(join(__dirname, '../package.json'), 'utf8'));
-    return process.env.MCP_SERVER_VERSION || packageJson.version || "unknown";
+    return CONFIG.server.version || packageJson.version || "unknown";
   } catch (error) {
-    return process.env.MCP_SERVER_VERSION || "unknown";
+    return CONFIG.server.version || "unknown";
   }
 }
 
@@ -41,12 +143,13 @@ const AIRBNB_SEARCH_TOOL: Tool = {
     properties: {
       location: {
         type: "string",
-        description: "Location to search for (city, state, etc.)"
+        description: "Location to search for (city, state, etc.). Required unless placeId, boundingBox or radius is given"
       },
       placeId: {
         type: "string",
         description: "Google Maps Place ID (overrides the location parameter)"
       },
+      ...GEO_SEARCH_PROPERTIES,
       checkin: {
         type: "string",
         description: "Check-in date (YYYY-MM-DD)"
@@ -55,6 +158,7 @@ const AIRBNB_SEARCH_TOOL: Tool = {
         type: "string",
         description: "Check-out date (YYYY-MM-DD)"
       },
+      flexibleDates: FLEXIBLE_DATES_PROPERTY,
       adults: {
         type: "number",
         description: "Number of adults"
@@ -79,17 +183,21 @@ const AIRBNB_SEARCH_TOOL: Tool = {
         type: "number",
         description: "Maximum price for the stay"
       },
+      ...SEARCH_FILTER_PROPERTIES,
       cursor: {
         type: "string",
         description: "Base64-encoded string used for Pagination"
       },
+      ...PAGINATION_PROPERTIES,
+      ...RESULT_REFINEMENT_PROPERTIES,
+      ...MARKET_PROPERTIES,
       ignoreRobotsText: {
         type: "boolean",
         description: "Ignore robots.txt rules for this request"
       }
-    },
-    required: ["location"]
-  }
+    }
+  },
+  outputSchema: SEARCH_OUTPUT_SCHEMA
 };
 
 const AIRBNB_LISTING_DETAILS_TOOL: Tool = {
@@ -126,121 +234,357 @@ const AIRBNB_LISTING_DETAILS_TOOL: Tool = {
         type: "number",
         description: "Number of pets"
       },
+      ...MARKET_PROPERTIES,
       ignoreRobotsText: {
         type: "boolean",
         description: "Ignore robots.txt rules for this request"
       }
     },
     required: ["id"]
-  }
+  },
+  outputSchema: LISTING_DETAILS_OUTPUT_SCHEMA
 };
 
-const AIRBNB_TOOLS = [
-  AIRBNB_SEARCH_TOOL,
-  AIRBNB_LISTING_DETAILS_TOOL,
-] as const;
+const AIRBNB_LISTING_REVIEWS_TOOL: Tool = {
+  name: "airbnb_listing_reviews",
+  description: "Get the overall rating, category ratings (cleanliness, accuracy, location, etc.) and individual guest reviews for an Airbnb listing. Only the reviews Airbnb shows on the listing's reviews page can be returned; sorting and paging apply to those. pagination.reviewCount gives the listing's full review count, and pagination.truncated is true when it has more reviews than can be returned",
+  inputSchema: {
+    type: "object",
+    properties: {
+      id: {
+        type: "string",
+        description: "The Airbnb listing ID"
+      },
+      ...REVIEW_PAGE_PROPERTIES,
+      ...MARKET_PROPERTIES,
+      ignoreRobotsText: {
+        type: "boolean",
+        description: "Ignore robots.txt rules for this request"
+      }
+    },
+    required: ["id"]
+  },
+  outputSchema: LISTING_REVIEWS_OUTPUT_SCHEMA
+};
 
-// Utility functions
-const USER_AGENT = "ModelContextProtocol/1.0 (Autonomous; +https://github.com/modelcontextprotocol/servers)";
-const BASE_URL = "https://www.airbnb.com";
+const AIRBNB_LISTING_AVAILABILITY_TOOL: Tool = {
+  name: "airbnb_listing_availability",
+  description: "Get a per-night availability calendar for an Airbnb listing over the coming months, including minimum/maximum stay and check-in/check-out restrictions, and the open windows that fit a given stay length",
+  inputSchema: {
+    type: "object",
+    properties: {
+      id: {
+        type: "string",
+        description: "The Airbnb listing ID"
+      },
+      ...AVAILABILITY_PROPERTIES,
+      ...MARKET_PROPERTIES,
+      ignoreRobotsText: {
+        type: "boolean",
+        description: "Ignore robots.txt rules for this request"
+      }
+    },
+    required: ["id"]
+  },
+  outputSchema: LISTING_AVAILABILITY_OUTPUT_SCHEMA
+};
 
-// Configuration from environment variables (set by DXT host)
-const IGNORE_ROBOTS_TXT = process.env.IGNORE_ROBOTS_TXT === "true" || process.argv.slice(2).includes("--ignore-robots-txt");
+const AIRBNB_PRICE_QUOTE_TOOL: Tool = {
+  name: "airbnb_price_quote",
+  description: "Get the exact price of an Airbnb stay for specific dates and guests: nightly rate, cleaning fee, service fee, taxes, discounts and total, as numbers with a currency code",
+  inputSchema: {
+    type: "object",
+    properties: {
+      id: {
+        type: "string",
+        description: "The Airbnb listing ID"
+      },
+      checkin: {
+        type: "string",
+        description: "Check-in date (YYYY-MM-DD)"
+      },
+      checkout: {
+        type: "string",
+        description: "Check-out date (YYYY-MM-DD)"
+      },
+      adults: {
+        type: "number",
+        description: "Number of adults"
+      },
+      children: {
+        type: "number",
+        description: "Number of children"
+      },
+      infants: {
+        type: "number",
+        description: "Number of infants"
+      },
+      pets: {
+        type: "number",
+        description: "Number of pets"
+      },
+      ...MARKET_PROPERTIES,
+      ignoreRobotsText: {
+        type: "boolean",
+        description: "Ignore robots.txt rules for this request"
+      }
+    },
+    required: ["id", "checkin", "checkout"]
+  },
+  outputSchema: PRICE_QUOTE_OUTPUT_SCHEMA
+};
 
-const robotsErrorMessage = "This path is disallowed by Airbnb's robots.txt to this User-agent. You may or may not want to run the server with '--ignore-robots-txt' args"
-let robotsTxtContent = "";
+const AIRBNB_COMPARE_LISTINGS_TOOL: Tool = {
+  name: "airbnb_compare_listings",
+  description: "Compare several Airbnb listings side by side for the same dates and guests: price, rating, bedrooms/beds/baths, key amenities, house rules, cancellation policy and location. Listings that fail to load are reported individually",
+  inputSchema: {
+    type: "object",
+    properties: {
+      ids: {
+        type: "array",
+        items: { type: "string" },
+        minItems: MIN_COMPARE_LISTINGS,
+        maxItems: MAX_COMPARE_LISTINGS,
+        description: "Airbnb listing IDs to compare"
+      },
+      checkin: {
+        type: "string",
+        description: "Check-in date (YYYY-MM-DD); with checkout, adds exact prices"
+      },
+      checkout: {
+        type: "string",
+        description: "Check-out date (YYYY-MM-DD)"
+      },
+      adults: {
+        type: "number",
+        description: "Number of adults"
+      },
+      children: {
+        type: "number",
+        description: "Number of children"
+      },
+      infants: {
+        type: "number",
+        description: "Number of infants"
+      },
+      pets: {
+        type: "number",
+        description: "Number of pets"
+      },
+      ...MARKET_PROPERTIES,
+      ignoreRobotsText: {
+        type: "boolean",
+        description: "Ignore robots.txt rules for this request"
+      }
+    },
+    required: ["ids"]
+  },
+  outputSchema: COMPARE_LISTINGS_OUTPUT_SCHEMA
+};
 
-// Enhanced robots.txt fetch with timeout and error handling
-async function fetchRobotsTxt() {
-  if (IGNORE_ROBOTS_TXT) {
-    log('info', 'Skipping robots.txt fetch (ignored by configuration)');
-    return;
-  }
+const AIRBNB_ROBOTS_STATUS_TOOL: Tool = {
+  name: "airbnb_robots_status",
+  description: "Show the robots.txt policy the server enforces and explain whether a given Airbnb URL would be allowed or blocked",
+  inputSchema: {
+    type: "object",
+    properties: {
+      url: {
+        type: "string",
+        description: "Airbnb URL or path to check, e.g. /rooms/12345; absolute URLs must be on an Airbnb site"
+      },
+      includeRules: {
+        type: "boolean",
+        description: "Include the robots.txt directives currently in effect"
+      }
+    }
+  },
+  outputSchema: ROBOTS_STATUS_OUTPUT_SCHEMA
+};
 
-  try {
-    log('info', 'Fetching robots.txt from Airbnb');
+// Saved searches re-run from the first page, so they take no cursor
+const { cursor: _cursor, ...SAVED_SEARCH_PROPERTIES } = AIRBNB_SEARCH_TOOL.inputSchema.properties!;
+
+const watchNameProperty = {
+  type: "string",
+  description: "Name for this entry in the watch list (letters, digits, spaces and . _ : -)"
+};
 
-    // Add timeout to prevent hanging
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 10000); // 10 second timeout
+const AIRBNB_SAVE_SEARCH_TOOL: Tool = {
+  name: "airbnb_save_search",
+  description: "Save a named Airbnb search to the watch list so airbnb_check_watches can re-run it and report new listings, removed listings and price changes. Saving under an existing name replaces that search",
+  inputSchema: {
+    type: "object",
+    properties: {
+      name: watchNameProperty,
+      search: {
+        type: "object",
+        description: "airbnb_search arguments to re-run on each check",
+        properties: SAVED_SEARCH_PROPERTIES
+      }
+    },
+    required: ["name", "search"]
+  },
+  outputSchema: WATCHLIST_OUTPUT_SCHEMA
+};
 
-    const response = await fetch(`${BASE_URL}/robots.txt`, {
-      headers: {
-        "User-Agent": USER_AGENT,
+const AIRBNB_WATCH_LISTING_TOOL: Tool = {
+  name: "airbnb_watch_listing",
+  description: "Add a listing and date range to the watch list so airbnb_check_watches can track its price and availability",
+  inputSchema: {
+    type: "object",
+    properties: {
+      name: {
+        ...watchNameProperty,
+        description: "Name for this entry in the watch list (default: \"<id> <checkin>..<checkout>\")"
       },
-      signal: controller.signal
-    });
+      ...AIRBNB_PRICE_QUOTE_TOOL.inputSchema.properties
+    },
+    required: ["id", "checkin", "checkout"]
+  },
+  outputSchema: WATCHLIST_OUTPUT_SCHEMA
+};
+
+const AIRBNB_LIST_WATCHES_TOOL: Tool = {
+  name: "airbnb_list_watches",
+  description: "List the saved searches and watched listings in the watch list, with when each was last checked",
+  inputSchema: {
+    type: "object",
+    properties: {}
+  },
+  outputSchema: WATCHLIST_OUTPUT_SCHEMA
+};
 
-    clearTimeout(timeoutId);
+const AIRBNB_REMOVE_WATCH_TOOL: Tool = {
+  name: "airbnb_remove_watch",
+  description: "Remove a saved search or watched listing, and its price history, from the watch list",
+  inputSchema: {
+    type: "object",
+    properties: {
+      name: {
+        type: "string",
+        description: "Name of the saved search or watched listing"
+      }
+    },
+    required: ["name"]
+  },
+  outputSchema: WATCHLIST_OUTPUT_SCHEMA
+};
 
-    if (!response.ok) {
-      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+const AIRBNB_CHECK_WATCHES_TOOL: Tool = {
+  name: "airbnb_check_watches",
+  description: "Re-run saved searches and re-price watched listings, reporting new listings, removed listings, price changes and availability changes since the last check, with the history of observed prices. The first check of an entry records a baseline",
+  inputSchema: {
+    type: "object",
+    properties: {
+      names: {
+        type: "array",
+        items: { type: "string" },
+        description: "Entries to check (default: all)"
+      }
     }
+  },
+  outputSchema: CHECK_WATCHES_OUTPUT_SCHEMA
+};
 
-    robotsTxtContent = await response.text();
-    log('info', 'Successfully fetched robots.txt');
-  } catch (error) {
-    log('warn', 'Error fetching robots.txt, assuming all paths allowed', {
-      error: error instanceof Error ? error.message : String(error)
-    });
-    robotsTxtContent = ""; // Empty robots.txt means everything is allowed
-  }
-}
+const AIRBNB_TOOLS = [
+  AIRBNB_SEARCH_TOOL,
+  AIRBNB_LISTING_DETAILS_TOOL,
+  AIRBNB_LISTING_REVIEWS_TOOL,
+  AIRBNB_LISTING_AVAILABILITY_TOOL,
+  AIRBNB_PRICE_QUOTE_TOOL,
+  AIRBNB_COMPARE_LISTINGS_TOOL,
+  AIRBNB_SAVE_SEARCH_TOOL,
+  AIRBNB_WATCH_LISTING_TOOL,
+  AIRBNB_LIST_WATCHES_TOOL,
+  AIRBNB_REMOVE_WATCH_TOOL,
+  AIRBNB_CHECK_WATCHES_TOOL,
+  AIRBNB_ROBOTS_STATUS_TOOL,
+] as const;
 
-function isPathAllowed(path: string): boolean {
-  if (!robotsTxtContent) {
-    return true; // If we couldn't fetch robots.txt, assume allowed
-  }
+// Utility functions
+const BASE_URL = resolveMarket({}).baseUrl;
 
-  try {
-    const robots = robotsParser(`${BASE_URL}/robots.txt`, robotsTxtContent);
-    const allowed = robots.isAllowed(path, USER_AGENT);
+const IGNORE_ROBOTS_TXT = CONFIG.airbnb.ignoreRobotsTxt;
 
-    if (!allowed) {
-      log('warn', 'Path disallowed by robots.txt', { path, userAgent: USER_AGENT });
-    }
+// Guest counts for calls that leave them out
+const GUEST_DEFAULTS = {
+  adults: CONFIG.defaults.adults,
+  children: CONFIG.defaults.children,
+  infants: CONFIG.defaults.infants,
+  pets: CONFIG.defaults.pets,
+};
 
-    return allowed;
-  } catch (error) {
-    log('warn', 'Error parsing robots.txt, allowing path', {
-      path,
-      error: error instanceof Error ? error.message : String(error)
-    });
-    return true; // If parsing fails, be permissive
-  }
-}
+// Parsed responses, keyed by normalized search/listing URL
+const searchCache = createResponseCache<SearchResults>("search", CACHE_CONFIG.searchTtlSeconds);
+const listingCache = createResponseCache<ListingDetails>("listing", CACHE_CONFIG.listingTtlSeconds);
+const reviewsCache = createResponseCache<ListingReviews>("reviews", CACHE_CONFIG.listingTtlSeconds);
+// Calendars change as nights get booked, so they follow the shorter search TTL
+const availabilityCache = createResponseCache<ListingAvailability>("availability", CACHE_CONFIG.searchTtlSeconds);
+const quoteCache = createResponseCache<PriceQuote>("quote", CACHE_CONFIG.searchTtlSeconds);
+const comparisonCache = createResponseCache<ComparisonPage>("comparison", CACHE_CONFIG.searchTtlSeconds);
 
-async function fetchWithUserAgent(url: string, timeout: number = 30000) {
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), timeout);
+// Listings and searches seen so far, served as airbnb:// resources
+const resourceRegistry = new ResourceRegistry<Server>();
 
-  try {
-    const response = await fetch(url, {
-      headers: {
-        "User-Agent": USER_AGENT,
-        "Accept-Language": "en-US,en;q=0.9",
-        "Accept": "text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8",
-        "Cache-Control": "no-cache",
-      },
-      signal: controller.signal
-    });
+const robotsErrorMessage = "This path is disallowed by Airbnb's robots.txt to this User-agent. You may or may not want to run the server with '--ignore-robots-txt' args"
+const robotsOptions = {
+  userAgent: USER_AGENT,
+  ignore: IGNORE_ROBOTS_TXT,
+  failClosed: CONFIG.robots.failClosed,
+  refreshIntervalMs: CONFIG.robots.refreshMinutes * 60000,
+  fetchTimeoutMs: CONFIG.robots.timeoutSeconds * 1000,
+};
+const robotsPolicy = new RobotsPolicy({ baseUrl: BASE_URL, ...robotsOptions });
 
-    clearTimeout(timeoutId);
+// Every regional domain publishes its own robots.txt; policies for domains
+// other than the default are created and loaded on first use
+const regionalRobotsPolicies = new Map<string, RobotsPolicy>();
 
-    if (!response.ok) {
-      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-    }
+function robotsPolicyFor(baseUrl: string): RobotsPolicy {
+  if (baseUrl === BASE_URL) return robotsPolicy;
 
-    return response;
-  } catch (error) {
-    clearTimeout(timeoutId);
+  let policy = regionalRobotsPolicies.get(baseUrl);
+  if (!policy) {
+    policy = new RobotsPolicy({ baseUrl, ...robotsOptions });
+    policy.startAutoRefresh();
+    regionalRobotsPolicies.set(baseUrl, policy);
+  }
+  return policy;
+}
 
-    if (error instanceof Error && error.name === 'AbortError') {
-      throw new Error(`Request timeout after ${timeout}ms`);
-    }
+function invalidParameters(kind: string, errors: string[]) {
+  log('warn', `Rejected invalid ${kind} parameters`, { errors });
+  return {
+    content: [{
+      type: "text",
+      text: JSON.stringify({
+        error: `Invalid ${kind} parameters`,
+        details: errors
+      }, null, 2)
+    }],
+    isError: true
+  };
+}
 
-    throw error;
-  }
+// Shared by airbnb_search and airbnb_save_search
+function validateSearchParams(params: any): string[] {
+  const {
+    location, placeId, boundingBox, radius, checkin, checkout, flexibleDates,
+    roomType, minBedrooms, minBeds, minBathrooms, amenities, instantBook, superhost, minPrice, maxPrice,
+    maxPages, maxResults, filters, sortBy,
+  } = params;
+
+  return [
+    ...validateGeoSearch({ location, placeId, boundingBox, radius }),
+    ...validateSearchDates({ checkin, checkout, flexibleDates }),
+    ...validateSearchFilters({ roomType, minBedrooms, minBeds, minBathrooms, amenities, instantBook, superhost, minPrice, maxPrice }),
+    ...validatePaginationOptions({ maxPages, maxResults }),
+    ...validateResultRefinement(filters, sortBy, {
+      hasDates: Boolean((checkin && checkout) || flexibleDates),
+      hasCenter: Boolean(radius)
+    }),
+    ...validateMarketOptions(params),
+  ];
 }
 
 // API handlers
@@ -248,649 +592,1319 @@ async function handleAirbnbSearch(params: any) {
   const {
     location,
     placeId,
+    boundingBox,
+    radius,
     checkin,
     checkout,
-    adults = 1,
-    children = 0,
-    infants = 0,
-    pets = 0,
+    flexibleDates,
+    adults = GUEST_DEFAULTS.adults,
+    children = GUEST_DEFAULTS.children,
     minPrice,
     maxPrice,
+    roomType,
+    minBedrooms,
+    minBeds,
+    minBathrooms,
+    amenities,
+    instantBook,
+    superhost,
     cursor,
+    maxPages,
+    maxResults,
+    filters: resultFilters,
+    sortBy,
     ignoreRobotsText = false,
   } = params;
 
-  // Build search URL
-  const searchUrl = new URL(`${BASE_URL}/s/${encodeURIComponent(location)}/homes`);
+  const filters: SearchFilters = {
+    roomType, minBedrooms, minBeds, minBathrooms, amenities, instantBook, superhost, minPrice, maxPrice
+  };
+
+  const validationErrors = validateSearchParams(params);
+  if (validationErrors.length > 0) {
+    return invalidParameters("search", validationErrors);
+  }
+
+  const market = resolveMarket(params);
+
+  // Build search URL; map searches don't need a named location
+  const searchPath = location ? `/s/${encodeURIComponent(location)}/homes` : "/s/homes";
+  const searchUrl = new URL(`${market.baseUrl}${searchPath}`);
 
   // Add placeId
   if (placeId) searchUrl.searchParams.append("place_id", placeId);
 
-  // Add query parameters
-  if (checkin) searchUrl.searchParams.append("checkin", checkin);
-  if (checkout) searchUrl.searchParams.append("checkout", checkout);
+  // Add map viewport; a radius is searched as the box around it
+  const mapBounds = radius ? boundsForRadius(radius) : boundingBox;
+  if (mapBounds) applyMapBounds(searchUrl, mapBounds);
+
+  // Add exact or flexible dates
+  if (flexibleDates) {
+    applyFlexibleDates(searchUrl, flexibleDates);
+  } else {
+    if (checkin) searchUrl.searchParams.append("checkin", checkin);
+    if (checkout) searchUrl.searchParams.append("checkout", checkout);
+  }
 
   // Add guests
-  const adults_int = parseInt(adults.toString());
-  const children_int = parseInt(children.toString());
-  const infants_int = parseInt(infants.toString());
-  const pets_int = parseInt(pets.toString());
+  appendGuests(searchUrl, params);
 
-  const totalGuests = adults_int + children_int;
-  if (totalGuests > 0) {
-    searchUrl.searchParams.append("adults", adults_int.toString());
-    searchUrl.searchParams.append("children", children_int.toString());
-    searchUrl.searchParams.append("infants", infants_int.toString());
-    searchUrl.searchParams.append("pets", pets_int.toString());
-  }
+  // Add room, amenity, booking and price filters
+  applySearchFilters(searchUrl, filters);
+
+  // Add currency and language
+  applyMarket(searchUrl, market);
+
+  log('info', 'Performing Airbnb search', {
+    location, boundingBox, radius, checkin, checkout, flexibleDates, adults, children, maxPages, maxResults,
+    filters: resultFilters, sortBy
+  });
+
+  const fetchPage = (pageCursor: string | undefined) => {
+    const pageUrl = new URL(searchUrl);
+    // Add cursor for pagination
+    if (pageCursor) {
+      pageUrl.searchParams.append("cursor", pageCursor);
+    }
+    return fetchSearchPage(pageUrl, market, ignoreRobotsText);
+  };
+
+  // Airbnb searches whole months; drop stays that spill outside the requested flexible window
+  const withinWindow = (result: SearchResult) =>
+    !flexibleDates?.window || !result.resolvedDates || isWithinWindow(result.resolvedDates, flexibleDates.window);
 
-  // Add price range
-  if (minPrice) searchUrl.searchParams.append("price_min", minPrice.toString());
-  if (maxPrice) searchUrl.searchParams.append("price_max", maxPrice.toString());
+  // The box around a radius has corners outside the circle; listings without
+  // coordinates can't be placed, so they are dropped too
+  const withinRadius = (result: SearchResult) =>
+    !radius || (result.coordinates !== undefined && distanceKm(radius, result.coordinates) <= radius.radiusKm);
 
-  // Add cursor for pagination
-  if (cursor) {
-    searchUrl.searchParams.append("cursor", cursor);
+  // Post-filters run inside collection so maxResults counts only listings that pass
+  const resultFilter = createResultFilter(resultFilters);
+  const accept = (result: SearchResult) => withinWindow(result) && withinRadius(result) && resultFilter.accept(result);
+
+  const collected = await collectSearchPages(cursor, { maxPages, maxResults }, fetchPage, accept);
+  if ("error" in collected) {
+    return collected.response;
   }
 
-  // Check if path is allowed by robots.txt
-  const path = searchUrl.pathname + searchUrl.search;
-  if (!ignoreRobotsText && !isPathAllowed(path)) {
-    log('warn', 'Search blocked by robots.txt', { path, url: searchUrl.toString() });
-    return {
-      content: [{
-        type: "text",
-        text: JSON.stringify({
-          error: robotsErrorMessage,
-          url: searchUrl.toString(),
-          suggestion: "Consider enabling 'ignore_robots_txt' in extension settings if needed for testing"
-        }, null, 2)
-      }],
-      isError: true
-    };
+  // Results can come from cache, so distances go on copies
+  if (radius) {
+    collected.searchResults = collected.searchResults
+      .map(result => ({ ...result, distanceKm: distanceKm(radius, result.coordinates!) }));
   }
 
-  const allowSearchResultSchema: Record<string, any> = {
-    demandStayListing : {
-      id: true,
-      description: true,
-      location: true,
-    },
-    badges: {
-      text: true,
-    },
-    structuredContent: {
-      mapCategoryInfo: {
-        body: true
-      },
-      mapSecondaryLine: {
-        body: true
-      },
-      primaryLine: {
-        body: true
-      },
-      secondaryLine: {
-        body: true
-      },
-    },
-    avgRatingA11yLabel: true,
-    listingParamOverrides: true,
-    structuredDisplayPrice: {
-      primaryLine: {
-        accessibilityLabel: true,
-      },
-      secondaryLine: {
-        accessibilityLabel: true,
-      },
-      explanationData: {
-        title: true,
-        priceDetails: {
-          items: {
-            description: true,
-            priceString: true
-          }
-        }
-      }
-    },
+  // Radius searches default to nearest first
+  const order = sortBy ?? (radius ? "distance" : undefined);
+  if (order) {
+    collected.searchResults = sortResults(collected.searchResults, order);
+  }
+  const refinement = {
+    removedByFilter: resultFilter.removed,
+    ...(order && { sortBy: order })
   };
 
-  try {
-    log('info', 'Performing Airbnb search', { location, checkin, checkout, adults, children });
-
-    const response = await fetchWithUserAgent(searchUrl.toString());
-    const html = await response.text();
-    const $ = cheerio.load(html);
+  const firstPageUrl = new URL(searchUrl);
+  if (cursor) firstPageUrl.searchParams.append("cursor", cursor);
 
-    let staysSearchResults: any = {};
+  const resourceUri = registerSearchResource(params);
 
-    try {
-      const scriptElement = $("#data-deferred-state-0").first();
-      if (scriptElement.length === 0) {
-        throw new Error("Could not find data script element - page structure may have changed");
+  const structuredContent = {
+    searchUrl: firstPageUrl.toString(),
+    resourceUri,
+    ...(mapBounds && {
+      searchArea: {
+        boundingBox: mapBounds,
+        ...(radius && { center: { latitude: radius.latitude, longitude: radius.longitude }, radiusKm: radius.radiusKm })
       }
+    }),
+    ...collected,
+    ...refinement
+  };
 
-      const scriptContent = $(scriptElement).text();
-      if (!scriptContent) {
-        throw new Error("Data script element is empty");
-      }
+  log('info', 'Search completed successfully', {
+    resultCount: collected.searchResults.length,
+    pagesFetched: collected.pagesFetched
+  });
 
-      const clientData = JSON.parse(scriptContent).niobeClientData[0][1];
-      const results = clientData.data.presentation.staysSearch.results;
-      cleanObject(results);
-
-      staysSearchResults = {
-        searchResults: results.searchResults
-          .map((result: any) => flattenArraysInObject(pickBySchema(result, allowSearchResultSchema)))
-          .map((result: any) => {
-            const id = atob(result.demandStayListing.id).split(":")[1];
-            return {id, url: `${BASE_URL}/rooms/${id}`, ...result }
-          }),
-        paginationInfo: results.paginationInfo
-      }
+  return {
+    content: [{
+      type: "text",
+      text: formatSearchResults(structuredContent.searchUrl, collected, refinement)
+    }],
+    structuredContent,
+    isError: false
+  };
+}
 
-      log('info', 'Search completed successfully', {
-        resultCount: staysSearchResults.searchResults?.length || 0
-      });
-    } catch (parseError) {
-      log('error', 'Failed to parse search results', {
-        error: parseError instanceof Error ? parseError.message : String(parseError),
-        url: searchUrl.toString()
-      });
+// Fetch and parse one page of search results
+async function fetchSearchPage(searchUrl: URL, market: Market, ignoreRobotsText: boolean): Promise<SearchPage> {
+  const page = await loadAirbnbPage({
+    url: searchUrl,
+    kind: "search results",
+    urlField: "searchUrl",
+    ignoreRobotsText,
+    cache: searchCache,
+    parse: (clientData, diagnostics) => parseSearchResults(clientData, market.baseUrl, market.currency, diagnostics),
+    headers: market.headers,
+  });
+  return "error" in page ? page : { results: page.value, cache: page.cache };
+}
 
-      return {
+type PageLoad<T> =
+  | { value: T; cache: CacheStatus }
+  | { error: string; errorType: string; response: any };
+
+// Shared path for every Airbnb page: robots.txt check, response cache, fetch,
+// then parse the embedded client data. Failures come back as the tool error
+// response to return, plus a short reason for callers that carry on, and
+// the parse diagnostics when the page didn't look as expected.
+// JSON endpoints pass their own `extract` and request headers.
+async function loadAirbnbPage<T>(options: {
+  url: URL;
+  kind: string;
+  urlField: string;
+  ignoreRobotsText: boolean;
+  cache: ResponseCache<T>;
+  parse: (clientData: any, diagnostics: ParseDiagnostics) => T;
+  extract?: (body: string, diagnostics: ParseDiagnostics) => any;
+  headers?: Record<string, string>;
+}): Promise<PageLoad<T>> {
+  const { url, kind, urlField, ignoreRobotsText, cache, parse, extract = extractClientData, headers } = options;
+
+  // Check if path is allowed by the robots.txt of the domain being queried
+  const robots = robotsPolicyFor(url.origin);
+  await robots.ensureLoaded();
+  const robotsDecision = robots.check(url.toString());
+  if (!ignoreRobotsText && !robotsDecision.allowed) {
+    log('warn', `Request for ${kind} blocked by robots.txt`, { url: url.toString(), reason: robotsDecision.reason });
+    robotsBlocks.inc({ domain: url.hostname });
+    return {
+      error: robotsErrorMessage,
+      errorType: "robots_disallowed",
+      response: {
         content: [{
           type: "text",
           text: JSON.stringify({
-            error: "Failed to parse search results from Airbnb. The page structure may have changed.",
-            details: parseError instanceof Error ? parseError.message : String(parseError),
-            searchUrl: searchUrl.toString()
+            error: robotsErrorMessage,
+            errorType: "robots_disallowed",
+            reason: robotsDecision.reason,
+            url: url.toString(),
+            suggestion: "Consider enabling 'ignore_robots_txt' in extension settings if needed for testing"
           }, null, 2)
         }],
         isError: true
-      };
-    }
-
-    return {
-      content: [{
-        type: "text",
-        text: JSON.stringify({
-          searchUrl: searchUrl.toString(),
-          ...staysSearchResults
-        }, null, 2)
-      }],
-      isError: false
+      }
     };
+  }
+
+  const cached = cache.get(url.toString());
+  if (cached) {
+    log('info', `Served ${kind} from cache`, { url: url.toString(), ageSeconds: cached.status.ageSeconds });
+    return { value: cached.value, cache: cached.status };
+  }
+
+  let body: string;
+  try {
+    // Cache hits are free; only requests that reach Airbnb count against quotas
+    chargeUpstreamFetch();
+    const response = await fetchWithUserAgent(url.toString(), undefined, headers);
+    body = await response.text();
   } catch (error) {
-    log('error', 'Search request failed', {
+    log('error', `Request for ${kind} failed`, {
       error: error instanceof Error ? error.message : String(error),
-      url: searchUrl.toString()
+      url: url.toString()
+    });
+
+    return {
+      error: describeError(error).error,
+      errorType: describeError(error).errorType,
+      response: {
+        content: [{
+          type: "text",
+          text: JSON.stringify({
+            ...describeError(error),
+            [urlField]: url.toString(),
+            timestamp: new Date().toISOString()
+          }, null, 2)
+        }],
+        isError: true
+      }
+    };
+  }
+
+  const diagnostics = new ParseDiagnostics(kind.replace(/ /g, "_"));
+  try {
+    const value = parse(extract(body, diagnostics), diagnostics);
+    if (diagnostics.drifted) {
+      parseDrift.inc({ parser: diagnostics.parser });
+      log('warn', `Parsed ${kind} with warnings`, { url: url.toString(), ...diagnostics.report() });
+    }
+    cache.set(url.toString(), value);
+    return { value, cache: MISS };
+  } catch (parseError) {
+    parseFailures.inc({ parser: diagnostics.parser });
+    log('error', `Failed to parse ${kind}`, {
+      error: parseError instanceof Error ? parseError.message : String(parseError),
+      url: url.toString(),
+      ...diagnostics.report()
     });
 
+    const message = `Failed to parse ${kind} from Airbnb. The page structure may have changed.`;
     return {
-      content: [{
-        type: "text",
-        text: JSON.stringify({
-          error: error instanceof Error ? error.message : String(error),
-          searchUrl: searchUrl.toString(),
-          timestamp: new Date().toISOString()
-        }, null, 2)
-      }],
-      isError: true
+      error: message,
+      errorType: "page_structure_changed",
+      response: {
+        content: [{
+          type: "text",
+          text: JSON.stringify({
+            error: message,
+            errorType: "page_structure_changed",
+            details: parseError instanceof Error ? parseError.message : String(parseError),
+            diagnostics: diagnostics.report(),
+            [urlField]: url.toString()
+          }, null, 2)
+        }],
+        isError: true
+      }
     };
   }
 }
 
-async function handleAirbnbListingDetails(params: any) {
+// Append guest counts the way Airbnb's listing and search URLs expect them
+function appendGuests(url: URL, params: any) {
   const {
-    id,
-    checkin,
-    checkout,
-    adults = 1,
-    children = 0,
-    infants = 0,
-    pets = 0,
-    ignoreRobotsText = false,
+    adults = GUEST_DEFAULTS.adults,
+    children = GUEST_DEFAULTS.children,
+    infants = GUEST_DEFAULTS.infants,
+    pets = GUEST_DEFAULTS.pets
   } = params;
 
+  const adults_int = parseInt(adults.toString());
+  const children_int = parseInt(children.toString());
+  const infants_int = parseInt(infants.toString());
+  const pets_int = parseInt(pets.toString());
+
+  const totalGuests = adults_int + children_int;
+  if (totalGuests > 0) {
+    url.searchParams.append("adults", adults_int.toString());
+    url.searchParams.append("children", children_int.toString());
+    url.searchParams.append("infants", infants_int.toString());
+    url.searchParams.append("pets", pets_int.toString());
+  }
+}
+
+// Listing page URL for the given dates and guests; the booking sidebar prices exactly these
+function buildListingUrl(params: any, market: Market): URL {
+  const { id, checkin, checkout } = params;
+
   // Build listing URL
-  const listingUrl = new URL(`${BASE_URL}/rooms/${id}`);
+  const listingUrl = new URL(`${market.baseUrl}/rooms/${id}`);
 
   // Add query parameters
   if (checkin) listingUrl.searchParams.append("check_in", checkin);
   if (checkout) listingUrl.searchParams.append("check_out", checkout);
 
   // Add guests
-  const adults_int = parseInt(adults.toString());
-  const children_int = parseInt(children.toString());
-  const infants_int = parseInt(infants.toString());
-  const pets_int = parseInt(pets.toString());
+  appendGuests(listingUrl, params);
 
-  const totalGuests = adults_int + children_int;
-  if (totalGuests > 0) {
-    listingUrl.searchParams.append("adults", adults_int.toString());
-    listingUrl.searchParams.append("children", children_int.toString());
-    listingUrl.searchParams.append("infants", infants_int.toString());
-    listingUrl.searchParams.append("pets", pets_int.toString());
+  // Add currency and language
+  applyMarket(listingUrl, market);
+
+  return listingUrl;
+}
+
+async function handleAirbnbListingDetails(params: any) {
+  const {
+    id,
+    checkin,
+    checkout,
+    adults = GUEST_DEFAULTS.adults,
+    children = GUEST_DEFAULTS.children,
+    ignoreRobotsText = false,
+  } = params;
+
+  const validationErrors = validateMarketOptions(params);
+  if (validationErrors.length > 0) {
+    return invalidParameters("listing", validationErrors);
   }
 
-  // Check if path is allowed by robots.txt
-  const path = listingUrl.pathname + listingUrl.search;
-  if (!ignoreRobotsText && !isPathAllowed(path)) {
-    log('warn', 'Listing details blocked by robots.txt', { path, url: listingUrl.toString() });
-    return {
-      content: [{
-        type: "text",
-        text: JSON.stringify({
-          error: robotsErrorMessage,
-          url: listingUrl.toString(),
-          suggestion: "Consider enabling 'ignore_robots_txt' in extension settings if needed for testing"
-        }, null, 2)
-      }],
-      isError: true
-    };
+  const market = resolveMarket(params);
+  const listingUrl = buildListingUrl(params, market);
+
+  log('info', 'Fetching listing details', { id, checkin, checkout, adults, children });
+
+  const page = await loadAirbnbPage({
+    url: listingUrl,
+    kind: "listing details",
+    urlField: "listingUrl",
+    ignoreRobotsText,
+    cache: listingCache,
+    parse: (clientData, diagnostics) => parseListingDetails(clientData, String(id), listingUrl.toString(), diagnostics),
+    headers: market.headers,
+  });
+  if ("error" in page) {
+    return page.response;
   }
 
-  const allowSectionSchema: Record<string, any> = {
-    "LOCATION_DEFAULT": {
-      lat: true,
-      lng: true,
-      subtitle: true,
-      title: true
-    },
-    "POLICIES_DEFAULT": {
-      title: true,
-      houseRulesSections: {
-        title: true,
-        items : {
-          title: true
-        }
-      }
-    },
-    "HIGHLIGHTS_DEFAULT": {
-      highlights: {
-        title: true
-      }
+  log('info', 'Listing details fetched successfully', {
+    id,
+    amenityGroups: page.value.amenities.length,
+    houseRulesSections: page.value.houseRules.length,
+    photos: page.value.photos.length
+  });
+
+  const resourceUri = registerListingResource(page.value);
+
+  return {
+    content: [{
+      type: "text",
+      text: formatListingDetails(page.value, page.cache)
+    }],
+    structuredContent: {
+      listingUrl: listingUrl.toString(),
+      resourceUri,
+      details: page.value,
+      cache: page.cache
     },
-    "DESCRIPTION_DEFAULT": {
-      htmlDescription: {
-        htmlText: true
-      }
+    isError: false
+  };
+}
+
+async function handleAirbnbListingReviews(params: any) {
+  const {
+    id,
+    sortBy,
+    limit,
+    offset,
+    ignoreRobotsText = false,
+  } = params;
+
+  const validationErrors = [
+    ...validateReviewPageOptions({ sortBy, limit, offset }),
+    ...validateMarketOptions(params),
+  ];
+  if (validationErrors.length > 0) {
+    return invalidParameters("review", validationErrors);
+  }
+
+  const market = resolveMarket(params);
+  const listingUrl = new URL(`${market.baseUrl}/rooms/${id}`);
+  // The reviews modal route renders more reviews than the listing page itself
+  const reviewsUrl = new URL(`${market.baseUrl}/rooms/${id}/reviews`);
+  applyMarket(reviewsUrl, market);
+
+  log('info', 'Fetching listing reviews', { id, sortBy, limit, offset });
+
+  const page = await loadAirbnbPage({
+    url: reviewsUrl,
+    kind: "listing reviews",
+    urlField: "reviewsUrl",
+    ignoreRobotsText,
+    cache: reviewsCache,
+    parse: (clientData, diagnostics) => parseListingReviews(clientData, String(id), listingUrl.toString(), diagnostics),
+    headers: market.headers,
+  });
+  if ("error" in page) {
+    return page.response;
+  }
+
+  const listing = page.value;
+  const selected = pageFetchedReviews(listing.reviews, listing.reviewCount, { sortBy, limit, offset });
+
+  log('info', 'Listing reviews fetched successfully', {
+    id,
+    reviewsOnPage: listing.reviews.length,
+    reviewCount: listing.reviewCount,
+    returned: selected.reviews.length
+  });
+
+  return {
+    content: [{
+      type: "text",
+      text: formatListingReviews(listing, selected, page.cache)
+    }],
+    structuredContent: {
+      listingUrl: listingUrl.toString(),
+      reviewsUrl: reviewsUrl.toString(),
+      overallRating: listing.overallRating,
+      reviewCount: listing.reviewCount,
+      categoryRatings: listing.categoryRatings,
+      ...selected,
+      ...(listing.warnings && { warnings: listing.warnings }),
+      cache: page.cache
     },
-    "AMENITIES_DEFAULT": {
-      title: true,
-      seeAllAmenitiesGroups: {
-        title: true,
-        amenities: {
-          title: true
-        }
-      }
+    isError: false
+  };
+}
+
+async function handleAirbnbListingAvailability(params: any) {
+  const {
+    id,
+    startMonth = currentMonth(),
+    months = DEFAULT_CALENDAR_MONTHS,
+    stayLength,
+    ignoreRobotsText = false,
+  } = params;
+
+  const validationErrors = [
+    ...validateAvailabilityOptions({ startMonth, months, stayLength }),
+    ...validateMarketOptions(params),
+  ];
+  if (validationErrors.length > 0) {
+    return invalidParameters("availability", validationErrors);
+  }
+
+  const market = resolveMarket(params);
+  const listingUrl = new URL(`${market.baseUrl}/rooms/${id}`);
+  const calendarUrl = buildCalendarUrl(market, String(id), startMonth, months);
+
+  log('info', 'Fetching listing availability', { id, startMonth, months, stayLength });
+
+  const page = await loadAirbnbPage({
+    url: calendarUrl,
+    kind: "listing availability",
+    urlField: "calendarUrl",
+    ignoreRobotsText,
+    cache: availabilityCache,
+    parse: (response, diagnostics) => parseListingAvailability(response, String(id), listingUrl.toString(), market.currency, diagnostics),
+    extract: body => JSON.parse(body),
+    headers: { ...CALENDAR_API_HEADERS, ...market.headers },
+  });
+  if ("error" in page) {
+    return page.response;
+  }
+
+  const availability = page.value;
+  const stayWindows = stayLength !== undefined ? findStayWindows(availability.nights, stayLength) : undefined;
+  const availableNights = availability.nights.filter(night => night.available).length;
+
+  log('info', 'Listing availability fetched successfully', {
+    id,
+    nights: availability.nights.length,
+    availableNights,
+    stayWindows: stayWindows?.length
+  });
+
+  return {
+    content: [{
+      type: "text",
+      text: formatListingAvailability(availability, stayLength, stayWindows, page.cache)
+    }],
+    structuredContent: {
+      listingUrl: listingUrl.toString(),
+      calendarUrl: calendarUrl.toString(),
+      startMonth,
+      months,
+      availableNights,
+      nights: availability.nights,
+      stayLength,
+      stayWindows,
+      ...(availability.warnings && { warnings: availability.warnings }),
+      cache: page.cache
     },
+    isError: false
   };
+}
 
-  try {
-    log('info', 'Fetching listing details', { id, checkin, checkout, adults, children });
+// Shared by airbnb_price_quote and airbnb_watch_listing
+function validatePriceQuoteParams(params: any): string[] {
+  const { checkin, checkout } = params;
+  return [
+    ...(!checkin || !checkout
+      ? ["checkin and checkout are both required for a price quote"]
+      : validateSearchDates({ checkin, checkout })),
+    ...validateMarketOptions(params),
+  ];
+}
 
-    const response = await fetchWithUserAgent(listingUrl.toString());
-    const html = await response.text();
-    const $ = cheerio.load(html);
+async function handleAirbnbPriceQuote(params: any) {
+  const {
+    id,
+    checkin,
+    checkout,
+    adults = GUEST_DEFAULTS.adults,
+    children = GUEST_DEFAULTS.children,
+    ignoreRobotsText = false,
+  } = params;
 
-    let details = {};
+  const validationErrors = validatePriceQuoteParams(params);
+  if (validationErrors.length > 0) {
+    return invalidParameters("price quote", validationErrors);
+  }
 
-    try {
-      const scriptElement = $("#data-deferred-state-0").first();
-      if (scriptElement.length === 0) {
-        throw new Error("Could not find data script element - page structure may have changed");
-      }
+  const market = resolveMarket(params);
+  const listingUrl = buildListingUrl(params, market);
+
+  log('info', 'Fetching price quote', { id, checkin, checkout, adults, children });
+
+  const page = await loadAirbnbPage({
+    url: listingUrl,
+    kind: "price quote",
+    urlField: "listingUrl",
+    ignoreRobotsText,
+    cache: quoteCache,
+    parse: (clientData, diagnostics) => parsePriceQuote(clientData, {
+      id: String(id),
+      url: listingUrl.toString(),
+      checkin,
+      checkout
+    }, market.currency, diagnostics),
+    headers: market.headers,
+  });
+  if ("error" in page) {
+    return page.response;
+  }
 
-      const scriptContent = $(scriptElement).text();
-      if (!scriptContent) {
-        throw new Error("Data script element is empty");
-      }
+  const { id: _id, url: _url, ...quote } = page.value;
 
-      const clientData = JSON.parse(scriptContent).niobeClientData[0][1];
-      const sections = clientData.data.presentation.stayProductDetailPage.sections.sections;
-      sections.forEach((section: any) => cleanObject(section));
-
-      details = sections
-        .filter((section: any) => allowSectionSchema.hasOwnProperty(section.sectionId))
-        .map((section: any) => {
-          return {
-            id: section.sectionId,
-            ...flattenArraysInObject(pickBySchema(section.section, allowSectionSchema[section.sectionId]))
-          }
-        });
+  log('info', 'Price quote fetched successfully', {
+    id,
+    available: quote.available,
+    total: quote.total,
+    currency: quote.currency
+  });
 
-      log('info', 'Listing details fetched successfully', {
-        id,
-        sectionsFound: Array.isArray(details) ? details.length : 0
-      });
-    } catch (parseError) {
-      log('error', 'Failed to parse listing details', {
-        error: parseError instanceof Error ? parseError.message : String(parseError),
-        id,
-        url: listingUrl.toString()
-      });
+  return {
+    content: [{
+      type: "text",
+      text: formatPriceQuote(page.value, page.cache)
+    }],
+    structuredContent: {
+      listingUrl: listingUrl.toString(),
+      ...quote,
+      cache: page.cache
+    },
+    isError: false
+  };
+}
 
-      return {
-        content: [{
-          type: "text",
-          text: JSON.stringify({
-            error: "Failed to parse listing details from Airbnb. The page structure may have changed.",
-            details: parseError instanceof Error ? parseError.message : String(parseError),
-            listingUrl: listingUrl.toString()
-          }, null, 2)
-        }],
-        isError: true
-      };
+async function handleAirbnbCompareListings(params: any) {
+  const {
+    ids,
+    checkin,
+    checkout,
+    ignoreRobotsText = false,
+  } = params;
+
+  const validationErrors = [
+    ...validateCompareIds(ids),
+    ...validateSearchDates({ checkin, checkout }),
+    ...(Boolean(checkin) !== Boolean(checkout) ? ["checkin and checkout must be given together"] : []),
+    ...validateMarketOptions(params),
+  ];
+  if (validationErrors.length > 0) {
+    return invalidParameters("comparison", validationErrors);
+  }
+
+  const market = resolveMarket(params);
+  const priced = Boolean(checkin && checkout);
+  const uniqueIds: string[] = [...new Set<string>(ids.map(String))];
+
+  log('info', 'Comparing listings', { ids: uniqueIds, checkin, checkout });
+
+  let fromCache = 0;
+  let oldestCachedSeconds = 0;
+
+  // Each listing succeeds or fails on its own; one bad id doesn't sink the comparison
+  const compareOne = async (id: string): Promise<ComparedListing> => {
+    const listingUrl = buildListingUrl({ ...params, id }, market);
+    const page = await loadAirbnbPage({
+      url: listingUrl,
+      kind: "listing comparison",
+      urlField: "listingUrl",
+      ignoreRobotsText,
+      cache: comparisonCache,
+      parse: (clientData, diagnostics) => ({
+        details: parseListingDetails(clientData, id, listingUrl.toString(), diagnostics),
+        quote: priced ? parseComparisonQuote(clientData, id, listingUrl, checkin, checkout, market) : undefined,
+      }),
+      headers: market.headers,
+    });
+    if ("error" in page) {
+      return failedListing(id, listingUrl.toString(), page.error, page.errorType);
     }
 
-    return {
-      content: [{
-        type: "text",
-        text: JSON.stringify({
-          listingUrl: listingUrl.toString(),
-          details: details
-        }, null, 2)
-      }],
-      isError: false
-    };
+    if (page.cache.hit) {
+      fromCache++;
+      oldestCachedSeconds = Math.max(oldestCachedSeconds, page.cache.ageSeconds);
+    }
+    return compareListing(page.value, priced);
+  };
+
+  const comparison = buildComparison(await mapWithConcurrency(uniqueIds, COMPARE_CONCURRENCY, compareOne));
+  const cache = { hit: comparison.succeeded > 0 && fromCache === comparison.succeeded, ageSeconds: oldestCachedSeconds };
+
+  log('info', 'Listing comparison completed', {
+    succeeded: comparison.succeeded,
+    failed: comparison.failed
+  });
+
+  // Only fail the call when there is nothing to compare
+  return {
+    content: [{
+      type: "text",
+      text: formatListingComparison(comparison, cache)
+    }],
+    structuredContent: {
+      checkin,
+      checkout,
+      ...comparison,
+      cache
+    },
+    isError: comparison.succeeded === 0
+  };
+}
+
+// A comparison still shows the other fields when the booking sidebar can't be priced
+function parseComparisonQuote(clientData: any, id: string, listingUrl: URL, checkin: string, checkout: string, market: Market) {
+  try {
+    return parsePriceQuote(clientData, { id, url: listingUrl.toString(), checkin, checkout }, market.currency);
   } catch (error) {
-    log('error', 'Listing details request failed', {
-      error: error instanceof Error ? error.message : String(error),
+    log('warn', 'Could not price listing for comparison', {
       id,
-      url: listingUrl.toString()
+      error: error instanceof Error ? error.message : String(error)
     });
+    return undefined;
+  }
+}
 
-    return {
-      content: [{
-        type: "text",
-        text: JSON.stringify({
-          error: error instanceof Error ? error.message : String(error),
-          listingUrl: listingUrl.toString(),
-          timestamp: new Date().toISOString()
-        }, null, 2)
-      }],
-      isError: true
+function watchlistResponse(summary: ReturnType<typeof summarizeWatchlist>) {
+  return {
+    content: [{
+      type: "text",
+      text: formatWatchlist(summary)
+    }],
+    structuredContent: summary,
+    isError: false
+  };
+}
+
+async function handleSaveSearch(params: any) {
+  const { name, search } = params;
+
+  const validationErrors = [
+    ...validateWatchName(name),
+    ...(typeof search !== "object" || search === null || Array.isArray(search)
+      ? ["search must be an object of airbnb_search arguments"]
+      : validateSearchParams(search)),
+  ];
+  if (validationErrors.length > 0) {
+    return invalidParameters("saved search", validationErrors);
+  }
+
+  const { cursor: _cursor, ...searchParams } = search;
+
+  const outcome = await updateWatchlist(watchlist => {
+    if (findWatch(watchlist, name) === "stay") {
+      return { ok: false as const, conflict: `"${name}" is already the name of a watched listing` };
+    }
+    const existing = findWatch(watchlist, name) === "search" ? watchlist.searches[name] : undefined;
+    // Tracked listings only carry over when the search itself is unchanged
+    const unchanged = existing && JSON.stringify(existing.params) === JSON.stringify(searchParams);
+    watchlist.searches[name] = {
+      name,
+      params: searchParams,
+      createdAt: existing?.createdAt ?? new Date().toISOString(),
+      ...(unchanged && { lastCheckedAt: existing.lastCheckedAt }),
+      listings: unchanged ? existing.listings : {}
     };
+    return { ok: true as const, summary: summarizeWatchlist(watchlist) };
+  });
+  if (!outcome.ok) {
+    return invalidParameters("saved search", [outcome.conflict]);
   }
+
+  log('info', 'Saved search', { name, file: WATCHLIST_FILE });
+  return watchlistResponse(outcome.summary);
 }
 
-// Server setup
-const server = new Server(
-  {
-    name: "airbnb",
-    version: VERSION,
-  },
-  {
-    capabilities: {
-      tools: {},
-    },
-  },
-);
+async function handleWatchListing(params: any) {
+  const { id, checkin, checkout } = params;
+  const name = params.name ?? `${id} ${checkin}..${checkout}`;
+
+  const validationErrors = [
+    ...(id === undefined || id === "" ? ["id is required"] : []),
+    ...validateWatchName(name),
+    ...validatePriceQuoteParams(params),
+  ];
+  if (validationErrors.length > 0) {
+    return invalidParameters("watch", validationErrors);
+  }
 
-// Enhanced logging for DXT
-function log(level: 'info' | 'warn' | 'error', message: string, data?: any) {
-  const timestamp = new Date().toISOString();
-  const logMessage = `[${timestamp}] [${level.toUpperCase()}] ${message}`;
+  const { name: _name, ...quoteParams } = params;
 
-  if (data) {
-    console.error(`${logMessage}:`, JSON.stringify(data, null, 2));
-  } else {
-    console.error(logMessage);
+  const outcome = await updateWatchlist(watchlist => {
+    if (findWatch(watchlist, name) === "search") {
+      return { ok: false as const, conflict: `"${name}" is already the name of a saved search` };
+    }
+    const existing = findWatch(watchlist, name) === "stay" ? watchlist.stays[name] : undefined;
+    const unchanged = existing && JSON.stringify(existing.params) === JSON.stringify(quoteParams);
+    watchlist.stays[name] = {
+      name,
+      params: quoteParams,
+      createdAt: existing?.createdAt ?? new Date().toISOString(),
+      ...(unchanged && { lastCheckedAt: existing.lastCheckedAt }),
+      history: unchanged ? existing.history : []
+    };
+    return { ok: true as const, summary: summarizeWatchlist(watchlist) };
+  });
+  if (!outcome.ok) {
+    return invalidParameters("watch", [outcome.conflict]);
   }
+
+  log('info', 'Watching listing', { name, id, checkin, checkout, file: WATCHLIST_FILE });
+  return watchlistResponse(outcome.summary);
 }
 
-log('info', 'Airbnb MCP Server starting', {
-  version: VERSION,
-  ignoreRobotsTxt: IGNORE_ROBOTS_TXT,
-  nodeVersion: process.version,
-  platform: process.platform
-});
+async function handleListWatches() {
+  return watchlistResponse(summarizeWatchlist(await readWatchlist()));
+}
 
-// Set up request handlers
-server.setRequestHandler(ListToolsRequestSchema, async () => ({
-  tools: AIRBNB_TOOLS,
-}));
+async function handleRemoveWatch(params: { name?: unknown }) {
+  const validationErrors = validateWatchName(params.name);
+  if (validationErrors.length > 0) {
+    return invalidParameters("remove watch", validationErrors);
+  }
+  const name = params.name as string;
+  const notFound = [`Nothing named ${JSON.stringify(name)} in the watch list`];
+
+  // Look before taking the write lock, so removing a name that isn't there leaves the file alone
+  if (!findWatch(await readWatchlist(), name)) {
+    return invalidParameters("remove watch", notFound);
+  }
 
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  const startTime = Date.now();
+  const { type, summary } = await updateWatchlist(watchlist => {
+    const type = findWatch(watchlist, name);
+    if (type === "search") delete watchlist.searches[name];
+    if (type === "stay") delete watchlist.stays[name];
+    return { type, summary: summarizeWatchlist(watchlist) };
+  });
+  if (!type) {
+    // Removed by another call in the meantime
+    return invalidParameters("remove watch", notFound);
+  }
 
+  log('info', 'Removed from watch list', { name, type });
+  return watchlistResponse(summary);
+}
+
+// Error fields from a tool error response, for reporting one failed check among many
+function failureOf(result: any): { error: string; errorType?: string } {
   try {
-    // Validate request parameters
-    if (!request.params.name) {
-      throw new McpError(ErrorCode.InvalidParams, "Tool name is required");
+    const { error, errorType, details } = JSON.parse(result.content[0].text);
+    return { error: details ? `${error}: ${[].concat(details).join("; ")}` : error, ...(errorType && { errorType }) };
+  } catch {
+    return { error: String(result.content?.[0]?.text ?? "unknown error") };
+  }
+}
+
+async function handleCheckWatches(params: any) {
+  const { names } = params;
+
+  const current = await readWatchlist();
+  const validationErrors = names === undefined
+    ? []
+    : !Array.isArray(names)
+      ? ["names must be an array of watch list names"]
+      : names.filter(name => !findWatch(current, name)).map(name => `Nothing named ${JSON.stringify(name)} in the watch list`);
+  if (validationErrors.length > 0) {
+    return invalidParameters("check watches", validationErrors);
+  }
+
+  log('info', 'Checking watch list', { names: names ?? "all" });
+
+  // Fetch from a snapshot without holding the watch list lock, which can take
+  // minutes under request pacing; checks run one at a time, and the scheduler
+  // paces the fetches either way
+  const selected: string[] = names ?? [...Object.keys(current.searches), ...Object.keys(current.stays)];
+  const fetched: { type: "search" | "stay"; name: string; checkedAt: string; result: any }[] = [];
+  for (const name of selected) {
+    const type = findWatch(current, name)!;
+    const checkedAt = new Date().toISOString();
+    const result = type === "search"
+      ? await handleAirbnbSearch(current.searches[name].params)
+      : await handleAirbnbPriceQuote(current.stays[name].params);
+    fetched.push({ type, name, checkedAt, result });
+  }
+
+  // Then record the results in one short update. Entries removed or changed
+  // meanwhile are compared against the snapshot but not written back.
+  const checks = await updateWatchlist(watchlist => fetched.map(({ type, name, checkedAt, result }): WatchCheck => {
+    if (result.isError) {
+      return { type, name, checkedAt, ...failureOf(result) };
     }
 
-    if (!request.params.arguments) {
-      throw new McpError(ErrorCode.InvalidParams, "Tool arguments are required");
+    const sameParams = (entry: { params: any }, snapshot: { params: any }) =>
+      JSON.stringify(entry.params) === JSON.stringify(snapshot.params);
+    if (type === "search") {
+      const snapshot = current.searches[name];
+      const search = findWatch(watchlist, name) === "search" && sameParams(watchlist.searches[name], snapshot)
+        ? watchlist.searches[name]
+        : snapshot;
+      return recordSearchCheck(search, result.structuredContent.searchResults, checkedAt);
     }
+    const snapshot = current.stays[name];
+    const stay = findWatch(watchlist, name) === "stay" && sameParams(watchlist.stays[name], snapshot)
+      ? watchlist.stays[name]
+      : snapshot;
+    return recordStayCheck(stay, {
+      ...result.structuredContent,
+      id: String(stay.params.id),
+      url: result.structuredContent.listingUrl
+    }, checkedAt);
+  }));
+
+  const failed = checks.filter(check => "error" in check).length;
+
+  log('info', 'Watch list checked', { checked: checks.length, failed });
+
+  return {
+    content: [{
+      type: "text",
+      text: formatWatchChecks(checks)
+    }],
+    structuredContent: {
+      checks,
+      succeeded: checks.length - failed,
+      failed
+    },
+    isError: checks.length > 0 && failed === checks.length
+  };
+}
+
+// Resources
 
-    log('info', 'Tool call received', {
-      tool: request.params.name,
-      arguments: request.params.arguments
+function notifyResourceListChanged() {
+  for (const server of connectedServers) {
+    server.sendResourceListChanged().catch(error => {
+      log('warn', 'Could not send resource list change', { error: error instanceof Error ? error.message : String(error) });
     });
+  }
+}
 
-    // Ensure robots.txt is loaded
-    if (!robotsTxtContent && !IGNORE_ROBOTS_TXT) {
-      await fetchRobotsTxt();
-    }
+function notifyResourceUpdated(uri: string) {
+  for (const server of resourceRegistry.subscribers(uri)) {
+    server.sendResourceUpdated({ uri }).catch(error => {
+      log('warn', 'Could not send resource update', { uri, error: error instanceof Error ? error.message : String(error) });
+    });
+  }
+}
 
-    let result;
-    switch (request.params.name) {
-      case "airbnb_search": {
-        result = await handleAirbnbSearch(request.params.arguments);
-        break;
-      }
+function registerListingResource(details: ListingDetails): string {
+  const uri = listingUri(details.id);
+  const added = resourceRegistry.register({
+    uri,
+    name: `listing-${details.id}`,
+    title: details.title ?? `Listing ${details.id}`,
+    description: details.location?.subtitle ?? details.location?.title,
+    mimeType: "application/json"
+  });
+  if (added) notifyResourceListChanged();
+  return uri;
+}
 
-      case "airbnb_listing_details": {
-        result = await handleAirbnbListingDetails(request.params.arguments);
-        break;
+function describeSearch(params: any): string {
+  const place = params.location ?? (params.radius ? `${params.radius.radiusKm} km around a point` : "map area");
+  const dates = params.checkin && params.checkout ? ` ${params.checkin} to ${params.checkout}` : "";
+  return `Search: ${place}${dates}`;
+}
+
+// The search a resource stands for. Reading a resource re-runs it, so a
+// one-off robots.txt override must not be kept with it
+function resourceSearch(params: any) {
+  const { cursor: _cursor, ignoreRobotsText: _ignoreRobotsText, ...search } = params;
+  return search;
+}
+
+function registerSearchResource(params: any): string {
+  const search = resourceSearch(params);
+  const hash = searchHash(search);
+  const uri = searchUri(hash);
+  const added = resourceRegistry.registerSearch(hash, search, {
+    uri,
+    name: `search-${hash}`,
+    title: describeSearch(search),
+    mimeType: "application/json"
+  });
+  if (added) notifyResourceListChanged();
+  return uri;
+}
+
+// Saved searches are resources too, even before they run this session
+async function savedSearchResources() {
+  const watchlist = await readWatchlist();
+  return Object.values(watchlist.searches).map(saved => {
+    const search = resourceSearch(saved.params);
+    const hash = searchHash(search);
+    return {
+      hash,
+      params: search,
+      resource: {
+        uri: searchUri(hash),
+        name: `search-${hash}`,
+        title: `${describeSearch(search)} (saved as "${saved.name}")`,
+        mimeType: "application/json"
       }
+    };
+  });
+}
 
-      default:
-        throw new McpError(
-          ErrorCode.MethodNotFound,
-          `Unknown tool: ${request.params.name}`
-        );
-    }
+async function listResources() {
+  const known = resourceRegistry.list();
+  const saved = (await savedSearchResources())
+    .map(entry => entry.resource)
+    .filter(resource => !known.some(item => item.uri === resource.uri));
+  return [...known, ...saved];
+}
 
-    const duration = Date.now() - startTime;
-    log('info', 'Tool call completed', {
-      tool: request.params.name,
-      duration: `${duration}ms`,
-      success: !result.isError
-    });
+// Resource contents leave out cache status so they only change when the data does
+async function resourceText(uri: string): Promise<string> {
+  const ref = parseResourceUri(uri);
+  if (!ref) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+  }
 
-    return result;
-  } catch (error) {
-    const duration = Date.now() - startTime;
-    log('error', 'Tool call failed', {
-      tool: request.params.name,
-      duration: `${duration}ms`,
-      error: error instanceof Error ? error.message : String(error)
+  if (ref.type === "listing") {
+    const market = resolveMarket({});
+    const listingUrl = buildListingUrl({ id: ref.id }, market);
+    const page = await loadAirbnbPage({
+      url: listingUrl,
+      kind: "listing details",
+      urlField: "listingUrl",
+      ignoreRobotsText: false,
+      cache: listingCache,
+      parse: (clientData, diagnostics) => parseListingDetails(clientData, ref.id, listingUrl.toString(), diagnostics),
+      headers: market.headers,
     });
+    if ("error" in page) {
+      throw new McpError(ErrorCode.InternalError, `Could not load ${uri}: ${page.error}`);
+    }
+    registerListingResource(page.value);
+    return JSON.stringify(page.value, null, 2);
+  }
 
-    if (error instanceof McpError) {
-      throw error;
+  const params = resourceRegistry.searchParams(ref.hash)
+    ?? (await savedSearchResources()).find(entry => entry.hash === ref.hash)?.params;
+  if (!params) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown search resource ${uri}; run airbnb_search first to get its resourceUri`);
+  }
+  const result: any = await handleAirbnbSearch(params);
+  if (result.isError) {
+    throw new McpError(ErrorCode.InternalError, `Could not load ${uri}: ${failureOf(result).error}`);
+  }
+  const { cache: _cache, ...results } = result.structuredContent;
+  return JSON.stringify(results, null, 2);
+}
+
+async function readResource(uri: string) {
+  const text = await resourceText(uri);
+  resourceRegistry.recordContent(uri, text);
+  return { contents: [{ uri, mimeType: "application/json", text }] };
+}
+
+// Re-fetch subscribed resources and notify subscribers of the ones that changed.
+// Fetches go through the response cache, so this never polls faster than its TTL.
+async function refreshSubscribedResources() {
+  for (const uri of resourceRegistry.subscribed()) {
+    try {
+      if (resourceRegistry.recordContent(uri, await resourceText(uri))) {
+        log('info', 'Subscribed resource changed', { uri });
+        notifyResourceUpdated(uri);
+      }
+    } catch (error) {
+      log('warn', 'Could not refresh subscribed resource', {
+        uri,
+        error: error instanceof Error ? error.message : String(error)
+      });
     }
+  }
+}
 
-    return {
-      content: [{
-        type: "text",
-        text: JSON.stringify({
-          error: error instanceof Error ? error.message : String(error),
-          timestamp: new Date().toISOString()
-        }, null, 2)
-      }],
-      isError: true
-    };
+function startResourceRefresh() {
+  if (RESOURCE_CONFIG.refreshIntervalMs <= 0) return;
+  const timer = setInterval(() => {
+    void refreshSubscribedResources();
+  }, RESOURCE_CONFIG.refreshIntervalMs);
+  timer.unref();
+}
+
+async function handleRobotsStatus(params: any) {
+  const { url, includeRules = false } = params;
+
+  // Absolute URLs on a regional domain are checked against that domain's robots.txt;
+  // other hosts are refused so the tool can't be used to fetch arbitrary addresses
+  let origin = BASE_URL;
+  if (url !== undefined) {
+    try {
+      origin = new URL(url, BASE_URL).origin;
+    } catch {
+      return invalidParameters("robots status", [`url must be an Airbnb URL or path, got ${JSON.stringify(url)}`]);
+    }
+    if (!isMarketOrigin(origin)) {
+      return invalidParameters("robots status", [`url must be on an Airbnb site such as www.airbnb.com or www.airbnb.fr, got ${origin}`]);
+    }
   }
+  const policy = url !== undefined ? robotsPolicyFor(origin) : robotsPolicy;
+  await policy.ensureLoaded();
+
+  const structuredContent = {
+    ...policy.status(includeRules),
+    ...(url && { check: policy.check(url) })
+  };
+
+  return {
+    content: [{
+      type: "text",
+      text: JSON.stringify(structuredContent, null, 2)
+    }],
+    structuredContent,
+    isError: false
+  };
+}
+
+// Tool dispatch, shared by every transport
+const TOOL_HANDLERS: Record<string, (args: any) => Promise<any>> = {
+  airbnb_search: handleAirbnbSearch,
+  airbnb_listing_details: handleAirbnbListingDetails,
+  airbnb_listing_reviews: handleAirbnbListingReviews,
+  airbnb_listing_availability: handleAirbnbListingAvailability,
+  airbnb_price_quote: handleAirbnbPriceQuote,
+  airbnb_compare_listings: handleAirbnbCompareListings,
+  airbnb_save_search: handleSaveSearch,
+  airbnb_watch_listing: handleWatchListing,
+  airbnb_list_watches: handleListWatches,
+  airbnb_remove_watch: handleRemoveWatch,
+  airbnb_check_watches: handleCheckWatches,
+  airbnb_robots_status: handleRobotsStatus,
+};
+
+log('info', 'Airbnb MCP Server starting', {
+  version: VERSION,
+  ignoreRobotsTxt: IGNORE_ROBOTS_TXT,
+  fetchMode: FETCH_MODE,
+  configFile: CONFIG_FILE ?? 'none',
+  market: MARKET_DEFAULTS,
+  guests: GUEST_DEFAULTS,
+  cache: CACHE_CONFIG,
+  requests: REQUEST_CONFIG,
+  resources: RESOURCE_CONFIG,
+  ...(FETCH_MODE !== "live" && { fixturesDir: FIXTURES_DIR }),
+  watchlistFile: WATCHLIST_FILE,
+  nodeVersion: process.version,
+  platform: process.platform
 });
 
-// 개선된 HTTP 핸들러
-function createHttpHandler() {
-  return async (req, res) => {
-    const parsedUrl = new URL(req.url || '', `http://${req.headers.host}`);
-
-    // Set CORS headers
-    res.setHeader('Access-Control-Allow-Origin', '*');
-    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-    res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
-    res.setHeader('Content-Type', 'application/json');
-
-    if (req.method === 'OPTIONS') {
-      res.writeHead(200);
-      res.end();
-      return;
+// Servers with a connected client: one for stdio, one per HTTP session
+const connectedServers = new Set<Server>();
+
+// Server setup. Every transport gets a Server with the same handlers.
+function createServer(): Server {
+  const server = new Server(
+    {
+      name: "airbnb",
+      version: VERSION,
+    },
+    {
+      capabilities: {
+        tools: {},
+        resources: {
+          subscribe: true,
+          listChanged: true,
+        },
+        prompts: {},
+      },
+    },
+  );
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: AIRBNB_TOOLS,
+  }));
+
+  server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+    resources: await listResources(),
+  }));
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+    resourceTemplates: RESOURCE_TEMPLATES,
+  }));
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    log('info', 'Resource read', { uri: request.params.uri });
+    return readResource(request.params.uri);
+  });
+
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    const { uri } = request.params;
+    if (!parseResourceUri(uri)) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
     }
+    resourceRegistry.subscribe(uri, server);
+    log('info', 'Resource subscribed', { uri });
+    return {};
+  });
 
-    if (parsedUrl.pathname === '/mcp' && req.method === 'POST') {
-      let body = '';
-
-      // Set timeout for request
-      const timeout = setTimeout(() => {
-        if (!res.headersSent) {
-          res.writeHead(408);
-          res.end(JSON.stringify({
-            jsonrpc: '2.0',
-            error: {
-              code: -32000,
-              message: 'Request timeout'
-            }
-          }));
-        }
-      }, 60000); // 60 second timeout
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    resourceRegistry.unsubscribe(request.params.uri, server);
+    log('info', 'Resource unsubscribed', { uri: request.params.uri });
+    return {};
+  });
 
-      req.on('data', chunk => {
-        body += chunk.toString();
-      });
+  server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+    prompts: AIRBNB_PROMPTS,
+  }));
 
-      req.on('end', async () => {
-        clearTimeout(timeout);
-
-        try {
-          const request = JSON.parse(body);
-          log('info', 'HTTP request received', { method: request.method });
-
-          let response = {
-            jsonrpc: '2.0',
-            id: request.id || 1
-          };
-
-          try {
-            if (request.method === 'tools/list') {
-              response.result = { tools: AIRBNB_TOOLS };
-            } else if (request.method === 'tools/call') {
-              const { name, arguments: args } = request.params;
-              let result;
-
-              switch (name) {
-                case 'airbnb_search':
-                  result = await handleAirbnbSearch(args);
-                  break;
-                case 'airbnb_listing_details':
-                  result = await handleAirbnbListingDetails(args);
-                  break;
-                default:
-                  throw new Error(`Unknown tool: ${name}`);
-              }
-
-              response.result = result;
-            } else {
-              response.error = {
-                code: -32601,
-                message: `Method not found: ${request.method}`
-              };
-            }
-          } catch (methodError) {
-            log('error', 'Method execution failed', {
-              error: methodError instanceof Error ? methodError.message : String(methodError)
-            });
-
-            response.error = {
-              code: -32000,
-              message: methodError instanceof Error ? methodError.message : String(methodError)
-            };
-          }
-
-          if (!res.headersSent) {
-            res.writeHead(200);
-            res.end(JSON.stringify(response));
-          }
-
-        } catch (parseError) {
-          log('error', 'JSON parse error', {
-            error: parseError instanceof Error ? parseError.message : String(parseError)
-          });
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    const { name, arguments: args = {} } = request.params;
+    const errors = validatePromptArguments(name, args);
+    if (errors.length > 0) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid arguments for prompt ${name}: ${errors.join("; ")}`);
+    }
+    log('info', 'Prompt requested', { name, arguments: args });
+    return buildPrompt(name, args);
+  });
 
-          if (!res.headersSent) {
-            res.writeHead(400);
-            res.end(JSON.stringify({
-              jsonrpc: '2.0',
-              error: {
-                code: -32700,
-                message: 'Parse error'
-              }
-            }));
-          }
-        }
+  // Every line logged while a tool call runs carries its trace id and the
+  // JSON-RPC request id, so one call can be picked out of interleaved logs
+  server.setRequestHandler(CallToolRequestSchema, (request, extra) => withLogContext({
+    traceId: randomUUID(),
+    requestId: extra.requestId,
+    sessionId: extra.sessionId,
+  }, async () => {
+    const startTime = Date.now();
+    const handler = Object.prototype.hasOwnProperty.call(TOOL_HANDLERS, request.params.name)
+      ? TOOL_HANDLERS[request.params.name]
+      : undefined;
+
+    // Unknown names share one label so callers can't create arbitrary series
+    const record = (status: "success" | "error") => {
+      const tool = handler ? request.params.name : "unknown";
+      toolCalls.inc({ tool, status });
+      toolCallDuration.observe({ tool }, (Date.now() - startTime) / 1000);
+    };
+
+    try {
+      // Validate request parameters
+      if (!request.params.name) {
+        throw new McpError(ErrorCode.InvalidParams, "Tool name is required");
+      }
+
+      if (!request.params.arguments) {
+        throw new McpError(ErrorCode.InvalidParams, "Tool arguments are required");
+      }
+
+      log('info', 'Tool call received', {
+        tool: request.params.name,
+        arguments: request.params.arguments
       });
 
-      req.on('error', (error) => {
-        clearTimeout(timeout);
-        log('error', 'Request error', {
-          error: error instanceof Error ? error.message : String(error)
-        });
+      // Ensure robots.txt is loaded
+      await robotsPolicy.ensureLoaded();
 
-        if (!res.headersSent) {
-          res.writeHead(500);
-          res.end(JSON.stringify({
-            jsonrpc: '2.0',
-            error: {
-              code: -32000,
-              message: 'Internal error'
-            }
-          }));
-        }
+      if (!handler) {
+        throw new McpError(
+          ErrorCode.MethodNotFound,
+          `Unknown tool: ${request.params.name}`
+        );
+      }
+      const result = await handler(request.params.arguments);
+
+      const duration = Date.now() - startTime;
+      record(result.isError ? "error" : "success");
+      log('info', 'Tool call completed', {
+        tool: request.params.name,
+        duration: `${duration}ms`,
+        success: !result.isError
       });
 
-    } else if (parsedUrl.pathname === '/health' && req.method === 'GET') {
-      res.writeHead(200);
-      res.end(JSON.stringify({
-        status: 'ok',
-        version: VERSION,
-        timestamp: new Date().toISOString()
-      }));
-    } else {
-      res.writeHead(404);
-      res.end(JSON.stringify({ error: 'Not Found' }));
+      return result;
+    } catch (error) {
+      const duration = Date.now() - startTime;
+      record("error");
+      log('error', 'Tool call failed', {
+        tool: request.params.name,
+        duration: `${duration}ms`,
+        error: error instanceof Error ? error.message : String(error)
+      });
+
+      if (error instanceof McpError) {
+        throw error;
+      }
+
+      return {
+        content: [{
+          type: "text" as const,
+          text: JSON.stringify({
+            error: error instanceof Error ? error.message : String(error),
+            timestamp: new Date().toISOString()
+          }, null, 2)
+        }],
+        isError: true
+      };
     }
+  }));
+
+  return server;
+}
+
+async function connectServer(server: Server, transport: Transport) {
+  server.onclose = () => {
+    connectedServers.delete(server);
+    resourceRegistry.removeSubscriber(server);
   };
+  await server.connect(transport);
+  connectedServers.add(server);
 }
 
 async function runServer() {
   try {
-    // Initialize robots.txt on startup
-    await fetchRobotsTxt();
+    // Settings are checked before anything starts, HTTP mode's included
+    assertValidConfig(validateMarketOptions({}).map(error => `default ${error}`));
+    const config = CONFIG.server.http ? loadHttpConfig() : undefined;
 
-    // Check if HTTP mode is requested
-    const httpMode = process.argv.includes('--http') || process.env.MCP_HTTP_MODE === 'true';
-    const port = parseInt(process.env.MCP_PORT || '8003');
+    // Initialize robots.txt on startup and keep it fresh
+    await robotsPolicy.refresh();
+    robotsPolicy.startAutoRefresh();
+    startResourceRefresh();
 
-    if (httpMode) {
+    if (config) {
       // HTTP transport
-      const http = await import('http');
-
-      const server_instance = http.createServer(createHttpHandler());
-
-      server_instance.listen(port, '127.0.0.1', () => {
+      const { handle, closeSessions } = createHttpHandler({
+        connect: transport => connectServer(createServer(), transport),
+        health: () => ({ version: VERSION }),
+        security: config.security,
+        sessions: config.sessions,
+        usage: usageTracker,
+        metrics,
+      });
+      // Clients get a 408 if a request hasn't fully arrived in time
+      const timeouts = { requestTimeout: config.requestTimeoutMs, headersTimeout: Math.min(config.requestTimeoutMs, 60000) };
+      const server_instance = config.tls
+        ? (await import('https')).createServer({ ...config.tls, ...timeouts }, handle)
+        : (await import('http')).createServer(timeouts, handle);
+
+      const origin = `${config.tls ? 'https' : 'http'}://${config.host.includes(':') ? `[${config.host}]` : config.host}:${config.port}`;
+      server_instance.listen(config.port, config.host, () => {
         log('info', 'Airbnb MCP Server running on HTTP', {
           version: VERSION,
-          port: port,
+          host: config.host,
+          port: config.port,
+          tls: Boolean(config.tls),
+          auth: config.security.tokens.length > 0 ? `${config.security.tokens.length} token(s)` : 'disabled',
+          allowedOrigins: config.security.allowedOrigins.length > 0 ? config.security.allowedOrigins : 'localhost pages only',
+          allowedHosts: config.security.allowedHosts.length > 0 ? config.security.allowedHosts : 'any',
+          quotas: usageTracker.enabled ? QUOTA_LIMITS : 'none',
           robotsRespected: !IGNORE_ROBOTS_TXT,
-          endpoint: `http://127.0.0.1:${port}/mcp`,
-          health: `http://127.0.0.1:${port}/health`
+          endpoint: `${origin}/mcp`,
+          health: `${origin}/health`,
+          usage: `${origin}/usage`,
+          metrics: `${origin}/metrics`
         });
+        if (!isLoopbackHost(config.host) && config.security.tokens.length === 0) {
+          log('warn', 'HTTP mode is reachable from other machines without authentication; set MCP_AUTH_TOKENS or MCP_AUTH_TOKENS_FILE');
+        }
+        if (config.security.allowedHosts.length === 0) {
+          log('warn', 'Host headers are not checked; set MCP_ALLOWED_HOSTS to the names clients use to guard against DNS rebinding');
+        }
       });
 
       // Handle server errors
@@ -901,11 +1915,13 @@ async function runServer() {
       });
 
       // Graceful shutdown handling
-      const shutdown = (signal) => {
+      const shutdown = (signal: string) => {
         log('info', `Received ${signal}, shutting down gracefully`);
-        server_instance.close(() => {
-          log('info', 'Server closed');
-          process.exit(0);
+        void closeSessions().finally(() => {
+          server_instance.close(() => {
+            log('info', 'Server closed');
+            process.exit(0);
+          });
         });
       };
 
@@ -914,8 +1930,7 @@ async function runServer() {
 
     } else {
       // Stdio transport (default)
-      const transport = new StdioServerTransport();
-      await server.connect(transport);
+      await connectServer(createServer(), new StdioServerTransport());
 
       log('info', 'Airbnb MCP Server running on stdio', {
         version: VERSION,
@@ -942,6 +1957,11 @@ async function runServer() {
   }
 }
 
+// --self-test checks the parsers against recorded fixtures instead of serving
+if (process.argv.includes('--self-test')) {
+  process.exit(runSelfTest(FIXTURES_DIR));
+}
+
 runServer().catch((error) => {
   log('error', 'Fatal error running server', {
     error: error instanceof Error ? error.message : String(error)
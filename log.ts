@@ -0,0 +1,54 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { CONFIG } from "./config.js";
+
+// Enhanced logging for DXT. Everything goes to stderr, since stdout carries
+// the MCP protocol over stdio. The text format is for people; the json
+// format prints one object per line for log collectors.
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+export type LogFormat = 'text' | 'json';
+
+const LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+export const LOG_CONFIG = CONFIG.logging;
+
+// Ids attached to every line logged while handling one request, e.g. the
+// trace id of a tool call and the JSON-RPC id it answers
+export type LogContext = Record<string, string | number | undefined>;
+
+const logContext = new AsyncLocalStorage<LogContext>();
+
+export function withLogContext<T>(context: LogContext, fn: () => T): T {
+  return logContext.run({ ...logContext.getStore(), ...context }, fn);
+}
+
+export function log(level: LogLevel, message: string, data?: any) {
+  if (LEVELS.indexOf(level) < LEVELS.indexOf(LOG_CONFIG.level)) return;
+
+  const timestamp = new Date().toISOString();
+  const context = Object.fromEntries(
+    Object.entries(logContext.getStore() ?? {}).filter(([, value]) => value !== undefined)
+  );
+
+  if (LOG_CONFIG.format === 'json') {
+    const entry: Record<string, unknown> = { time: timestamp, level, msg: message, ...context };
+    if (data !== undefined) {
+      // Data fields sit next to the standard ones, which they can't overwrite
+      const fields = data && typeof data === 'object' && !Array.isArray(data) ? data : { data };
+      for (const [key, value] of Object.entries(fields)) {
+        if (!(key in entry)) entry[key] = value;
+      }
+    }
+    console.error(JSON.stringify(entry));
+    return;
+  }
+
+  const ids = Object.entries(context).map(([key, value]) => `${key}=${value}`).join(' ');
+  const logMessage = `[${timestamp}] [${level.toUpperCase()}]${ids ? ` [${ids}]` : ''} ${message}`;
+
+  if (data) {
+    console.error(`${logMessage}:`, JSON.stringify(data, null, 2));
+  } else {
+    console.error(logMessage);
+  }
+}
@@ -0,0 +1,110 @@
+import { CONFIG } from "./config.js";
+
+// Currency, language and regional Airbnb domain for a request. Each can be set
+// per call or as a server default; unset values leave the choice to Airbnb.
+
+export interface MarketOptions {
+  currency?: string; // ISO 4217, e.g. "EUR"
+  locale?: string; // e.g. "fr", "ja" or "en-GB"
+  domain?: string; // e.g. "www.airbnb.fr"
+}
+
+export interface Market {
+  baseUrl: string;
+  currency?: string;
+  locale?: string;
+  headers: Record<string, string>;
+}
+
+export const DEFAULT_DOMAIN = "www.airbnb.com";
+
+export const MARKET_DEFAULTS: MarketOptions = {
+  currency: CONFIG.defaults.currency,
+  locale: CONFIG.defaults.locale,
+  domain: CONFIG.defaults.domain ?? DEFAULT_DOMAIN,
+};
+
+const CURRENCY_PATTERN = /^[A-Z]{3}$/;
+const LOCALE_PATTERN = /^[a-z]{2,3}(-[A-Z]{2})?$/;
+// Regional sites look like www.airbnb.fr, www.airbnb.co.uk or www.airbnb.com.au
+const DOMAIN_PATTERN = /^www\.airbnb\.(com|[a-z]{2}|co\.[a-z]{2}|com\.[a-z]{2})$/;
+
+export const MARKET_PROPERTIES = {
+  currency: {
+    type: "string",
+    description: "ISO 4217 currency for prices, e.g. EUR or JPY (default: the server setting, else Airbnb's choice)"
+  },
+  locale: {
+    type: "string",
+    description: "Language for listing text, e.g. fr, ja or en-GB"
+  },
+  domain: {
+    type: "string",
+    description: "Regional Airbnb site to query, e.g. www.airbnb.fr or www.airbnb.jp"
+  }
+};
+
+// "eur" -> "EUR", "fr-fr" -> "fr-FR", "airbnb.fr" -> "www.airbnb.fr"
+function normalizeOptions({ currency, locale, domain }: MarketOptions): MarketOptions {
+  const [language, region] = typeof locale === "string" ? locale.split(/[-_]/) : [];
+  return {
+    currency: typeof currency === "string" ? currency.toUpperCase() : currency,
+    locale: typeof locale === "string" ? [language.toLowerCase(), region?.toUpperCase()].filter(Boolean).join("-") : locale,
+    domain: typeof domain === "string"
+      ? domain.toLowerCase().replace(/^https?:\/\//, "").replace(/\/$/, "").replace(/^airbnb\./, "www.airbnb.")
+      : domain,
+  };
+}
+
+// Per-call options fall back to the server defaults field by field
+function mergeWithDefaults(options: MarketOptions): MarketOptions {
+  return normalizeOptions({
+    currency: options.currency ?? MARKET_DEFAULTS.currency,
+    locale: options.locale ?? MARKET_DEFAULTS.locale,
+    domain: options.domain ?? MARKET_DEFAULTS.domain,
+  });
+}
+
+export function validateMarketOptions(options: MarketOptions): string[] {
+  const { currency, locale, domain } = mergeWithDefaults(options);
+  const errors: string[] = [];
+  if (currency !== undefined && (typeof currency !== "string" || !CURRENCY_PATTERN.test(currency))) {
+    errors.push(`currency must be a three-letter ISO 4217 code such as EUR, got ${JSON.stringify(currency)}`);
+  }
+  if (locale !== undefined && (typeof locale !== "string" || !LOCALE_PATTERN.test(locale))) {
+    errors.push(`locale must be a language code such as fr or en-GB, got ${JSON.stringify(locale)}`);
+  }
+  if (domain !== undefined && (typeof domain !== "string" || !DOMAIN_PATTERN.test(domain))) {
+    errors.push(`domain must be an Airbnb site such as www.airbnb.fr, got ${JSON.stringify(domain)}`);
+  }
+  return errors;
+}
+
+// Callers validate first; this only resolves defaults and derives request headers
+export function resolveMarket(options: MarketOptions): Market {
+  const { currency, locale, domain = DEFAULT_DOMAIN } = mergeWithDefaults(options);
+
+  const headers: Record<string, string> = {};
+  if (locale) {
+    const language = locale.split("-")[0];
+    headers["Accept-Language"] = language !== locale ? `${locale},${language};q=0.9` : locale;
+  }
+
+  // Requests for the default domain go to the configured base URL, if there is one
+  const baseUrl = CONFIG.airbnb.baseUrl && domain === mergeWithDefaults({}).domain ? CONFIG.airbnb.baseUrl : `https://${domain}`;
+
+  return { baseUrl, currency, locale, headers };
+}
+
+// Origins requests may go to: the default market's and any regional Airbnb site
+export function isMarketOrigin(origin: string): boolean {
+  if (origin === resolveMarket({}).baseUrl) return true;
+  const match = origin.match(/^https:\/\/([^/:]+)$/);
+  return Boolean(match && DOMAIN_PATTERN.test(match[1]));
+}
+
+// Airbnb honors these on every page, so the response cache keys differ per market too
+export function applyMarket(url: URL, market: Market) {
+  if (market.currency) url.searchParams.set("currency", market.currency);
+  if (market.locale) url.searchParams.set("locale", market.locale);
+}
@@ -0,0 +1,136 @@
+// Counters and histograms for /metrics, rendered in the Prometheus text
+// exposition format. Small enough not to need a client library.
+
+type Labels = Record<string, string>;
+
+interface Metric {
+  render(): string[];
+}
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabel(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+// Series are keyed by their label values in the metric's label order
+function seriesKey(labelNames: string[], labels: Labels): string {
+  return JSON.stringify(labelNames.map(name => labels[name] ?? ""));
+}
+
+export class Counter implements Metric {
+  private readonly series = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(readonly name: string, readonly help: string, private readonly labelNames: string[] = []) {}
+
+  inc(labels: Labels = {}, value: number = 1): void {
+    const key = seriesKey(this.labelNames, labels);
+    const entry = this.series.get(key) ?? { labels, value: 0 };
+    entry.value += value;
+    this.series.set(key, entry);
+  }
+
+  render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} counter`,
+      ...[...this.series.values()].map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`)
+    ];
+  }
+}
+
+export class Histogram implements Metric {
+  private readonly series = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    private readonly labelNames: string[],
+    private readonly buckets: number[]
+  ) {}
+
+  observe(labels: Labels, value: number): void {
+    const key = seriesKey(this.labelNames, labels);
+    const entry = this.series.get(key) ?? { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) entry.counts[index]++;
+    });
+    entry.sum += value;
+    entry.count++;
+    this.series.set(key, entry);
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+    for (const { labels, counts, sum, count } of this.series.values()) {
+      this.buckets.forEach((bound, index) => {
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${counts[index]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    }
+    return lines;
+  }
+}
+
+export class MetricsRegistry {
+  private readonly metrics: Metric[] = [];
+
+  register<T extends Metric>(metric: T): T {
+    this.metrics.push(metric);
+    return metric;
+  }
+
+  render(): string {
+    return this.metrics.map(metric => metric.render().join("\n")).join("\n\n") + "\n";
+  }
+}
+
+export const metrics = new MetricsRegistry();
+
+export const toolCalls = metrics.register(new Counter(
+  "mcp_tool_calls_total",
+  "Tool calls handled, by tool and outcome (success or error)",
+  ["tool", "status"]
+));
+
+export const toolCallDuration = metrics.register(new Histogram(
+  "mcp_tool_call_duration_seconds",
+  "Time to handle a tool call, by tool",
+  ["tool"],
+  [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60]
+));
+
+export const upstreamResponses = metrics.register(new Counter(
+  "airbnb_upstream_responses_total",
+  "Responses from Airbnb by HTTP status, including retried ones; timeout and network_error when there was none",
+  ["status"]
+));
+
+export const parseFailures = metrics.register(new Counter(
+  "airbnb_parse_failures_total",
+  "Pages that could not be parsed, by parser",
+  ["parser"]
+));
+
+export const parseDrift = metrics.register(new Counter(
+  "airbnb_parse_drift_total",
+  "Pages parsed only partially or through fallbacks because expected parts were missing, by parser",
+  ["parser"]
+));
+
+export const cacheLookups = metrics.register(new Counter(
+  "airbnb_cache_lookups_total",
+  "Response cache lookups by cache and result (hit or miss)",
+  ["cache", "result"]
+));
+
+export const robotsBlocks = metrics.register(new Counter(
+  "airbnb_robots_blocked_total",
+  "Requests not made because robots.txt disallows them, by domain",
+  ["domain"]
+));
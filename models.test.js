@@ -0,0 +1,109 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  validateListingAvailability,
+  validateListingDetails,
+  validateListingReviews,
+  validatePriceQuote,
+  validateSearchResult
+} from './dist/models.js';
+
+const identity = { id: '1', url: 'https://www.airbnb.com/rooms/1' };
+
+function searchResult(fields = {}) {
+  return { ...identity, badges: [], summary: [], priceBreakdown: [], ...fields };
+}
+
+test('a well-formed search result has no issues', () => {
+  assert.deepEqual(validateSearchResult(searchResult({
+    rating: 4.9,
+    reviewCount: 12,
+    coordinates: { latitude: 48.85, longitude: 2.35 },
+    price: { amount: 120, currency: 'EUR' },
+    resolvedDates: { checkin: '2026-11-06', checkout: '2026-11-11', nights: 5 },
+    priceBreakdown: [{ description: '€120 x 5 nights', amount: 600, priceString: '€600' }],
+  })), []);
+});
+
+test('search results with out of range or mistyped fields are named', () => {
+  assert.deepEqual(validateSearchResult(searchResult({
+    id: 'abc',
+    url: '/rooms/abc',
+    rating: 7,
+    reviewCount: -1,
+    coordinates: { latitude: 91, longitude: 2 },
+    badges: [1],
+    price: { amount: -5, currency: 'euro' },
+    resolvedDates: { checkin: '2026-11-06', checkout: 'soon', nights: 0 },
+  })), [
+    'id must be a numeric string',
+    'url must be an absolute URL',
+    'coordinates.latitude must be between -90 and 90',
+    'rating must be between 0 and 5',
+    'reviewCount must be a non-negative integer',
+    'badges must be an array of strings',
+    'resolvedDates.checkin and resolvedDates.checkout must be YYYY-MM-DD',
+    'resolvedDates.nights must be a positive integer',
+    'price.amount must be a non-negative number',
+    'price.currency must be an ISO 4217 code',
+  ]);
+});
+
+test('listing details check capacity, rules and photos', () => {
+  const details = {
+    ...identity,
+    capacity: { guests: 4, bedrooms: -1 },
+    highlights: [],
+    houseRules: [{ title: 'Rules', items: ['No parties', null] }],
+    amenities: [],
+    photos: [{ url: 'https://a0.muscache.com/1.jpg' }, { url: 'photo.jpg' }],
+  };
+  assert.deepEqual(validateListingDetails(details), [
+    'capacity.bedrooms must be a non-negative number',
+    'houseRules[0].items must be an array of strings',
+    'photos[1].url must be an absolute URL',
+  ]);
+});
+
+test('reviews need text, a rating in range and a parseable date', () => {
+  const reviews = {
+    ...identity,
+    categoryRatings: [{ category: 'cleanliness', label: 'Cleanliness', rating: 4.8 }, { category: 'value', label: 'Value', rating: 9 }],
+    reviews: [{ text: 'Great', rating: 5, date: '2026-05-01T10:00:00Z' }, { rating: 0.5, date: 'last spring' }],
+  };
+  assert.deepEqual(validateListingReviews(reviews), [
+    'categoryRatings[1] must have a category and a rating between 0 and 5',
+    'reviews[1].text must be a string',
+    'reviews[1].date must be an ISO date',
+  ]);
+});
+
+test('calendar nights must be in order, with positive stay limits', () => {
+  const night = (date, fields = {}) => ({ date, available: true, checkinAllowed: true, checkoutAllowed: true, ...fields });
+  assert.deepEqual(validateListingAvailability({ ...identity, nights: [night('2026-11-01'), night('2026-11-02', { minNights: 2 })] }), []);
+  assert.deepEqual(validateListingAvailability({ ...identity, nights: [night('2026-11-02'), night('2026-11-01', { maxNights: 0 })] }), [
+    'nights[1].date must come after the previous night',
+    'nights[1].maxNights must be a positive integer',
+  ]);
+});
+
+test('an available price quote needs a total and non-negative amounts', () => {
+  const quote = {
+    ...identity,
+    checkin: '2026-11-06',
+    checkout: '2026-11-11',
+    nights: 5,
+    available: true,
+    currency: 'USD',
+    discounts: [{ description: 'Weekly discount', amount: -60 }],
+    otherFees: [],
+    lineItems: [],
+    cleaningFee: -1,
+  };
+  assert.deepEqual(validatePriceQuote(quote), [
+    'total is required when the dates are available',
+    'cleaningFee must be a non-negative number',
+    'discounts[0] must have a description and a non-negative amount',
+  ]);
+  assert.deepEqual(validatePriceQuote({ ...quote, total: 700, cleaningFee: 50, discounts: [] }), []);
+});
@@ -0,0 +1,392 @@
+// Typed result model for data extracted from Airbnb pages
+
+export interface Money {
+  amount: number;
+  currency: string; // ISO 4217 code
+}
+
+export interface DisplayPrice extends Money {
+  qualifier?: string; // e.g. "night" or "for 5 nights"
+  originalAmount?: number; // pre-discount amount when Airbnb shows a strikethrough price
+  label: string; // Airbnb's own accessibility label, kept for display
+}
+
+export interface PriceItem {
+  description: string;
+  amount?: number;
+  currency?: string;
+  priceString: string;
+}
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+// Concrete dates Airbnb picked for a result, e.g. in a flexible-dates search
+export interface ResolvedDates {
+  checkin: string; // "YYYY-MM-DD"
+  checkout: string;
+  nights: number;
+}
+
+export interface SearchResult {
+  id: string;
+  url: string;
+  name?: string;
+  title?: string;
+  coordinates?: Coordinates;
+  distanceKm?: number; // from the center of a radius search
+  rating?: number;
+  reviewCount?: number;
+  badges: string[];
+  summary: string[]; // short lines Airbnb shows on the card, e.g. "2 beds", "Jun 1 – 6"
+  resolvedDates?: ResolvedDates;
+  price?: DisplayPrice;
+  totalPrice?: Money;
+  priceBreakdown: PriceItem[];
+}
+
+export interface PaginationInfo {
+  nextPageCursor?: string;
+  pageCursors: string[];
+}
+
+export interface SearchResults {
+  searchResults: SearchResult[];
+  paginationInfo: PaginationInfo;
+  warnings?: string[]; // parts of the page not found where expected; absent when it parsed cleanly
+}
+
+export interface HouseRulesSection {
+  title: string;
+  items: string[];
+}
+
+export interface AmenityGroup {
+  title: string;
+  amenities: string[];
+}
+
+export interface ListingLocation {
+  title?: string;
+  subtitle?: string;
+  coordinates?: Coordinates;
+}
+
+// Counts from the listing overview, e.g. "4 guests · 2 bedrooms · 3 beds · 1.5 baths"
+export interface ListingCapacity {
+  guests?: number;
+  bedrooms?: number; // 0 for a studio
+  beds?: number;
+  bathrooms?: number;
+}
+
+// One image from the listing's photo tour
+export interface ListingPhoto {
+  url: string;
+  caption?: string;
+  room?: string; // e.g. "Bedroom 1", from the photo tour's room grouping
+}
+
+export interface ListingDetails {
+  id: string;
+  url: string;
+  title?: string;
+  rating?: number;
+  reviewCount?: number;
+  location?: ListingLocation;
+  capacity: ListingCapacity;
+  highlights: string[];
+  description?: string;
+  policiesTitle?: string;
+  cancellationPolicy?: string;
+  houseRules: HouseRulesSection[];
+  amenities: AmenityGroup[];
+  photos: ListingPhoto[];
+  warnings?: string[]; // parts of the page not found where expected; absent when it parsed cleanly
+}
+
+export interface CategoryRating {
+  category: string; // e.g. "cleanliness", "check_in"
+  label: string;
+  rating: number;
+}
+
+export interface Review {
+  id?: string;
+  date?: string; // ISO 8601
+  localizedDate?: string; // as Airbnb displays it, e.g. "March 2025"
+  language?: string;
+  rating?: number;
+  text: string;
+  reviewerName?: string;
+  hostResponse?: string;
+}
+
+export interface ListingReviews {
+  id: string;
+  url: string;
+  overallRating?: number;
+  reviewCount?: number;
+  categoryRatings: CategoryRating[];
+  reviews: Review[];
+  warnings?: string[]; // parts of the page not found where expected; absent when it parsed cleanly
+}
+
+export interface CalendarNight {
+  date: string; // "YYYY-MM-DD"
+  available: boolean;
+  minNights?: number; // stay-length rules for a check-in on this date
+  maxNights?: number;
+  checkinAllowed: boolean;
+  checkoutAllowed: boolean;
+  price?: Money;
+}
+
+export interface ListingAvailability {
+  id: string;
+  url: string;
+  nights: CalendarNight[];
+  warnings?: string[]; // parts of the page not found where expected; absent when it parsed cleanly
+}
+
+export interface PriceAdjustment {
+  description: string;
+  amount: number; // always positive; discounts are amounts saved
+}
+
+// What Airbnb's booking sidebar charges for specific dates and guests. All
+// amounts are in `currency`.
+export interface PriceQuote {
+  id: string;
+  url: string;
+  checkin: string; // "YYYY-MM-DD"
+  checkout: string;
+  nights: number;
+  available: boolean; // false when Airbnb shows no price for these dates
+  currency?: string;
+  nightlyRate?: number; // average nightly rate before fees and discounts
+  accommodation?: number; // nightly rate × nights
+  cleaningFee?: number;
+  serviceFee?: number;
+  taxes?: number;
+  discounts: PriceAdjustment[];
+  otherFees: PriceAdjustment[];
+  total?: number;
+  totalIncludesTaxes?: boolean; // false when Airbnb only shows a "Total before taxes"
+  lineItems: PriceItem[]; // the breakdown as Airbnb lists it
+  warnings?: string[]; // parts of the page not found where expected; absent when it parsed cleanly
+}
+
+// Runtime validation. Each validator returns a list of human-readable problems;
+// an empty list means the value conforms to its type.
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+function checkStringArray(value: unknown, path: string, issues: string[]) {
+  if (!Array.isArray(value) || value.some(item => typeof item !== "string")) {
+    issues.push(`${path} must be an array of strings`);
+  }
+}
+
+function checkOptionalString(value: unknown, path: string, issues: string[]) {
+  if (value !== undefined && typeof value !== "string") {
+    issues.push(`${path} must be a string`);
+  }
+}
+
+function checkMoney(value: any, path: string, issues: string[]) {
+  if (!isFiniteNumber(value.amount) || value.amount < 0) {
+    issues.push(`${path}.amount must be a non-negative number`);
+  }
+  if (typeof value.currency !== "string" || !/^[A-Z]{3}$/.test(value.currency)) {
+    issues.push(`${path}.currency must be an ISO 4217 code`);
+  }
+}
+
+function checkCoordinates(value: Coordinates | undefined, path: string, issues: string[]) {
+  if (value === undefined) return;
+  if (!isFiniteNumber(value.latitude) || Math.abs(value.latitude) > 90) {
+    issues.push(`${path}.latitude must be between -90 and 90`);
+  }
+  if (!isFiniteNumber(value.longitude) || Math.abs(value.longitude) > 180) {
+    issues.push(`${path}.longitude must be between -180 and 180`);
+  }
+}
+
+function checkRating(rating: unknown, reviewCount: unknown, issues: string[]) {
+  if (rating !== undefined && (!isFiniteNumber(rating) || rating < 0 || rating > 5)) {
+    issues.push("rating must be between 0 and 5");
+  }
+  if (reviewCount !== undefined && (!Number.isInteger(reviewCount) || (reviewCount as number) < 0)) {
+    issues.push("reviewCount must be a non-negative integer");
+  }
+}
+
+function checkIdentity(id: unknown, url: unknown, issues: string[]) {
+  if (typeof id !== "string" || !/^\d+$/.test(id)) {
+    issues.push("id must be a numeric string");
+  }
+  if (typeof url !== "string" || !url.startsWith("http")) {
+    issues.push("url must be an absolute URL");
+  }
+}
+
+export function validateSearchResult(result: SearchResult): string[] {
+  const issues: string[] = [];
+
+  checkIdentity(result.id, result.url, issues);
+  checkOptionalString(result.name, "name", issues);
+  checkOptionalString(result.title, "title", issues);
+  checkCoordinates(result.coordinates, "coordinates", issues);
+  if (result.distanceKm !== undefined && (!isFiniteNumber(result.distanceKm) || result.distanceKm < 0)) {
+    issues.push("distanceKm must be a non-negative number");
+  }
+  checkRating(result.rating, result.reviewCount, issues);
+  checkStringArray(result.badges, "badges", issues);
+  checkStringArray(result.summary, "summary", issues);
+
+  if (result.resolvedDates) {
+    const { checkin, checkout, nights } = result.resolvedDates;
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(checkin) || !/^\d{4}-\d{2}-\d{2}$/.test(checkout)) {
+      issues.push("resolvedDates.checkin and resolvedDates.checkout must be YYYY-MM-DD");
+    }
+    if (!Number.isInteger(nights) || nights < 1) {
+      issues.push("resolvedDates.nights must be a positive integer");
+    }
+  }
+
+  if (result.price) checkMoney(result.price, "price", issues);
+  if (result.totalPrice) checkMoney(result.totalPrice, "totalPrice", issues);
+
+  if (!Array.isArray(result.priceBreakdown)) {
+    issues.push("priceBreakdown must be an array");
+  } else {
+    result.priceBreakdown.forEach((item, index) => {
+      if (typeof item.description !== "string" || typeof item.priceString !== "string") {
+        issues.push(`priceBreakdown[${index}] must have a description and priceString`);
+      }
+      if (item.amount !== undefined && !isFiniteNumber(item.amount)) {
+        issues.push(`priceBreakdown[${index}].amount must be a number`);
+      }
+    });
+  }
+
+  return issues;
+}
+
+export function validateListingDetails(details: ListingDetails): string[] {
+  const issues: string[] = [];
+
+  checkIdentity(details.id, details.url, issues);
+  checkOptionalString(details.title, "title", issues);
+  checkOptionalString(details.description, "description", issues);
+  checkRating(details.rating, details.reviewCount, issues);
+  checkCoordinates(details.location?.coordinates, "location.coordinates", issues);
+  checkStringArray(details.highlights, "highlights", issues);
+  checkOptionalString(details.cancellationPolicy, "cancellationPolicy", issues);
+
+  for (const [key, value] of Object.entries(details.capacity)) {
+    if (value !== undefined && (!isFiniteNumber(value) || value < 0)) {
+      issues.push(`capacity.${key} must be a non-negative number`);
+    }
+  }
+
+  details.houseRules.forEach((section, index) => {
+    checkStringArray(section.items, `houseRules[${index}].items`, issues);
+  });
+  details.amenities.forEach((group, index) => {
+    checkStringArray(group.amenities, `amenities[${index}].amenities`, issues);
+  });
+  details.photos.forEach((photo, index) => {
+    if (typeof photo.url !== "string" || !photo.url.startsWith("http")) {
+      issues.push(`photos[${index}].url must be an absolute URL`);
+    }
+  });
+
+  return issues;
+}
+
+export function validateListingReviews(reviews: ListingReviews): string[] {
+  const issues: string[] = [];
+
+  checkIdentity(reviews.id, reviews.url, issues);
+  checkRating(reviews.overallRating, reviews.reviewCount, issues);
+
+  reviews.categoryRatings.forEach((category, index) => {
+    if (typeof category.category !== "string" || !isFiniteNumber(category.rating) || category.rating < 0 || category.rating > 5) {
+      issues.push(`categoryRatings[${index}] must have a category and a rating between 0 and 5`);
+    }
+  });
+  reviews.reviews.forEach((review, index) => {
+    if (typeof review.text !== "string") {
+      issues.push(`reviews[${index}].text must be a string`);
+    }
+    if (review.rating !== undefined && (!isFiniteNumber(review.rating) || review.rating < 0 || review.rating > 5)) {
+      issues.push(`reviews[${index}].rating must be between 0 and 5`);
+    }
+    if (review.date !== undefined && isNaN(Date.parse(review.date))) {
+      issues.push(`reviews[${index}].date must be an ISO date`);
+    }
+  });
+
+  return issues;
+}
+
+export function validateListingAvailability(availability: ListingAvailability): string[] {
+  const issues: string[] = [];
+
+  checkIdentity(availability.id, availability.url, issues);
+
+  availability.nights.forEach((night, index) => {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(night.date)) {
+      issues.push(`nights[${index}].date must be YYYY-MM-DD`);
+    }
+    if (index > 0 && night.date <= availability.nights[index - 1].date) {
+      issues.push(`nights[${index}].date must come after the previous night`);
+    }
+    for (const key of ["minNights", "maxNights"] as const) {
+      const value = night[key];
+      if (value !== undefined && (!Number.isInteger(value) || value < 1)) {
+        issues.push(`nights[${index}].${key} must be a positive integer`);
+      }
+    }
+    if (night.price) checkMoney(night.price, `nights[${index}].price`, issues);
+  });
+
+  return issues;
+}
+
+export function validatePriceQuote(quote: PriceQuote): string[] {
+  const issues: string[] = [];
+
+  checkIdentity(quote.id, quote.url, issues);
+  if (!Number.isInteger(quote.nights) || quote.nights < 1) {
+    issues.push("nights must be a positive integer");
+  }
+  if (quote.currency !== undefined && !/^[A-Z]{3}$/.test(quote.currency)) {
+    issues.push("currency must be an ISO 4217 code");
+  }
+  if (quote.available && quote.total === undefined) {
+    issues.push("total is required when the dates are available");
+  }
+
+  for (const key of ["nightlyRate", "accommodation", "cleaningFee", "serviceFee", "taxes", "total"] as const) {
+    const value = quote[key];
+    if (value !== undefined && (!isFiniteNumber(value) || value < 0)) {
+      issues.push(`${key} must be a non-negative number`);
+    }
+  }
+  for (const key of ["discounts", "otherFees"] as const) {
+    quote[key].forEach((adjustment, index) => {
+      if (typeof adjustment.description !== "string" || !isFiniteNumber(adjustment.amount) || adjustment.amount < 0) {
+        issues.push(`${key}[${index}] must have a description and a non-negative amount`);
+      }
+    });
+  }
+
+  return issues;
+}
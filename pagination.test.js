@@ -0,0 +1,71 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { collectSearchPages, PAGE_FETCH_DELAY_MS } from './dist/pagination.js';
+
+// Three pages of two listings each, linked by cursors "b" and "c"; the last id of a page repeats
+// as the first of the next, as Airbnb does when results shift
+function fakePages(cached) {
+  const pages = {
+    start: { ids: ['1', '2'], next: 'b' },
+    b: { ids: ['2', '3'], next: 'c' },
+    c: { ids: ['3', '4'], next: undefined },
+  };
+  const requested = [];
+  const fetchPage = async cursor => {
+    const key = cursor ?? 'start';
+    requested.push(key);
+    const page = pages[key];
+    return {
+      results: {
+        searchResults: page.ids.map(id => ({ id })),
+        paginationInfo: { nextPageCursor: page.next, pageCursors: [] },
+      },
+      cache: cached(key) ? { hit: true, ageSeconds: 30 } : { hit: false, ageSeconds: 0 },
+    };
+  };
+  return { fetchPage, requested };
+}
+
+test('collects pages until the cursor runs out, de-duplicating listings', async () => {
+  const { fetchPage, requested } = fakePages(() => true);
+  const collected = await collectSearchPages(undefined, { maxPages: 5 }, fetchPage);
+  assert.deepEqual(requested, ['start', 'b', 'c']);
+  assert.deepEqual(collected.searchResults.map(result => result.id), ['1', '2', '3', '4']);
+  assert.equal(collected.pagesFetched, 3);
+  assert.deepEqual(collected.cache, { hit: true, ageSeconds: 30 });
+});
+
+test('stops at maxResults and trims to it', async () => {
+  const { fetchPage, requested } = fakePages(() => true);
+  const collected = await collectSearchPages(undefined, { maxResults: 3 }, fetchPage);
+  assert.deepEqual(requested, ['start', 'b']);
+  assert.deepEqual(collected.searchResults.map(result => result.id), ['1', '2', '3']);
+  assert.equal(collected.paginationInfo.nextPageCursor, 'c');
+});
+
+test('does not pause after pages served from the cache', async () => {
+  const { fetchPage } = fakePages(() => true);
+  const started = Date.now();
+  await collectSearchPages(undefined, { maxPages: 3 }, fetchPage);
+  assert.ok(Date.now() - started < PAGE_FETCH_DELAY_MS, 'cached pages were paced');
+});
+
+test('pauses only after pages fetched from Airbnb', async () => {
+  // Only the first page comes from the network, so one pause before the second
+  const { fetchPage } = fakePages(key => key !== 'start');
+  const started = Date.now();
+  const collected = await collectSearchPages(undefined, { maxPages: 3 }, fetchPage);
+  const elapsed = Date.now() - started;
+  assert.ok(elapsed >= PAGE_FETCH_DELAY_MS - 50, `expected one pause, took ${elapsed} ms`);
+  assert.ok(elapsed < 2 * PAGE_FETCH_DELAY_MS, `expected a single pause, took ${elapsed} ms`);
+  assert.equal(collected.cache.hit, false);
+});
+
+test('a failed later page becomes a warning, keeping the earlier results', async () => {
+  const { fetchPage } = fakePages(() => true);
+  const failing = cursor => cursor === 'b' ? Promise.resolve({ error: 'HTTP 503', response: {} }) : fetchPage(cursor);
+  const collected = await collectSearchPages(undefined, { maxPages: 3 }, failing);
+  assert.deepEqual(collected.searchResults.map(result => result.id), ['1', '2']);
+  assert.deepEqual(collected.warnings, ['Stopped after 1 page(s): HTTP 503']);
+  assert.equal(collected.paginationInfo.nextPageCursor, 'b');
+});
@@ -0,0 +1,127 @@
+import { PaginationInfo, SearchResult, SearchResults } from "./models.js";
+import { CacheStatus } from "./cache.js";
+import { sleep } from "./util.js";
+import { log } from "./log.js";
+
+export const MAX_PAGES = 10;
+export const MAX_RESULTS = 300;
+
+// Pause after a page fetched from Airbnb so multi-page searches don't hammer it;
+// pages served from the cache need no pause
+export const PAGE_FETCH_DELAY_MS = 1500;
+
+export interface PaginationOptions {
+  maxPages?: number;
+  maxResults?: number;
+}
+
+export const PAGINATION_PROPERTIES = {
+  maxPages: {
+    type: "integer",
+    minimum: 1,
+    maximum: MAX_PAGES,
+    description: `Follow pagination cursors server-side for up to this many pages (default 1, or ${MAX_PAGES} when maxResults is set)`
+  },
+  maxResults: {
+    type: "integer",
+    minimum: 1,
+    maximum: MAX_RESULTS,
+    description: "Stop collecting once this many unique listings have been found"
+  }
+};
+
+// A failed page carries both a short reason and the full tool response to return
+// when nothing could be collected at all
+export type SearchPage =
+  | { results: SearchResults; cache: CacheStatus }
+  | { error: string; response: any };
+
+export interface CollectedSearchResults extends SearchResults {
+  pagesFetched: number;
+  warnings: string[];
+  cache: CacheStatus; // a hit only when every page came from cache; age of the oldest page
+}
+
+export function validatePaginationOptions({ maxPages, maxResults }: PaginationOptions): string[] {
+  const errors: string[] = [];
+  if (maxPages !== undefined && (!Number.isInteger(maxPages) || maxPages < 1 || maxPages > MAX_PAGES)) {
+    errors.push(`maxPages must be an integer between 1 and ${MAX_PAGES}, got ${JSON.stringify(maxPages)}`);
+  }
+  if (maxResults !== undefined && (!Number.isInteger(maxResults) || maxResults < 1 || maxResults > MAX_RESULTS)) {
+    errors.push(`maxResults must be an integer between 1 and ${MAX_RESULTS}, got ${JSON.stringify(maxResults)}`);
+  }
+  return errors;
+}
+
+// Fetch consecutive result pages starting at `cursor`, merging them into one list
+// de-duplicated by listing id. A failure on the first page is returned as-is;
+// later failures stop collection and are reported as warnings, with the cursor
+// of the failed page left in paginationInfo so the caller can retry from there.
+export async function collectSearchPages(
+  cursor: string | undefined,
+  options: PaginationOptions,
+  fetchPage: (cursor: string | undefined) => Promise<SearchPage>,
+  accept: (result: SearchResult) => boolean = () => true,
+): Promise<CollectedSearchResults | { error: string; response: any }> {
+  const maxResults = options.maxResults;
+  const maxPages = options.maxPages ?? (maxResults ? MAX_PAGES : 1);
+
+  const searchResults: SearchResult[] = [];
+  const seenIds = new Set<string>();
+  const warnings: string[] = [];
+  let paginationInfo: PaginationInfo = { nextPageCursor: cursor, pageCursors: [] };
+  let pageCursor = cursor;
+  let pagesFetched = 0;
+  let pagesFromCache = 0;
+  let oldestCachedSeconds = 0;
+  let previousFromNetwork = false;
+
+  while (pagesFetched < maxPages) {
+    if (previousFromNetwork) {
+      await sleep(PAGE_FETCH_DELAY_MS);
+    }
+
+    const page = await fetchPage(pageCursor);
+    if ("error" in page) {
+      if (pagesFetched === 0) return page;
+      warnings.push(`Stopped after ${pagesFetched} page(s): ${page.error}`);
+      break;
+    }
+
+    pagesFetched++;
+    previousFromNetwork = !page.cache.hit;
+    if (page.cache.hit) {
+      pagesFromCache++;
+      oldestCachedSeconds = Math.max(oldestCachedSeconds, page.cache.ageSeconds);
+    }
+
+    for (const result of page.results.searchResults) {
+      if (seenIds.has(result.id) || !accept(result)) continue;
+      seenIds.add(result.id);
+      searchResults.push(result);
+    }
+
+    for (const warning of page.results.warnings ?? []) {
+      if (!warnings.includes(warning)) warnings.push(warning);
+    }
+
+    paginationInfo = page.results.paginationInfo;
+    pageCursor = paginationInfo.nextPageCursor;
+    if (!pageCursor || (maxResults !== undefined && searchResults.length >= maxResults)) {
+      break;
+    }
+  }
+
+  log('info', 'Collected search pages', { pagesFetched, pagesFromCache, resultCount: searchResults.length });
+
+  return {
+    searchResults: maxResults !== undefined ? searchResults.slice(0, maxResults) : searchResults,
+    paginationInfo,
+    pagesFetched,
+    warnings,
+    cache: {
+      hit: pagesFetched > 0 && pagesFromCache === pagesFetched,
+      ageSeconds: oldestCachedSeconds,
+    },
+  };
+}
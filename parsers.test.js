@@ -0,0 +1,302 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ParseDiagnostics } from './dist/diagnostics.js';
+import { PageStructureError } from './dist/errors.js';
+import {
+  decodeListingId,
+  extractClientData,
+  parseListingAvailability,
+  parseListingDetails,
+  parseListingReviews,
+  parseMoney,
+  parsePriceQuote,
+  parseRating,
+  parseSearchResults
+} from './dist/parsers.js';
+
+const BASE_URL = 'https://www.airbnb.com';
+const encodedId = id => Buffer.from(`DemandStayListing:${id}`).toString('base64');
+
+function page(scripts) {
+  const tags = Object.entries(scripts)
+    .map(([id, payload]) => `<script id="${id}" type="application/json">${typeof payload === 'string' ? payload : JSON.stringify(payload)}</script>`);
+  return `<html><body>${tags.join('')}</body></html>`;
+}
+
+function searchResult(id, price) {
+  return {
+    demandStayListing: { id: encodedId(id), location: { coordinate: { latitude: 48.85, longitude: 2.35 } } },
+    title: `Apartment in Paris ${id}`,
+    avgRatingA11yLabel: '4.92 out of 5 average rating, 312 reviews',
+    badges: [{ text: 'Guest favorite' }],
+    structuredContent: { primaryLine: [{ body: '2 beds' }] },
+    structuredDisplayPrice: { primaryLine: { price, qualifier: 'night' } },
+  };
+}
+
+// Sections as they appear on a listing page, keyed by sectionId
+function listingPayload(sections, metadata = { sharingConfig: { title: 'Loft in Paris · ★4.9 · 2 bedrooms · 3 beds · 1 bath' } }) {
+  return {
+    data: {
+      presentation: {
+        stayProductDetailPage: {
+          sections: {
+            metadata,
+            sections: Object.entries(sections).map(([sectionId, section]) => ({ sectionId, section })),
+          },
+        },
+      },
+    },
+  };
+}
+
+test('parseMoney reads each locale\'s separators and currency', () => {
+  assert.deepEqual(parseMoney('$1,234'), { amount: 1234, currency: 'USD' });
+  assert.deepEqual(parseMoney('€ 1.234,50'), { amount: 1234.5, currency: 'EUR' });
+  assert.deepEqual(parseMoney('1 234,50 €'), { amount: 1234.5, currency: 'EUR' });
+  assert.deepEqual(parseMoney("CHF 1'234.50"), { amount: 1234.5, currency: 'CHF' });
+  assert.deepEqual(parseMoney('£99.5'), { amount: 99.5, currency: 'GBP' });
+  assert.deepEqual(parseMoney('€12,5'), { amount: 12.5, currency: 'EUR' });
+  assert.deepEqual(parseMoney('¥12,000 total'), { amount: 12000, currency: 'JPY' });
+  assert.deepEqual(parseMoney('R$ 1.200'), { amount: 1200, currency: 'BRL' });
+});
+
+test('parseMoney prefers the caller\'s currency for shared symbols only', () => {
+  assert.equal(parseMoney('$120', 'CAD').currency, 'CAD');
+  assert.equal(parseMoney('¥8,000', 'CNY').currency, 'CNY');
+  assert.equal(parseMoney('€120', 'USD').currency, 'EUR');
+  assert.equal(parseMoney('120', 'SEK').currency, 'SEK');
+  assert.equal(parseMoney('Free'), undefined);
+  assert.equal(parseMoney(120), undefined);
+});
+
+test('parseRating reads the long label and the short form', () => {
+  assert.deepEqual(parseRating('4.92 out of 5 average rating, 1,312 reviews'), { rating: 4.92, reviewCount: 1312 });
+  assert.deepEqual(parseRating('4,85 (27)'), { rating: 4.85, reviewCount: 27 });
+  assert.deepEqual(parseRating('New'), { rating: undefined, reviewCount: undefined });
+  assert.deepEqual(parseRating(undefined), {});
+});
+
+test('listing ids are decoded from their base64 form', () => {
+  assert.equal(decodeListingId(encodedId('123456')), '123456');
+  assert.equal(decodeListingId(Buffer.from('DemandStayListing:abc').toString('base64')), undefined);
+  assert.equal(decodeListingId(42), undefined);
+});
+
+test('extractClientData reads the expected script without warnings', () => {
+  const data = { data: { presentation: { staysSearch: {} } } };
+  const diagnostics = new ParseDiagnostics('page');
+  const clientData = extractClientData(page({ 'data-deferred-state-0': { niobeClientData: [['key', data]] } }), diagnostics);
+  assert.deepEqual(clientData, data);
+  assert.equal(diagnostics.drifted, false);
+});
+
+test('extractClientData falls back to other scripts and entries', () => {
+  const data = { data: { presentation: { stayProductDetailPage: {} } } };
+  const diagnostics = new ParseDiagnostics('page');
+  const html = page({
+    'data-deferred-state-0': 'not json',
+    'data-deferred-state-1': { niobeClientData: [['other', { data: {} }], ['key', data]] },
+  });
+  assert.deepEqual(extractClientData(html, diagnostics), data);
+  assert.deepEqual(diagnostics.report().fallbacks, ['script#data-deferred-state-1 niobeClientData[1][1]']);
+  assert.deepEqual(diagnostics.warnings().slice(-1), ['script#data-deferred-state-0 is not valid JSON']);
+
+  assert.throws(() => extractClientData('<html></html>'), PageStructureError);
+  assert.throws(() => extractClientData(page({ 'data-deferred-state-0': { niobeClientData: [] } })), /Could not find client data/);
+});
+
+test('search results parse from their usual path', () => {
+  const clientData = {
+    data: {
+      presentation: {
+        staysSearch: {
+          results: {
+            searchResults: [searchResult('1', '$120'), searchResult('2', '$95'), { demandStayListing: { id: 'bad' } }],
+            paginationInfo: { nextPageCursor: 'abc', pageCursors: ['abc', 7] },
+          },
+        },
+      },
+    },
+  };
+  const diagnostics = new ParseDiagnostics('search_results');
+  const results = parseSearchResults(clientData, BASE_URL, 'USD', diagnostics);
+
+  assert.deepEqual(results.searchResults.map(result => result.id), ['1', '2']);
+  const [first] = results.searchResults;
+  assert.equal(first.url, 'https://www.airbnb.com/rooms/1');
+  assert.equal(first.rating, 4.92);
+  assert.equal(first.reviewCount, 312);
+  assert.deepEqual(first.price, { amount: 120, currency: 'USD', qualifier: 'night', originalAmount: undefined, label: '$120' });
+  assert.deepEqual(results.paginationInfo, { nextPageCursor: 'abc', pageCursors: ['abc'] });
+  assert.equal(results.warnings, undefined);
+  assert.equal(diagnostics.drifted, false);
+});
+
+test('search results that moved are found and flagged as drift', () => {
+  const moved = { data: { presentation: { explore: { section: { searchResults: [searchResult('3', '€80')] } } } } };
+  const diagnostics = new ParseDiagnostics('search_results');
+  const results = parseSearchResults(moved, BASE_URL, undefined, diagnostics);
+
+  assert.deepEqual(results.searchResults.map(result => result.id), ['3']);
+  assert.equal(results.searchResults[0].price.currency, 'EUR');
+  assert.equal(diagnostics.drifted, true);
+  assert.deepEqual(results.warnings, [
+    'Expected data.presentation.staysSearch.results is missing',
+    'Read from fallback first object with a searchResults array',
+  ]);
+
+  assert.throws(() => parseSearchResults({ data: {} }, BASE_URL), /Could not find search results/);
+});
+
+test('listing details parse from the page sections', () => {
+  const clientData = listingPayload({
+    LOCATION_DEFAULT: { title: "Where you'll be", subtitle: 'Paris, France', lat: 48.85, lng: 2.35 },
+    POLICIES_DEFAULT: {
+      cancellationPolicyForDisplay: { subtitle: 'Free cancellation for 48 hours' },
+      houseRulesSections: [{ title: 'During your stay', items: [{ title: 'No parties' }] }],
+    },
+    DESCRIPTION_DEFAULT: { htmlDescription: { htmlText: 'Bright loft<br/>near the Seine' } },
+    AMENITIES_DEFAULT: { seeAllAmenitiesGroups: [{ title: 'Kitchen', amenities: [{ title: 'Kitchen' }] }] },
+    REVIEWS_DEFAULT: { overallRating: 4.9, overallCount: 87 },
+    OVERVIEW_DEFAULT_V2: { overviewItems: [{ title: '4 guests' }, { title: '2 bedrooms' }, { title: '1.5 baths' }] },
+  });
+  const diagnostics = new ParseDiagnostics('listing_details');
+  const details = parseListingDetails(clientData, '1', `${BASE_URL}/rooms/1`, diagnostics);
+
+  assert.equal(details.title, 'Loft in Paris · ★4.9 · 2 bedrooms · 3 beds · 1 bath');
+  assert.equal(details.rating, 4.9);
+  assert.equal(details.reviewCount, 87);
+  assert.deepEqual(details.location.coordinates, { latitude: 48.85, longitude: 2.35 });
+  assert.deepEqual(details.capacity, { guests: 4, bedrooms: 2, bathrooms: 1.5 });
+  assert.equal(details.description, 'Bright loft\nnear the Seine');
+  assert.equal(details.cancellationPolicy, 'Free cancellation for 48 hours');
+  assert.deepEqual(details.houseRules, [{ title: 'During your stay', items: ['No parties'] }]);
+  assert.equal(details.warnings, undefined);
+});
+
+test('listing details report missing sections and read the sharing title instead', () => {
+  // The sections array moved and only the location is left
+  const clientData = {
+    data: {
+      presentation: {
+        stayProductDetailPage: { sections: { metadata: { sharingConfig: { title: 'Studio · 2 beds · 1 bath', starRating: 4.7, reviewCount: 12 } } } },
+        pdp: { blocks: [{ sectionId: 'LOCATION_DEFAULT', section: { subtitle: 'Lyon, France' } }] },
+      },
+    },
+  };
+  const details = parseListingDetails(clientData, '2', `${BASE_URL}/rooms/2`);
+
+  assert.equal(details.location.subtitle, 'Lyon, France');
+  assert.deepEqual(details.capacity, { bedrooms: 0, beds: 2, bathrooms: 1 });
+  assert.equal(details.rating, 4.7);
+  assert.deepEqual(details.warnings, [
+    'Expected data.presentation.stayProductDetailPage.sections.sections is missing',
+    'Expected section POLICIES_DEFAULT is missing',
+    'Expected section DESCRIPTION_DEFAULT is missing',
+    'Expected section AMENITIES_DEFAULT is missing',
+    'Expected section OVERVIEW_DEFAULT_V2 or OVERVIEW_DEFAULT is missing',
+    'Read from fallback first array of objects with a sectionId',
+  ]);
+});
+
+test('reviews are read from every section, once each', () => {
+  const review = { id: 'r1', comments: 'Lovely<br>stay', rating: 5, createdAt: '2026-05-01T10:00:00Z', reviewer: { firstName: 'Ana' } };
+  const clientData = listingPayload({
+    REVIEWS_DEFAULT: {
+      overallRating: 4.8,
+      overallCount: 20,
+      ratings: [{ categoryType: 'CHECKIN', label: 'Check-in', localizedRating: '4.9' }],
+      reviews: [review],
+    },
+    REVIEWS_MODAL: { reviews: [review, { id: 'r2', localizedReview: { comments: 'Bien' }, language: 'fr' }, { id: 'r3' }] },
+  });
+  const reviews = parseListingReviews(clientData, '1', `${BASE_URL}/rooms/1`);
+
+  assert.equal(reviews.overallRating, 4.8);
+  assert.equal(reviews.reviewCount, 20);
+  assert.deepEqual(reviews.categoryRatings, [{ category: 'check_in', label: 'Check-in', rating: 4.9 }]);
+  assert.deepEqual(reviews.reviews.map(r => [r.id, r.text]), [['r1', 'Lovely\nstay'], ['r2', 'Bien']]);
+  assert.equal(reviews.warnings, undefined);
+});
+
+test('a renamed reviews section is found by its ratings', () => {
+  const clientData = listingPayload({ GUEST_REVIEWS: { overallRating: 4.6, overallCount: 5 } });
+  const reviews = parseListingReviews(clientData, '1', `${BASE_URL}/rooms/1`);
+  assert.equal(reviews.reviewCount, 5);
+  assert.deepEqual(reviews.warnings, [
+    'Expected section REVIEWS_DEFAULT is missing',
+    'Read from fallback first section with an overallRating or overallCount',
+  ]);
+
+  assert.throws(() => parseListingReviews(listingPayload({ OTHER: {} }), '1', `${BASE_URL}/rooms/1`), /Could not find the reviews section/);
+});
+
+test('calendar nights parse once each, in date order', () => {
+  const day = (calendarDate, fields = {}) => ({ calendarDate, available: true, minNights: 2, ...fields });
+  const response = {
+    data: {
+      merlin: {
+        pdpAvailabilityCalendar: {
+          calendarMonths: [
+            { days: [day('2026-11-30', { availableForCheckout: false }), day('2026-12-01')] },
+            { days: [day('2026-12-01'), day('2026-12-02', { available: false, price: { localPriceFormatted: '€140' } })] },
+          ],
+        },
+      },
+    },
+  };
+  const availability = parseListingAvailability(response, '1', `${BASE_URL}/rooms/1`);
+
+  assert.deepEqual(availability.nights.map(night => night.date), ['2026-11-30', '2026-12-01', '2026-12-02']);
+  assert.equal(availability.nights[0].checkoutAllowed, false);
+  assert.equal(availability.nights[1].checkinAllowed, true);
+  assert.deepEqual(availability.nights[2].price, { amount: 140, currency: 'EUR' });
+  assert.equal(availability.warnings, undefined);
+
+  const moved = parseListingAvailability({ data: { calendar: { calendarMonths: [{ days: [day('2026-12-01')] }] } } }, '1', `${BASE_URL}/rooms/1`);
+  assert.equal(moved.nights.length, 1);
+  assert.equal(moved.warnings.length, 2);
+  assert.throws(() => parseListingAvailability({ data: {} }, '1', `${BASE_URL}/rooms/1`), /Could not find calendar months/);
+});
+
+test('price quote line items are sorted into their components', () => {
+  const items = [
+    ['$120 x 5 nights', '$600'],
+    ['Weekly stay discount', '-$60'],
+    ['Cleaning fee', '$50'],
+    ['Airbnb service fee', '$80'],
+    ['Taxes', '$40'],
+    ['Pet fee', '$25'],
+    ['Total (USD)', '$735'],
+  ];
+  const bookIt = {
+    structuredDisplayPrice: {
+      explanationData: { priceDetails: [{ items: items.map(([description, priceString]) => ({ description, priceString })) }] },
+    },
+  };
+  const request = { id: '1', url: `${BASE_URL}/rooms/1`, checkin: '2026-11-06', checkout: '2026-11-11' };
+  const quote = parsePriceQuote(listingPayload({ BOOK_IT_SIDEBAR: bookIt }), request, 'USD');
+
+  assert.equal(quote.nights, 5);
+  assert.equal(quote.available, true);
+  assert.equal(quote.currency, 'USD');
+  assert.equal(quote.nightlyRate, 120);
+  assert.equal(quote.accommodation, 600);
+  assert.deepEqual(quote.discounts, [{ description: 'Weekly stay discount', amount: 60 }]);
+  assert.equal(quote.cleaningFee, 50);
+  assert.equal(quote.serviceFee, 80);
+  assert.equal(quote.taxes, 40);
+  assert.deepEqual(quote.otherFees, [{ description: 'Pet fee', amount: 25 }]);
+  assert.equal(quote.total, 735);
+  assert.equal(quote.totalIncludesTaxes, true);
+  assert.equal(quote.warnings, undefined);
+
+  // Under another section id the breakdown is still found, with a warning
+  const moved = parsePriceQuote(listingPayload({ BOOK_IT_NAV: bookIt }), request, 'USD');
+  assert.equal(moved.total, 735);
+  assert.deepEqual(moved.warnings, [
+    'Expected section BOOK_IT_SIDEBAR or BOOK_IT_FLOATING_FOOTER is missing',
+    'Read from fallback first section with a price breakdown',
+  ]);
+});
@@ -0,0 +1,737 @@
+import * as cheerio from "cheerio";
+import {
+  AmenityGroup,
+  Coordinates,
+  DisplayPrice,
+  CategoryRating,
+  HouseRulesSection,
+  ListingCapacity,
+  ListingPhoto,
+  CalendarNight,
+  ListingAvailability,
+  ListingDetails,
+  ListingReviews,
+  Money,
+  PaginationInfo,
+  PriceQuote,
+  PriceItem,
+  ResolvedDates,
+  Review,
+  SearchResult,
+  SearchResults,
+  validateListingAvailability,
+  validateListingDetails,
+  validateListingReviews,
+  validatePriceQuote,
+  validateSearchResult,
+} from "./models.js";
+import { nightsBetween } from "./dates.js";
+import { ParseDiagnostics, findDeep, getPath } from "./diagnostics.js";
+import { PageStructureError } from "./errors.js";
+import { log } from "./log.js";
+
+// Symbols are checked in order, so longer prefixes must come before "$"
+const CURRENCY_SYMBOLS: [string, string][] = [
+  ["US$", "USD"],
+  ["CA$", "CAD"],
+  ["A$", "AUD"],
+  ["NZ$", "NZD"],
+  ["HK$", "HKD"],
+  ["MX$", "MXN"],
+  ["R$", "BRL"],
+  ["€", "EUR"],
+  ["£", "GBP"],
+  ["¥", "JPY"],
+  ["₩", "KRW"],
+  ["₹", "INR"],
+  ["₺", "TRY"],
+  ["₪", "ILS"],
+  ["฿", "THB"],
+  ["₱", "PHP"],
+  ["₫", "VND"],
+  ["zł", "PLN"],
+  ["$", "USD"],
+];
+
+// Symbols shared by several currencies; the caller's hint wins over our default guess
+const AMBIGUOUS_SYMBOLS = new Set(["$", "¥"]);
+
+function detectCurrency(text: string, currencyHint?: string): string {
+  const isoCode = text.match(/\b([A-Z]{3})\b/);
+  if (isoCode) return isoCode[1];
+
+  for (const [symbol, code] of CURRENCY_SYMBOLS) {
+    if (text.includes(symbol)) {
+      return AMBIGUOUS_SYMBOLS.has(symbol) && currencyHint ? currencyHint : code;
+    }
+  }
+
+  return currencyHint || "USD";
+}
+
+function parseAmount(text: string): number | undefined {
+  const match = text.replace(/[\u00a0\u202f]/g, " ").match(/\d[\d.,' ]*\d|\d/);
+  if (!match) return undefined;
+
+  let digits = match[0].replace(/[' ]/g, "");
+  const lastComma = digits.lastIndexOf(",");
+  const lastDot = digits.lastIndexOf(".");
+
+  if (lastComma !== -1 && lastDot !== -1) {
+    // Both separators present: whichever comes last is the decimal separator
+    const decimal = lastComma > lastDot ? "," : ".";
+    const thousands = decimal === "," ? "." : ",";
+    digits = digits.split(thousands).join("").replace(decimal, ".");
+  } else if (lastComma !== -1 || lastDot !== -1) {
+    // A single kind of separator followed by exactly three digits is a thousands separator
+    const separator = lastComma !== -1 ? "," : ".";
+    const groups = digits.split(separator);
+    const isThousands = groups.length > 2 || groups[groups.length - 1].length === 3;
+    digits = isThousands ? groups.join("") : groups.join(".");
+  }
+
+  const amount = Number(digits);
+  return Number.isFinite(amount) ? amount : undefined;
+}
+
+// Parse a localized price string such as "$1,234", "€ 1.234,50" or "¥12,000 total"
+export function parseMoney(text: unknown, currencyHint?: string): Money | undefined {
+  if (typeof text !== "string") return undefined;
+
+  const amount = parseAmount(text);
+  if (amount === undefined) return undefined;
+
+  return { amount, currency: detectCurrency(text, currencyHint) };
+}
+
+function asString(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+function asArray(value: unknown): any[] {
+  return Array.isArray(value) ? value : [];
+}
+
+function asCoordinates(latitude: unknown, longitude: unknown): Coordinates | undefined {
+  const lat = Number(latitude);
+  const lng = Number(longitude);
+  if (latitude == null || longitude == null || !Number.isFinite(lat) || !Number.isFinite(lng)) {
+    return undefined;
+  }
+  return { latitude: lat, longitude: lng };
+}
+
+const DATA_SCRIPT_ID = "data-deferred-state-0";
+
+// Read the JSON payload Airbnb embeds in #data-deferred-state-0. When it isn't
+// where expected, the other data-deferred-state-* scripts are tried, and any
+// niobeClientData entry that carries a presentation.
+export function extractClientData(html: string, diagnostics: ParseDiagnostics = new ParseDiagnostics("page")): any {
+  const $ = cheerio.load(html);
+
+  const scripts = $('script[id^="data-deferred-state-"]').toArray()
+    .map(element => ({ id: $(element).attr("id") ?? "", text: $(element).text() }))
+    .filter(script => script.text.trim())
+    .sort((a, b) => Number(b.id === DATA_SCRIPT_ID) - Number(a.id === DATA_SCRIPT_ID));
+  diagnostics.expect(`script#${DATA_SCRIPT_ID}`, scripts.find(script => script.id === DATA_SCRIPT_ID));
+  if (scripts.length === 0) {
+    throw new PageStructureError("Could not find data script element - page structure may have changed");
+  }
+
+  for (const script of scripts) {
+    let payload: any;
+    try {
+      payload = JSON.parse(script.text);
+    } catch {
+      diagnostics.warn(`script#${script.id} is not valid JSON`);
+      continue;
+    }
+
+    const entries = asArray(payload?.niobeClientData);
+    if (script.id === DATA_SCRIPT_ID && diagnostics.expect("niobeClientData[0][1].data", getPath(entries, [0, 1, "data"]))) {
+      return entries[0][1];
+    }
+    const index = entries.findIndex(entry => getPath(entry, [1, "data", "presentation"]) !== undefined);
+    if (index !== -1) {
+      diagnostics.fallback(`script#${script.id} niobeClientData[${index}][1]`);
+      return entries[index][1];
+    }
+  }
+
+  throw new PageStructureError("Could not find client data in the page's data scripts - page structure may have changed");
+}
+
+// The sections of a listing page, wherever they ended up in the payload
+function listingSections(clientData: any, diagnostics: ParseDiagnostics): any[] {
+  const sections = getPath(clientData, ["data", "presentation", "stayProductDetailPage", "sections", "sections"]);
+  if (diagnostics.expect("data.presentation.stayProductDetailPage.sections.sections", Array.isArray(sections) ? sections : undefined)) {
+    return sections;
+  }
+
+  const found = findDeep(clientData, value => Array.isArray(value) && value.some(item => typeof item?.sectionId === "string"));
+  if (!found) {
+    throw new PageStructureError("Could not find the listing page sections - page structure may have changed");
+  }
+  diagnostics.fallback("first array of objects with a sectionId");
+  return found;
+}
+
+function sectionById(sections: any[], sectionId: string): any {
+  return sections.find((section: any) => section?.sectionId === sectionId)?.section;
+}
+
+// Listing ids arrive base64-encoded, e.g. "DemandStayListing:123456"
+export function decodeListingId(encodedId: unknown): string | undefined {
+  if (typeof encodedId !== "string") return undefined;
+  const decoded = Buffer.from(encodedId, "base64").toString("utf8");
+  const id = decoded.split(":")[1];
+  return id && /^\d+$/.test(id) ? id : undefined;
+}
+
+// "4.92 out of 5 average rating, 312 reviews" or "4.92 (312)"
+export function parseRating(label: unknown): { rating?: number; reviewCount?: number } {
+  const text = asString(label);
+  if (!text) return {};
+
+  const rating = text.match(/(\d+(?:[.,]\d+)?)\s*(?:out of 5|\()/);
+  const reviewCount = text.match(/([\d,.]+)\s*reviews?/i) || text.match(/\(([\d,.]+)\)/);
+
+  return {
+    rating: rating ? Number(rating[1].replace(",", ".")) : undefined,
+    reviewCount: reviewCount ? parseInt(reviewCount[1].replace(/[,.]/g, ""), 10) : undefined,
+  };
+}
+
+function parseDisplayPrice(structuredDisplayPrice: any, currencyHint?: string) {
+  const primaryLine = structuredDisplayPrice?.primaryLine ?? {};
+  const secondaryLine = structuredDisplayPrice?.secondaryLine ?? {};
+
+  const label = asString(primaryLine.accessibilityLabel) ?? asString(primaryLine.price) ?? "";
+  const current = parseMoney(primaryLine.discountedPrice ?? primaryLine.price ?? label, currencyHint);
+  const original = parseMoney(primaryLine.originalPrice, currencyHint);
+
+  let price: DisplayPrice | undefined;
+  if (current) {
+    price = {
+      ...current,
+      qualifier: asString(primaryLine.qualifier),
+      originalAmount: original && original.amount !== current.amount ? original.amount : undefined,
+      label,
+    };
+  }
+
+  // With dates set, Airbnb shows the stay total either on the secondary line or as the primary price
+  let totalPrice: Money | undefined;
+  const secondaryLabel = asString(secondaryLine.accessibilityLabel) ?? asString(secondaryLine.price);
+  if (secondaryLabel && /total/i.test(secondaryLabel)) {
+    totalPrice = parseMoney(secondaryLabel, currencyHint);
+  } else if (price && /total|for \d+ nights?/i.test(`${price.qualifier ?? ""} ${label}`)) {
+    totalPrice = { amount: price.amount, currency: price.currency };
+  }
+
+  const priceBreakdown = parsePriceItems(structuredDisplayPrice, currencyHint);
+
+  return { price, totalPrice, priceBreakdown };
+}
+
+// The line items behind Airbnb's "Show price breakdown", e.g. "$120 x 5 nights"
+function parsePriceItems(structuredDisplayPrice: any, currencyHint?: string): PriceItem[] {
+  return asArray(structuredDisplayPrice?.explanationData?.priceDetails)
+    .flatMap((group: any) => asArray(group?.items))
+    .filter((item: any) => asString(item?.description) && asString(item?.priceString))
+    .map((item: any) => {
+      const money = parseMoney(item.priceString, currencyHint);
+      return {
+        description: item.description,
+        amount: money?.amount,
+        currency: money?.currency,
+        priceString: item.priceString,
+      };
+    });
+}
+
+// Airbnb puts the dates each result was priced for into listingParamOverrides
+function parseResolvedDates(overrides: any): ResolvedDates | undefined {
+  const checkin = asString(overrides?.checkin);
+  const checkout = asString(overrides?.checkout);
+  if (!checkin || !checkout) return undefined;
+
+  const nights = nightsBetween(checkin, checkout);
+  return nights && nights > 0 ? { checkin, checkout, nights } : undefined;
+}
+
+export function parseSearchResult(result: any, baseUrl: string, currencyHint?: string): SearchResult | undefined {
+  const listing = result?.demandStayListing;
+  const id = decodeListingId(listing?.id);
+  if (!id) return undefined;
+
+  const structuredContent = result.structuredContent ?? {};
+  const summary = ["primaryLine", "secondaryLine", "mapCategoryInfo", "mapSecondaryLine"]
+    .flatMap(key => asArray(structuredContent[key]))
+    .map((line: any) => asString(line?.body))
+    .filter((line): line is string => line !== undefined);
+
+  const coordinate = listing.location?.coordinate;
+  const resolvedDates = parseResolvedDates(result.listingParamOverrides);
+
+  const url = new URL(`${baseUrl}/rooms/${id}`);
+  if (resolvedDates) {
+    url.searchParams.append("check_in", resolvedDates.checkin);
+    url.searchParams.append("check_out", resolvedDates.checkout);
+  }
+
+  return {
+    id,
+    url: url.toString(),
+    name: asString(listing.description?.name?.localizedStringWithTranslationPreference),
+    title: asString(result.title),
+    coordinates: asCoordinates(coordinate?.latitude, coordinate?.longitude),
+    ...parseRating(result.avgRatingA11yLabel ?? result.avgRatingLocalized),
+    badges: asArray(result.badges)
+      .map((badge: any) => asString(badge?.text))
+      .filter((text): text is string => text !== undefined),
+    summary,
+    resolvedDates,
+    ...parseDisplayPrice(result.structuredDisplayPrice, currencyHint),
+  };
+}
+
+export function parseSearchResults(
+  clientData: any,
+  baseUrl: string,
+  currencyHint?: string,
+  diagnostics: ParseDiagnostics = new ParseDiagnostics("search_results")
+): SearchResults {
+  let results = diagnostics.expect(
+    "data.presentation.staysSearch.results",
+    getPath(clientData, ["data", "presentation", "staysSearch", "results"])
+  );
+  if (!results) {
+    results = findDeep(clientData, value => Array.isArray(value.searchResults));
+    if (!results) {
+      throw new PageStructureError("Could not find search results - page structure may have changed");
+    }
+    diagnostics.fallback("first object with a searchResults array");
+  }
+
+  const rawResults = asArray(diagnostics.expect("results.searchResults", results.searchResults));
+  const searchResults: SearchResult[] = [];
+  let unreadable = 0;
+  for (const raw of rawResults) {
+    const result = parseSearchResult(raw, baseUrl, currencyHint);
+    if (!result) {
+      unreadable++;
+      continue;
+    }
+
+    const issues = validateSearchResult(result);
+    if (issues.length > 0) {
+      log('warn', 'Dropping invalid search result', { id: result.id, issues });
+      continue;
+    }
+    searchResults.push(result);
+  }
+
+  // Some entries can be something other than a stay; none readable means the
+  // listing shape changed
+  if (rawResults.length > 0 && unreadable === rawResults.length) {
+    diagnostics.warn(`None of the ${rawResults.length} results had a readable listing id`);
+  }
+
+  const pagination = diagnostics.optional("results.paginationInfo", results.paginationInfo);
+  const paginationInfo: PaginationInfo = {
+    nextPageCursor: asString(pagination?.nextPageCursor),
+    pageCursors: asArray(pagination?.pageCursors).filter(cursor => typeof cursor === "string"),
+  };
+
+  return { searchResults, paginationInfo, ...diagnostics.warningsField() };
+}
+
+function htmlToText(html: string): string {
+  const $ = cheerio.load(html.replace(/<br\s*\/?>/gi, "\n"));
+  return $.root().text().trim();
+}
+
+const CAPACITY_PATTERNS: [keyof ListingCapacity, RegExp][] = [
+  ["guests", /^(\d+)\+?\s+guests?$/i],
+  ["bedrooms", /^(\d+)\s+bedrooms?$/i],
+  ["beds", /^(\d+)\s+beds?$/i],
+  ["bathrooms", /^(\d+(?:\.\d+)?)\s+(?:private |shared )?(?:baths?|bathrooms?)$/i],
+];
+
+// Overview items ("2 bedrooms"), falling back to the sharing title, which joins
+// the same counts with " · "
+function parseCapacity(overviewItems: string[], sharingTitle?: string): ListingCapacity {
+  const parts = overviewItems.length > 0 ? overviewItems : (sharingTitle?.split("·") ?? []);
+  const capacity: ListingCapacity = {};
+
+  for (const part of parts.map(item => item.trim())) {
+    if (/^studio$/i.test(part)) {
+      capacity.bedrooms ??= 0;
+      continue;
+    }
+    if (/^half-bath$/i.test(part)) {
+      capacity.bathrooms ??= 0.5;
+      continue;
+    }
+    for (const [key, pattern] of CAPACITY_PATTERNS) {
+      const match = part.match(pattern);
+      if (match) {
+        capacity[key] ??= Number(match[1]);
+        break;
+      }
+    }
+  }
+
+  return capacity;
+}
+
+// The photo tour lists every image and groups their ids by room; listings
+// without one only have the few hero images
+function parseListingPhotos(photoTour: any, hero: any): ListingPhoto[] {
+  const rooms = new Map<string, string>();
+  for (const room of asArray(photoTour?.roomTourItems)) {
+    const title = asString(room?.title);
+    if (!title) continue;
+    for (const photoId of asArray(room?.photoIds)) {
+      rooms.set(String(photoId), title);
+    }
+  }
+
+  const mediaItems = asArray(photoTour?.mediaItems);
+  const images = mediaItems.length > 0 ? mediaItems : asArray(hero?.previewImages);
+  const seen = new Set<string>();
+  const photos: ListingPhoto[] = [];
+  for (const image of images) {
+    const url = asString(image?.baseUrl);
+    if (!url || seen.has(url)) continue;
+    seen.add(url);
+    photos.push({
+      url,
+      caption: asString(image.imageMetadata?.caption) ?? asString(image.accessibilityLabel),
+      room: image.id != null ? rooms.get(String(image.id)) : undefined,
+    });
+  }
+  return photos;
+}
+
+export function parseListingDetails(
+  clientData: any,
+  id: string,
+  url: string,
+  diagnostics: ParseDiagnostics = new ParseDiagnostics("listing_details")
+): ListingDetails {
+  const sections = listingSections(clientData, diagnostics);
+  // Sections every listing page has are expected; the others depend on the listing
+  const expectSection = (...sectionIds: string[]) => diagnostics.expect(
+    `section ${sectionIds.join(" or ")}`,
+    sectionIds.map(sectionId => sectionById(sections, sectionId)).find(Boolean)
+  );
+  const optionalSection = (...sectionIds: string[]) => diagnostics.optional(
+    `section ${sectionIds.join(" or ")}`,
+    sectionIds.map(sectionId => sectionById(sections, sectionId)).find(Boolean)
+  );
+
+  const sharingConfig = diagnostics.expect(
+    "data.presentation.stayProductDetailPage.sections.metadata.sharingConfig",
+    getPath(clientData, ["data", "presentation", "stayProductDetailPage", "sections", "metadata", "sharingConfig"])
+  ) ?? {};
+  const location = expectSection("LOCATION_DEFAULT");
+  const policies = expectSection("POLICIES_DEFAULT");
+  const highlights = optionalSection("HIGHLIGHTS_DEFAULT");
+  const description = expectSection("DESCRIPTION_DEFAULT");
+  const amenities = expectSection("AMENITIES_DEFAULT");
+  const reviews = optionalSection("REVIEWS_DEFAULT");
+  const overview = expectSection("OVERVIEW_DEFAULT_V2", "OVERVIEW_DEFAULT");
+  const photoTour = optionalSection("PHOTO_TOUR_SCROLLABLE_MODAL", "PHOTO_TOUR_SCROLLABLE");
+  const hero = optionalSection("HERO_DEFAULT");
+
+  const rating = Number(reviews?.overallRating ?? sharingConfig.starRating);
+  const reviewCount = Number(reviews?.overallCount ?? sharingConfig.reviewCount);
+  const htmlDescription = asString(description?.htmlDescription?.htmlText);
+  const cancellation = policies?.cancellationPolicyForDisplay;
+
+  const houseRules: HouseRulesSection[] = asArray(policies?.houseRulesSections).map((section: any) => ({
+    title: asString(section?.title) ?? "",
+    items: asArray(section?.items)
+      .map((item: any) => asString(item?.title))
+      .filter((title): title is string => title !== undefined),
+  }));
+
+  const amenityGroups: AmenityGroup[] = asArray(amenities?.seeAllAmenitiesGroups).map((group: any) => ({
+    title: asString(group?.title) ?? "",
+    amenities: asArray(group?.amenities)
+      .map((amenity: any) => asString(amenity?.title))
+      .filter((title): title is string => title !== undefined),
+  }));
+
+  const details: ListingDetails = {
+    id,
+    url,
+    title: asString(sharingConfig.title),
+    rating: Number.isFinite(rating) && rating > 0 ? rating : undefined,
+    reviewCount: Number.isInteger(reviewCount) ? reviewCount : undefined,
+    location: location && {
+      title: asString(location.title),
+      subtitle: asString(location.subtitle),
+      coordinates: asCoordinates(location.lat, location.lng),
+    },
+    capacity: parseCapacity(
+      asArray(overview?.overviewItems)
+        .map((item: any) => asString(item?.title))
+        .filter((title): title is string => title !== undefined),
+      asString(sharingConfig.title)
+    ),
+    highlights: asArray(highlights?.highlights)
+      .map((highlight: any) => asString(highlight?.title))
+      .filter((title): title is string => title !== undefined),
+    description: htmlDescription && htmlToText(htmlDescription),
+    policiesTitle: asString(policies?.title),
+    cancellationPolicy: asString(cancellation?.subtitle) ?? asString(cancellation?.title)
+      ?? asString(policies?.cancellationPolicyTitle),
+    houseRules,
+    amenities: amenityGroups,
+    photos: parseListingPhotos(photoTour, hero),
+    ...diagnostics.warningsField(),
+  };
+
+  const issues = validateListingDetails(details);
+  if (issues.length > 0) {
+    throw new PageStructureError(`Listing details failed validation: ${issues.join("; ")}`);
+  }
+
+  return details;
+}
+
+// "CHECKIN" -> "check_in", "CLEANLINESS" -> "cleanliness"
+function categoryKey(categoryType: string): string {
+  const key = categoryType.toLowerCase();
+  return key === "checkin" ? "check_in" : key;
+}
+
+function parseReview(raw: any): Review | undefined {
+  const text = asString(raw?.comments) ?? asString(raw?.localizedReview?.comments);
+  if (!text) return undefined;
+
+  const rating = Number(raw.rating);
+  return {
+    id: raw.id != null ? String(raw.id) : undefined,
+    date: asString(raw.createdAt),
+    localizedDate: asString(raw.localizedDate),
+    language: asString(raw.language),
+    rating: Number.isFinite(rating) && rating > 0 ? rating : undefined,
+    text: htmlToText(text),
+    reviewerName: asString(raw.reviewer?.firstName),
+    hostResponse: asString(raw.response) && htmlToText(raw.response),
+  };
+}
+
+export function parseListingReviews(
+  clientData: any,
+  id: string,
+  url: string,
+  diagnostics: ParseDiagnostics = new ParseDiagnostics("listing_reviews")
+): ListingReviews {
+  const sections = listingSections(clientData, diagnostics);
+  let reviewsSection = diagnostics.expect("section REVIEWS_DEFAULT", sectionById(sections, "REVIEWS_DEFAULT"));
+  if (!reviewsSection) {
+    reviewsSection = sections.map((section: any) => section?.section)
+      .find((section: any) => section?.overallRating !== undefined || section?.overallCount !== undefined);
+    if (!reviewsSection) {
+      throw new PageStructureError("Could not find the reviews section - page structure may have changed");
+    }
+    diagnostics.fallback("first section with an overallRating or overallCount");
+  }
+
+  const overallRating = Number(reviewsSection.overallRating);
+  const reviewCount = Number(reviewsSection.overallCount);
+
+  const categoryRatings: CategoryRating[] = asArray(reviewsSection.ratings)
+    .filter((rating: any) => asString(rating?.categoryType))
+    .map((rating: any) => ({
+      category: categoryKey(rating.categoryType),
+      label: asString(rating.label) ?? rating.categoryType,
+      rating: Number(rating.localizedRating ?? rating.value),
+    }))
+    .filter(rating => Number.isFinite(rating.rating));
+
+  // The modal and the inline preview can list the same review; keep the first copy
+  const seen = new Set<string>();
+  const reviews: Review[] = [];
+  for (const section of sections) {
+    for (const raw of asArray(section?.section?.reviews)) {
+      const review = parseReview(raw);
+      if (!review) continue;
+      const key = review.id ?? review.text;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      reviews.push(review);
+    }
+  }
+
+  const listingReviews: ListingReviews = {
+    id,
+    url,
+    overallRating: Number.isFinite(overallRating) && overallRating > 0 ? overallRating : undefined,
+    reviewCount: Number.isInteger(reviewCount) ? reviewCount : undefined,
+    categoryRatings,
+    reviews,
+    ...diagnostics.warningsField(),
+  };
+
+  const issues = validateListingReviews(listingReviews);
+  if (issues.length > 0) {
+    throw new PageStructureError(`Listing reviews failed validation: ${issues.join("; ")}`);
+  }
+
+  return listingReviews;
+}
+
+function parseCalendarNight(raw: any, currencyHint?: string): CalendarNight | undefined {
+  const date = asString(raw?.calendarDate);
+  if (!date) return undefined;
+
+  const minNights = Number(raw.minNights);
+  const maxNights = Number(raw.maxNights);
+  return {
+    date,
+    available: raw.available === true,
+    minNights: Number.isInteger(minNights) && minNights > 0 ? minNights : undefined,
+    maxNights: Number.isInteger(maxNights) && maxNights > 0 ? maxNights : undefined,
+    // Missing restriction flags mean the night carries no restriction
+    checkinAllowed: raw.availableForCheckin !== false,
+    checkoutAllowed: raw.availableForCheckout !== false,
+    price: parseMoney(raw.price?.localPriceFormatted, currencyHint),
+  };
+}
+
+// The calendar API answers with JSON rather than a page, grouped by month
+export function parseListingAvailability(
+  response: any,
+  id: string,
+  url: string,
+  currencyHint?: string,
+  diagnostics: ParseDiagnostics = new ParseDiagnostics("listing_availability")
+): ListingAvailability {
+  let calendarMonths = getPath(response, ["data", "merlin", "pdpAvailabilityCalendar", "calendarMonths"]);
+  if (!diagnostics.expect("data.merlin.pdpAvailabilityCalendar.calendarMonths", Array.isArray(calendarMonths) ? calendarMonths : undefined)) {
+    calendarMonths = findDeep(response, value => Array.isArray(value.calendarMonths))?.calendarMonths;
+    if (!calendarMonths) {
+      throw new PageStructureError("Could not find calendar months - the calendar API response may have changed");
+    }
+    diagnostics.fallback("first object with a calendarMonths array");
+  }
+
+  // Months overlap at their edges, so the same date can appear twice
+  const byDate = new Map<string, CalendarNight>();
+  for (const month of calendarMonths) {
+    for (const raw of asArray(month?.days)) {
+      const night = parseCalendarNight(raw, currencyHint);
+      if (night && !byDate.has(night.date)) byDate.set(night.date, night);
+    }
+  }
+
+  const availability: ListingAvailability = {
+    id,
+    url,
+    nights: [...byDate.values()].sort((a, b) => a.date.localeCompare(b.date)),
+    ...diagnostics.warningsField(),
+  };
+
+  const issues = validateListingAvailability(availability);
+  if (issues.length > 0) {
+    throw new PageStructureError(`Listing availability failed validation: ${issues.join("; ")}`);
+  }
+
+  return availability;
+}
+
+// "$120 x 5 nights", "5 nights x $120.00" or "$120.00 × 5 nights"
+function parseNightlyRate(description: string, currencyHint?: string): number | undefined {
+  const match = description.match(/(\S*\d[\d.,]*\S*)\s*[x×]\s*\d+\s*nights?/i)
+    ?? description.match(/\d+\s*nights?\s*[x×]\s*(\S*\d[\d.,]*\S*)/i);
+  return match ? parseMoney(match[1], currencyHint)?.amount : undefined;
+}
+
+function isDeduction(item: PriceItem): boolean {
+  return /^\s*[-−–]/.test(item.priceString) || /discount|\boff\b|credit|coupon/i.test(item.description);
+}
+
+// Classify the booking sidebar's line items into the usual price components.
+// Unrecognized charges are kept in otherFees so nothing is silently dropped.
+export function parsePriceQuote(
+  clientData: any,
+  request: { id: string; url: string; checkin: string; checkout: string },
+  currencyHint?: string,
+  diagnostics: ParseDiagnostics = new ParseDiagnostics("price_quote")
+): PriceQuote {
+  const sections = listingSections(clientData, diagnostics);
+  let bookIt = diagnostics.expect(
+    "section BOOK_IT_SIDEBAR or BOOK_IT_FLOATING_FOOTER",
+    sectionById(sections, "BOOK_IT_SIDEBAR") ?? sectionById(sections, "BOOK_IT_FLOATING_FOOTER")
+  );
+  if (!bookIt) {
+    bookIt = sections.map((section: any) => section?.section)
+      .find((section: any) => section?.structuredDisplayPrice?.explanationData !== undefined);
+    if (!bookIt) {
+      throw new PageStructureError("Could not find the booking section - page structure may have changed");
+    }
+    diagnostics.fallback("first section with a price breakdown");
+  }
+
+  const nights = nightsBetween(request.checkin, request.checkout) ?? 0;
+  const lineItems = parsePriceItems(bookIt.structuredDisplayPrice, currencyHint);
+  const quote: PriceQuote = {
+    ...request,
+    nights,
+    available: false,
+    discounts: [],
+    otherFees: [],
+    lineItems,
+  };
+
+  for (const item of lineItems) {
+    if (item.amount === undefined) continue;
+    quote.currency ??= item.currency;
+
+    const adjustment = { description: item.description, amount: item.amount };
+    if (/^total/i.test(item.description)) {
+      quote.total = item.amount;
+      quote.totalIncludesTaxes = !/before tax/i.test(item.description);
+    } else if (isDeduction(item)) {
+      quote.discounts.push(adjustment);
+    } else if (/cleaning/i.test(item.description)) {
+      quote.cleaningFee = (quote.cleaningFee ?? 0) + item.amount;
+    } else if (/service fee/i.test(item.description)) {
+      quote.serviceFee = (quote.serviceFee ?? 0) + item.amount;
+    } else if (/tax/i.test(item.description)) {
+      quote.taxes = (quote.taxes ?? 0) + item.amount;
+    } else if (quote.accommodation === undefined && /nights?/i.test(item.description)) {
+      quote.accommodation = item.amount;
+      quote.nightlyRate = parseNightlyRate(item.description, currencyHint);
+    } else {
+      quote.otherFees.push(adjustment);
+    }
+  }
+
+  // Without a "Total" line, fall back to the total shown next to the price
+  if (quote.total === undefined) {
+    const { totalPrice } = parseDisplayPrice(bookIt.structuredDisplayPrice, currencyHint);
+    if (totalPrice) {
+      quote.total = totalPrice.amount;
+      quote.currency ??= totalPrice.currency;
+    }
+  }
+  if (quote.nightlyRate === undefined && quote.accommodation !== undefined && nights > 0) {
+    quote.nightlyRate = Math.round((quote.accommodation / nights) * 100) / 100;
+  }
+  quote.available = quote.total !== undefined;
+  Object.assign(quote, diagnostics.warningsField());
+
+  const issues = validatePriceQuote(quote);
+  if (issues.length > 0) {
+    throw new PageStructureError(`Price quote failed validation: ${issues.join("; ")}`);
+  }
+
+  return quote;
+}
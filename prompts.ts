@@ -0,0 +1,222 @@
+// MCP prompts for everyday trip-planning workflows. Each one turns a few
+// arguments into instructions that walk the model through the tools.
+
+export interface PromptArgument {
+  name: string;
+  description: string;
+  required?: boolean;
+}
+
+export interface PromptDefinition {
+  name: string;
+  title: string;
+  description: string;
+  arguments: PromptArgument[];
+}
+
+type PromptArgs = Record<string, string | undefined>;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const stayArguments: PromptArgument[] = [
+  { name: "checkin", description: "Check-in date (YYYY-MM-DD)" },
+  { name: "checkout", description: "Check-out date (YYYY-MM-DD)" },
+];
+
+export const AIRBNB_PROMPTS: PromptDefinition[] = [
+  {
+    name: "family_friendly_stay",
+    title: "Find a family-friendly stay",
+    description: "Search for stays that suit a family with children, infants or pets, and check each shortlisted listing's rules and amenities",
+    arguments: [
+      { name: "location", description: "Where to stay", required: true },
+      ...stayArguments,
+      { name: "adults", description: "Number of adults (default 2)" },
+      { name: "children", description: "Number of children aged 2-12" },
+      { name: "infants", description: "Number of infants under 2" },
+      { name: "pets", description: "Number of pets" },
+      { name: "maxPrice", description: "Maximum price per night" },
+    ],
+  },
+  {
+    name: "group_trip_budget",
+    title: "Plan a group trip on a budget",
+    description: "Find stays that sleep a whole group within a budget per person for the trip, and compare the best options",
+    arguments: [
+      { name: "location", description: "Where to stay", required: true },
+      { name: "checkin", description: "Check-in date (YYYY-MM-DD)", required: true },
+      { name: "checkout", description: "Check-out date (YYYY-MM-DD)", required: true },
+      { name: "groupSize", description: "Number of travellers", required: true },
+      { name: "budgetPerPerson", description: "Budget per person for the whole stay", required: true },
+      { name: "currency", description: "ISO currency of the budget, e.g. EUR" },
+    ],
+  },
+  {
+    name: "compare_listings",
+    title: "Compare listings",
+    description: "Compare several listings side by side and recommend one",
+    arguments: [
+      { name: "ids", description: "Comma-separated Airbnb listing IDs (2 to 10)", required: true },
+      ...stayArguments,
+      { name: "priorities", description: "What matters most, e.g. \"price, quiet, near the beach\"" },
+    ],
+  },
+  {
+    name: "accessibility_check",
+    title: "Check a listing's accessibility",
+    description: "Check whether a listing fits specific accessibility needs, and say what to ask the host where the listing doesn't tell",
+    arguments: [
+      { name: "id", description: "Airbnb listing ID", required: true },
+      { name: "needs", description: "Accessibility needs, e.g. \"wheelchair user, needs step-free entrance and roll-in shower\"", required: true },
+      ...stayArguments,
+    ],
+  },
+];
+
+function count(args: PromptArgs, name: string, fallback: number): number {
+  return args[name] ? Number(args[name]) : fallback;
+}
+
+export function validatePromptArguments(name: string, args: PromptArgs): string[] {
+  const prompt = AIRBNB_PROMPTS.find(candidate => candidate.name === name);
+  if (!prompt) {
+    return [`Unknown prompt: ${name}`];
+  }
+
+  const errors = prompt.arguments
+    .filter(argument => argument.required && !args[argument.name]?.trim())
+    .map(argument => `${argument.name} is required`);
+
+  for (const key of ["checkin", "checkout"]) {
+    if (args[key] && !DATE_PATTERN.test(args[key]!)) {
+      errors.push(`${key} must be a date in YYYY-MM-DD format`);
+    }
+  }
+  if (Boolean(args.checkin) !== Boolean(args.checkout)) {
+    errors.push("checkin and checkout must be given together");
+  }
+  for (const key of ["adults", "children", "infants", "pets", "groupSize"]) {
+    if (args[key] && !/^\d+$/.test(args[key]!)) {
+      errors.push(`${key} must be a whole number`);
+    }
+  }
+  for (const key of ["maxPrice", "budgetPerPerson"]) {
+    if (args[key] && !(Number(args[key]) > 0)) {
+      errors.push(`${key} must be a positive number`);
+    }
+  }
+  if (name === "compare_listings" && args.ids) {
+    const ids = args.ids.split(",").map(id => id.trim()).filter(Boolean);
+    if (ids.length < 2 || ids.length > 10 || ids.some(id => !/^\d+$/.test(id))) {
+      errors.push("ids must be 2 to 10 comma-separated numeric listing IDs");
+    }
+  }
+
+  return errors;
+}
+
+function datesLine(args: PromptArgs): string {
+  return args.checkin && args.checkout
+    ? `Dates: ${args.checkin} to ${args.checkout}.`
+    : "No dates yet: search without dates, and ask me for dates before quoting totals.";
+}
+
+function familyFriendlyStay(args: PromptArgs): string {
+  const adults = count(args, "adults", 2);
+  const children = count(args, "children", 0);
+  const infants = count(args, "infants", 0);
+  const pets = count(args, "pets", 0);
+  const party = [
+    `${adults} adult${adults === 1 ? "" : "s"}`,
+    children > 0 && `${children} child${children === 1 ? "" : "ren"}`,
+    infants > 0 && `${infants} infant${infants === 1 ? "" : "s"}`,
+    pets > 0 && `${pets} pet${pets === 1 ? "" : "s"}`,
+  ].filter(Boolean).join(", ");
+
+  return [
+    `Find a family-friendly place to stay in ${args.location} for ${party}.`,
+    datesLine(args),
+    "",
+    `1. Call airbnb_search with location "${args.location}"${args.checkin ? `, checkin ${args.checkin}, checkout ${args.checkout}` : ""}, adults ${adults}, children ${children}, infants ${infants} and pets ${pets}` +
+      `${args.maxPrice ? `, maxPrice ${args.maxPrice}` : ""}. Prefer roomType "entire_home"${children + infants > 0 ? " and minBedrooms 2" : ""}, and use filters.minRating 4.5 to drop poorly rated places.`,
+    "2. Shortlist up to 5 results and call airbnb_listing_details for each with the same dates and guests.",
+    "3. For each, check:",
+    "   - house rules: anything like \"not suitable for children\", \"no infants\" or \"no pets\" rules it out",
+    infants > 0 && "   - amenities for a crib or travel cot, high chair and baby bath",
+    children > 0 && "   - amenities for children's books and toys, board games, and a yard or nearby outdoor space",
+    pets > 0 && "   - \"Pets allowed\" in the amenities or house rules, and any pet fee in the price",
+    "   - safety: stairs or pool without gates, smoke and carbon monoxide alarms",
+    "   - kitchen, washer and enough beds for everyone",
+    "   - the cancellation policy",
+    "4. Recommend the best 2-3 with a short reason each, the link, and anything I should confirm with the host.",
+  ].filter(line => line !== false).join("\n");
+}
+
+function groupTripBudget(args: PromptArgs): string {
+  const groupSize = Number(args.groupSize);
+  const perPerson = Number(args.budgetPerPerson);
+  const total = Math.round(groupSize * perPerson * 100) / 100;
+  const currency = args.currency ? ` ${args.currency}` : "";
+
+  return [
+    `Plan a stay in ${args.location} for a group of ${groupSize}, from ${args.checkin} to ${args.checkout}.`,
+    `The budget is ${perPerson}${currency} per person for the whole stay, so ${total}${currency} in total including fees.`,
+    "",
+    `1. Call airbnb_search with location "${args.location}", checkin ${args.checkin}, checkout ${args.checkout}, adults ${groupSize}, ` +
+      `filters.maxTotalPrice ${total}, sortBy "total_price"${args.currency ? ` and currency "${args.currency}"` : ""}. ` +
+      `Ask for minBeds ${Math.ceil(groupSize / 2)} (at most two people per bed), and use maxPages 3 if there are few results.`,
+    "2. If nothing fits, say so, then search again without the price limit and show how far over budget the cheapest options are.",
+    "3. Call airbnb_compare_listings with the ids of the best 3-5 results and the same dates and guests.",
+    "4. For each, give the total, the cost per person, beds and bathrooms per person, and sleeping arrangements that are a poor fit for a group (e.g. sofa beds or shared rooms).",
+    "5. Recommend one, and call airbnb_price_quote for it to confirm the final price with every fee.",
+  ].join("\n");
+}
+
+function compareListings(args: PromptArgs): string {
+  const ids = args.ids!.split(",").map(id => id.trim()).filter(Boolean);
+
+  return [
+    `Compare these Airbnb listings: ${ids.join(", ")}.`,
+    args.checkin ? datesLine(args) : "No dates given, so compare everything except prices.",
+    args.priorities ? `What matters most to me: ${args.priorities}.` : "",
+    "",
+    `1. Call airbnb_compare_listings with ids ${JSON.stringify(ids)}${args.checkin ? `, checkin ${args.checkin} and checkout ${args.checkout}` : ""}.`,
+    "2. Where the comparison is missing something that matters for the decision, call airbnb_listing_details for that listing.",
+    "3. Show a short side-by-side summary, point out the real trade-offs between them, and recommend one" +
+      (args.priorities ? " based on my priorities." : "."),
+    "4. Mention any listing that failed to load rather than leaving it out.",
+  ].join("\n").replace(/\n{3,}/g, "\n\n");
+}
+
+function accessibilityCheck(args: PromptArgs): string {
+  return [
+    `Check whether Airbnb listing ${args.id} fits these accessibility needs: ${args.needs}.`,
+    args.checkin ? `Dates: ${args.checkin} to ${args.checkout}.` : "",
+    "",
+    `1. Call airbnb_listing_details with id "${args.id}"${args.checkin ? `, checkin ${args.checkin} and checkout ${args.checkout}` : ""}.`,
+    "2. Look for evidence in the amenities (especially an accessibility features group), house rules, description, highlights and photo captions. " +
+      "Relevant items include step-free entrance and path, entrance and doorway widths, elevator, ground-floor bedroom, roll-in or step-free shower, grab bars, shower chair, accessible parking and the floor the listing is on.",
+    "3. Go through each of my needs and mark it as met, not met or unknown, quoting what the listing says.",
+    "4. Don't assume a need is met because the listing doesn't mention a problem. List the questions to ask the host for every unknown.",
+    "5. End with an overall verdict: suitable, possibly suitable after checking with the host, or not suitable.",
+  ].join("\n").replace(/\n{3,}/g, "\n\n");
+}
+
+const BUILDERS: Record<string, (args: PromptArgs) => string> = {
+  family_friendly_stay: familyFriendlyStay,
+  group_trip_budget: groupTripBudget,
+  compare_listings: compareListings,
+  accessibility_check: accessibilityCheck,
+};
+
+// Arguments must have passed validatePromptArguments
+export function buildPrompt(name: string, args: PromptArgs) {
+  const prompt = AIRBNB_PROMPTS.find(candidate => candidate.name === name)!;
+  return {
+    description: prompt.description,
+    messages: [{
+      role: "user" as const,
+      content: { type: "text" as const, text: BUILDERS[name](args).trim() }
+    }]
+  };
+}
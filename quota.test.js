@@ -0,0 +1,74 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { UsageTracker } from './dist/quota.js';
+import { QuotaExceededError } from './dist/errors.js';
+
+const limits = (toolCalls, fetches = { minute: 0, day: 0 }) => ({ toolCalls, fetches });
+
+// 2026-11-06 23:59:10 UTC, so the minute and the day both end soon after
+const NOW = Date.UTC(2026, 10, 6, 23, 59, 10);
+
+test('a full minute window rejects until the next minute starts', () => {
+  const tracker = new UsageTracker(limits({ minute: 2, day: 0 }));
+  tracker.charge('a', 'toolCalls', 1, NOW);
+  tracker.charge('a', 'toolCalls', 1, NOW + 1000);
+
+  assert.throws(() => tracker.charge('a', 'toolCalls', 1, NOW + 2000), error => {
+    assert.ok(error instanceof QuotaExceededError);
+    assert.equal(error.quota, 'tool calls per minute');
+    assert.equal(error.resetAt.toISOString(), '2026-11-07T00:00:00.000Z');
+    return true;
+  });
+
+  // 23:59:59.999 is still the same minute; 00:00 is a new one
+  assert.throws(() => tracker.charge('a', 'toolCalls', 1, Date.UTC(2026, 10, 6, 23, 59, 59, 999)), QuotaExceededError);
+  tracker.charge('a', 'toolCalls', 1, Date.UTC(2026, 10, 7, 0, 0, 0));
+});
+
+test('the day window resets at midnight UTC', () => {
+  const tracker = new UsageTracker(limits({ minute: 0, day: 3 }));
+  tracker.charge('a', 'toolCalls', 3, Date.UTC(2026, 10, 6, 8));
+  assert.throws(() => tracker.charge('a', 'toolCalls', 1, Date.UTC(2026, 10, 6, 23, 59)), /tool calls per day/);
+  tracker.charge('a', 'toolCalls', 1, Date.UTC(2026, 10, 7, 0, 1));
+
+  const [report] = tracker.report(Date.UTC(2026, 10, 7, 0, 1)).clients;
+  assert.deepEqual(report.toolCalls.day, { used: 1, limit: 3, resetAt: '2026-11-08T00:00:00.000Z' });
+  assert.equal(report.toolCalls.total, 4);
+  assert.equal(report.toolCalls.rejected, 1);
+});
+
+test('a batch that does not fit is rejected whole and charges nothing', () => {
+  const tracker = new UsageTracker(limits({ minute: 5, day: 0 }));
+  tracker.charge('a', 'toolCalls', 3, NOW);
+  assert.throws(() => tracker.charge('a', 'toolCalls', 3, NOW), QuotaExceededError);
+
+  const [report] = tracker.report(NOW).clients;
+  assert.equal(report.toolCalls.minute.used, 3);
+  assert.equal(report.toolCalls.rejected, 3);
+  tracker.charge('a', 'toolCalls', 2, NOW);
+});
+
+test('clients and kinds are counted separately, and 0 means unlimited', () => {
+  const tracker = new UsageTracker(limits({ minute: 1, day: 0 }));
+  tracker.charge('a', 'toolCalls', 1, NOW);
+  tracker.charge('b', 'toolCalls', 1, NOW);
+  for (let i = 0; i < 50; i++) tracker.charge('a', 'fetches', 1, NOW);
+  assert.throws(() => tracker.charge('a', 'toolCalls', 1, NOW), QuotaExceededError);
+
+  assert.equal(new UsageTracker(limits({ minute: 0, day: 0 })).enabled, false);
+  assert.equal(tracker.enabled, true);
+});
+
+test('only the 1000 most recently seen clients are remembered', () => {
+  const tracker = new UsageTracker(limits({ minute: 0, day: 0 }));
+  for (let i = 0; i < 1000; i++) tracker.charge(`client-${i}`, 'fetches', 1, NOW + i);
+  // Seeing client-0 again makes client-1 the oldest, so it is the one dropped
+  tracker.charge('client-0', 'fetches', 1, NOW + 1000);
+  tracker.charge('client-1000', 'fetches', 1, NOW + 1001);
+
+  const clients = tracker.report(NOW + 1001).clients.map(entry => entry.client);
+  assert.equal(clients.length, 1000);
+  assert.equal(clients[0], 'client-1000');
+  assert.equal(clients[1], 'client-0');
+  assert.equal(clients.includes('client-1'), false);
+});
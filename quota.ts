@@ -0,0 +1,185 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { CONFIG } from "./config.js";
+import { QuotaExceededError } from "./errors.js";
+
+// Per-client quotas for the shared HTTP server. Tool calls are charged by the
+// HTTP handler; upstream fetches are charged where tools fetch from Airbnb,
+// against the client whose request is being served. Windows are fixed: a
+// minute quota resets at the start of the next minute, a day quota at
+// midnight UTC. Counters live in memory and start over on restart.
+
+export type QuotaKind = "toolCalls" | "fetches";
+export type QuotaWindow = "minute" | "day";
+
+// 0 means unlimited
+export type QuotaLimits = Record<QuotaKind, Record<QuotaWindow, number>>;
+
+export const QUOTA_LIMITS: QuotaLimits = {
+  toolCalls: { minute: CONFIG.quotas.toolCallsPerMinute, day: CONFIG.quotas.toolCallsPerDay },
+  fetches: { minute: CONFIG.quotas.fetchesPerMinute, day: CONFIG.quotas.fetchesPerDay },
+};
+
+// Clients remembered for usage reports; the least recently seen are dropped first
+const MAX_CLIENTS = 1000;
+
+const KINDS: QuotaKind[] = ["toolCalls", "fetches"];
+const WINDOWS: QuotaWindow[] = ["minute", "day"];
+
+const QUOTA_NAMES: Record<QuotaKind, Record<QuotaWindow, string>> = {
+  toolCalls: { minute: "tool calls per minute", day: "tool calls per day" },
+  fetches: { minute: "upstream fetches per minute", day: "upstream fetches per day" },
+};
+
+interface WindowCounter {
+  start: number;
+  used: number;
+}
+
+interface KindUsage {
+  windows: Record<QuotaWindow, WindowCounter>;
+  total: number;
+  rejected: number;
+}
+
+interface ClientUsage {
+  firstSeenAt: number;
+  lastSeenAt: number;
+  usage: Record<QuotaKind, KindUsage>;
+}
+
+export interface WindowReport {
+  used: number;
+  limit?: number;
+  resetAt: string;
+}
+
+export interface ClientUsageReport {
+  client: string;
+  firstSeenAt: string;
+  lastSeenAt: string;
+  toolCalls: Record<QuotaWindow, WindowReport> & { total: number; rejected: number };
+  fetches: Record<QuotaWindow, WindowReport> & { total: number; rejected: number };
+}
+
+export interface UsageReport {
+  generatedAt: string;
+  limits: QuotaLimits;
+  clients: ClientUsageReport[];
+}
+
+function windowStart(window: QuotaWindow, now: number): number {
+  if (window === "minute") return Math.floor(now / 60000) * 60000;
+  const date = new Date(now);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+}
+
+function windowEnd(window: QuotaWindow, start: number): number {
+  return start + (window === "minute" ? 60000 : 86400000);
+}
+
+export class UsageTracker {
+  private readonly clients = new Map<string, ClientUsage>();
+
+  constructor(private readonly limits: QuotaLimits = QUOTA_LIMITS) {}
+
+  get enabled(): boolean {
+    return KINDS.some(kind => WINDOWS.some(window => this.limits[kind][window] > 0));
+  }
+
+  // Count `count` units against the client, or throw without counting any if
+  // they don't all fit in every window
+  charge(client: string, kind: QuotaKind, count = 1, now: number = Date.now()): void {
+    const entry = this.touch(client, now);
+    const usage = entry.usage[kind];
+
+    for (const window of WINDOWS) {
+      const counter = this.current(usage, window, now);
+      const limit = this.limits[kind][window];
+      if (limit > 0 && counter.used + count > limit) {
+        usage.rejected += count;
+        throw new QuotaExceededError(client, QUOTA_NAMES[kind][window], limit, new Date(windowEnd(window, counter.start)));
+      }
+    }
+
+    for (const window of WINDOWS) {
+      usage.windows[window].used += count;
+    }
+    usage.total += count;
+  }
+
+  report(now: number = Date.now()): UsageReport {
+    const clients = [...this.clients.entries()].reverse().map(([client, entry]) => {
+      const describe = (kind: QuotaKind) => {
+        const usage = entry.usage[kind];
+        const windows = Object.fromEntries(WINDOWS.map(window => {
+          const counter = this.current(usage, window, now);
+          const limit = this.limits[kind][window];
+          return [window, {
+            used: counter.used,
+            ...(limit > 0 && { limit }),
+            resetAt: new Date(windowEnd(window, counter.start)).toISOString()
+          }];
+        })) as Record<QuotaWindow, WindowReport>;
+        return { ...windows, total: usage.total, rejected: usage.rejected };
+      };
+
+      return {
+        client,
+        firstSeenAt: new Date(entry.firstSeenAt).toISOString(),
+        lastSeenAt: new Date(entry.lastSeenAt).toISOString(),
+        toolCalls: describe("toolCalls"),
+        fetches: describe("fetches")
+      };
+    });
+
+    return { generatedAt: new Date(now).toISOString(), limits: this.limits, clients };
+  }
+
+  private touch(client: string, now: number): ClientUsage {
+    const emptyUsage = (): KindUsage => ({
+      windows: { minute: { start: windowStart("minute", now), used: 0 }, day: { start: windowStart("day", now), used: 0 } },
+      total: 0,
+      rejected: 0
+    });
+    const entry = this.clients.get(client) ?? {
+      firstSeenAt: now,
+      lastSeenAt: now,
+      usage: { toolCalls: emptyUsage(), fetches: emptyUsage() }
+    };
+    entry.lastSeenAt = now;
+
+    // Re-insert to keep recently seen clients last
+    this.clients.delete(client);
+    this.clients.set(client, entry);
+    if (this.clients.size > MAX_CLIENTS) {
+      this.clients.delete(this.clients.keys().next().value!);
+    }
+    return entry;
+  }
+
+  // The counter for the window containing `now`, starting a new one when it moved on
+  private current(usage: KindUsage, window: QuotaWindow, now: number): WindowCounter {
+    const start = windowStart(window, now);
+    if (usage.windows[window].start !== start) {
+      usage.windows[window] = { start, used: 0 };
+    }
+    return usage.windows[window];
+  }
+}
+
+export const usageTracker = new UsageTracker();
+
+// The client whose HTTP request is being served; unset over stdio
+const clientContext = new AsyncLocalStorage<string>();
+
+export function runAsClient<T>(client: string, fn: () => T): T {
+  return clientContext.run(client, fn);
+}
+
+// Charge a fetch from Airbnb to the current client, if any
+export function chargeUpstreamFetch(): void {
+  const client = clientContext.getStore();
+  if (client !== undefined) {
+    usageTracker.charge(client, "fetches");
+  }
+}
@@ -0,0 +1,62 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createResultFilter, sortResults, validateResultRefinement } from './dist/refine.js';
+
+function result(id, fields = {}) {
+  return { id, url: `https://www.airbnb.com/rooms/${id}`, badges: [], ...fields };
+}
+
+const usd = amount => ({ amount, currency: 'USD' });
+
+test('maxTotalPrice needs dates and distance sorting needs a radius search', () => {
+  const context = { hasDates: false, hasCenter: false };
+  assert.deepEqual(validateResultRefinement({ minRating: 4.5, guestFavorite: true }, 'rating', context), []);
+  assert.match(validateResultRefinement({ maxTotalPrice: 500 }, undefined, context)[0], /needs checkin\/checkout or flexibleDates/);
+  assert.deepEqual(validateResultRefinement({ maxTotalPrice: 500 }, undefined, { ...context, hasDates: true }), []);
+  assert.deepEqual(validateResultRefinement(undefined, 'distance', context), ['sortBy distance needs a radius search']);
+});
+
+test('out of range filters and unknown sort keys are reported', () => {
+  const context = { hasDates: true, hasCenter: true };
+  const errors = validateResultRefinement({ minRating: 6, minReviewCount: 1.5, maxTotalPrice: -1 }, 'cheapest', context);
+  assert.equal(errors.length, 4);
+  assert.match(errors[3], /sortBy must be one of price, total_price, rating, review_count, distance/);
+  assert.deepEqual(validateResultRefinement(null, undefined, context), ['filters must be an object']);
+});
+
+test('results missing the data a filter needs are dropped', () => {
+  const filter = createResultFilter({ minRating: 4.5, minReviewCount: 10 });
+  assert.equal(filter.accept(result('1', { rating: 4.9, reviewCount: 30 })), true);
+  assert.equal(filter.accept(result('2', { rating: 4.2, reviewCount: 30 })), false);
+  assert.equal(filter.accept(result('3', { reviewCount: 30 })), false);
+  assert.equal(filter.accept(result('4', { rating: 4.9, reviewCount: 3 })), false);
+  assert.deepEqual(filter.removed, { minRating: 2, minReviewCount: 1 });
+});
+
+test('a listing seen on several pages is counted once', () => {
+  const filter = createResultFilter({ maxTotalPrice: 400 });
+  const pricey = result('1', { totalPrice: usd(900) });
+  filter.accept(pricey);
+  filter.accept(pricey);
+  assert.deepEqual(filter.removed, { maxTotalPrice: 1 });
+});
+
+test('guestFavorite matches the badge in either spelling', () => {
+  const filter = createResultFilter({ guestFavorite: true });
+  assert.equal(filter.accept(result('1', { badges: ['Guest favourite'] })), true);
+  assert.equal(filter.accept(result('2', { badges: ['Superhost'] })), false);
+  assert.equal(createResultFilter({ guestFavorite: false }).accept(result('3')), true);
+});
+
+test('sorting is stable and puts missing values last in either direction', () => {
+  const results = [
+    result('a', { price: usd(120), rating: 4.6 }),
+    result('b', { rating: 4.9 }),
+    result('c', { price: usd(80) }),
+    result('d', { price: usd(120), rating: 4.9 }),
+  ];
+  assert.deepEqual(sortResults(results, 'price').map(r => r.id), ['c', 'a', 'd', 'b']);
+  assert.deepEqual(sortResults(results, 'rating').map(r => r.id), ['b', 'd', 'a', 'c']);
+  // The input order is left alone
+  assert.deepEqual(results.map(r => r.id), ['a', 'b', 'c', 'd']);
+});
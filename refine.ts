@@ -0,0 +1,133 @@
+import { SearchResult } from "./models.js";
+
+// Constraints and orderings Airbnb doesn't offer as URL filters, applied to the
+// parsed results of every page collected
+
+export interface ResultFilters {
+  minRating?: number;
+  minReviewCount?: number;
+  maxTotalPrice?: number; // stay total including fees; needs dates
+  guestFavorite?: boolean;
+}
+
+export const SORT_KEYS = ["price", "total_price", "rating", "review_count", "distance"] as const;
+
+export type SortKey = typeof SORT_KEYS[number];
+
+export const RESULT_REFINEMENT_PROPERTIES = {
+  filters: {
+    type: "object",
+    description: "Drop results that don't meet these constraints. Applied across all pages collected; results missing the data a filter needs are dropped",
+    properties: {
+      minRating: { type: "number", minimum: 0, maximum: 5, description: "Minimum average rating" },
+      minReviewCount: { type: "integer", minimum: 0, description: "Minimum number of reviews" },
+      maxTotalPrice: { type: "number", minimum: 0, description: "Maximum stay total including fees (needs checkin/checkout or flexibleDates)" },
+      guestFavorite: { type: "boolean", description: "Only listings with the Guest favorite badge" }
+    }
+  },
+  sortBy: {
+    type: "string",
+    enum: SORT_KEYS,
+    description: "Order results by nightly price or total price (lowest first), rating or review count (highest first), or distance (nearest first, radius searches only)"
+  }
+};
+
+export function validateResultRefinement(
+  filters: ResultFilters | undefined,
+  sortBy: SortKey | undefined,
+  context: { hasDates: boolean; hasCenter: boolean }
+): string[] {
+  const errors: string[] = [];
+
+  if (filters !== undefined) {
+    if (typeof filters !== "object" || filters === null) {
+      return ["filters must be an object"];
+    }
+    const { minRating, minReviewCount, maxTotalPrice, guestFavorite } = filters;
+    if (minRating !== undefined && (typeof minRating !== "number" || minRating < 0 || minRating > 5)) {
+      errors.push(`filters.minRating must be between 0 and 5, got ${JSON.stringify(minRating)}`);
+    }
+    if (minReviewCount !== undefined && (!Number.isInteger(minReviewCount) || minReviewCount < 0)) {
+      errors.push(`filters.minReviewCount must be a non-negative integer, got ${JSON.stringify(minReviewCount)}`);
+    }
+    if (maxTotalPrice !== undefined) {
+      if (typeof maxTotalPrice !== "number" || !(maxTotalPrice >= 0)) {
+        errors.push(`filters.maxTotalPrice must be a non-negative number, got ${JSON.stringify(maxTotalPrice)}`);
+      } else if (!context.hasDates) {
+        errors.push("filters.maxTotalPrice needs checkin/checkout or flexibleDates; Airbnb only shows totals for dated searches");
+      }
+    }
+    if (guestFavorite !== undefined && typeof guestFavorite !== "boolean") {
+      errors.push("filters.guestFavorite must be a boolean");
+    }
+  }
+
+  if (sortBy !== undefined) {
+    if (!SORT_KEYS.includes(sortBy)) {
+      errors.push(`sortBy must be one of ${SORT_KEYS.join(", ")}, got ${JSON.stringify(sortBy)}`);
+    } else if (sortBy === "distance" && !context.hasCenter) {
+      errors.push("sortBy distance needs a radius search");
+    }
+  }
+
+  return errors;
+}
+
+type FilterName = keyof ResultFilters;
+
+const GUEST_FAVORITE_BADGE = /guest favou?rite/i;
+
+// Each check returns true when the result passes
+const CHECKS: { [K in FilterName]-?: (result: SearchResult, limit: NonNullable<ResultFilters[K]>) => boolean } = {
+  minRating: (result, min) => result.rating !== undefined && result.rating >= min,
+  minReviewCount: (result, min) => result.reviewCount !== undefined && result.reviewCount >= min,
+  maxTotalPrice: (result, max) => result.totalPrice !== undefined && result.totalPrice.amount <= max,
+  guestFavorite: (result, required) => !required || result.badges.some(badge => GUEST_FAVORITE_BADGE.test(badge)),
+};
+
+export interface ResultFilter {
+  accept: (result: SearchResult) => boolean;
+  // Listings removed per filter; a listing failing several is counted under the first
+  removed: Partial<Record<FilterName, number>>;
+}
+
+export function createResultFilter(filters: ResultFilters = {}): ResultFilter {
+  const active = (Object.keys(CHECKS) as FilterName[]).filter(name => filters[name] !== undefined);
+  const removed: Partial<Record<FilterName, number>> = Object.fromEntries(active.map(name => [name, 0]));
+  // The same listing can show up on several pages; count it once
+  const counted = new Set<string>();
+
+  const accept = (result: SearchResult) => {
+    const failed = active.find(name => !(CHECKS[name] as (r: SearchResult, limit: unknown) => boolean)(result, filters[name]));
+    if (failed === undefined) return true;
+    if (!counted.has(result.id)) {
+      counted.add(result.id);
+      removed[failed]!++;
+    }
+    return false;
+  };
+
+  return { accept, removed };
+}
+
+// Missing values always sort last, whatever the direction
+const SORT_VALUES: Record<SortKey, { value: (result: SearchResult) => number | undefined; descending: boolean }> = {
+  price: { value: result => result.price?.amount, descending: false },
+  total_price: { value: result => result.totalPrice?.amount, descending: false },
+  rating: { value: result => result.rating, descending: true },
+  review_count: { value: result => result.reviewCount, descending: true },
+  distance: { value: result => result.distanceKm, descending: false },
+};
+
+// Returns a sorted copy; ties keep Airbnb's order
+export function sortResults(results: SearchResult[], sortBy: SortKey): SearchResult[] {
+  const { value, descending } = SORT_VALUES[sortBy];
+  return [...results].sort((a, b) => {
+    const left = value(a);
+    const right = value(b);
+    if (left === undefined || right === undefined) {
+      return (left === undefined ? 1 : 0) - (right === undefined ? 1 : 0);
+    }
+    return descending ? right - left : left - right;
+  });
+}
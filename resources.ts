@@ -0,0 +1,161 @@
+import { createHash } from 'crypto';
+import { CONFIG } from "./config.js";
+
+// Listings and searches exposed as MCP resources, so clients can attach them
+// to context, re-read them and subscribe to changes
+
+export const RESOURCE_CONFIG = {
+  // How often subscribed resources are re-fetched to look for changes (0 disables)
+  refreshIntervalMs: CONFIG.resources.refreshMinutes * 60000,
+  // Listings and searches remembered for resources/list; subscribed ones are never dropped
+  maxResources: CONFIG.resources.maxEntries,
+};
+
+export const RESOURCE_TEMPLATES = [
+  {
+    uriTemplate: "airbnb://listing/{id}",
+    name: "listing",
+    title: "Airbnb listing",
+    description: "Details of an Airbnb listing: location, capacity, amenities, house rules, cancellation policy and photo gallery",
+    mimeType: "application/json"
+  },
+  {
+    uriTemplate: "airbnb://search/{hash}",
+    name: "search",
+    title: "Airbnb search",
+    description: "Current results of a search run with airbnb_search or saved with airbnb_save_search; the hash comes from the search's resourceUri",
+    mimeType: "application/json"
+  },
+];
+
+export type ResourceRef =
+  | { type: "listing"; id: string }
+  | { type: "search"; hash: string };
+
+export interface KnownResource {
+  uri: string;
+  name: string;
+  title?: string;
+  description?: string;
+  mimeType: string;
+}
+
+export function listingUri(id: string): string {
+  return `airbnb://listing/${id}`;
+}
+
+export function searchUri(hash: string): string {
+  return `airbnb://search/${hash}`;
+}
+
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${canonicalJson(item)}`).join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+// The same search always gets the same hash, whatever the argument order;
+// the cursor and robots override don't change what is being searched
+export function searchHash(params: Record<string, unknown>): string {
+  const { cursor: _cursor, ignoreRobotsText: _ignore, ...search } = params;
+  return createHash("sha256").update(canonicalJson(search)).digest("hex").slice(0, 16);
+}
+
+export function parseResourceUri(uri: string): ResourceRef | undefined {
+  const listing = uri.match(/^airbnb:\/\/listing\/(\d+)$/);
+  if (listing) return { type: "listing", id: listing[1] };
+
+  const search = uri.match(/^airbnb:\/\/search\/([0-9a-f]{16})$/);
+  if (search) return { type: "search", hash: search[1] };
+
+  return undefined;
+}
+
+// What the server knows about its resources: those seen since startup, the
+// arguments behind each search hash, a digest of what was last served for
+// each URI, and which clients subscribed to which URIs
+export class ResourceRegistry<Subscriber = unknown> {
+  private readonly resources = new Map<string, KnownResource>();
+  private readonly searches = new Map<string, Record<string, unknown>>();
+  private readonly digests = new Map<string, string>();
+  private readonly subscriptions = new Map<string, Set<Subscriber>>();
+
+  constructor(private readonly maxResources: number = RESOURCE_CONFIG.maxResources) {}
+
+  // Returns true when the resource wasn't known yet
+  register(resource: KnownResource): boolean {
+    const known = this.resources.has(resource.uri);
+    // Re-insert to keep recently used resources last in the list
+    this.resources.delete(resource.uri);
+    this.resources.set(resource.uri, resource);
+    this.evict();
+    return !known;
+  }
+
+  registerSearch(hash: string, params: Record<string, unknown>, resource: KnownResource): boolean {
+    this.searches.set(hash, params);
+    return this.register(resource);
+  }
+
+  searchParams(hash: string): Record<string, unknown> | undefined {
+    return this.searches.get(hash);
+  }
+
+  list(): KnownResource[] {
+    return [...this.resources.values()].reverse();
+  }
+
+  // Returns true when the content differs from what was last served for this URI
+  recordContent(uri: string, content: string): boolean {
+    const digest = createHash("sha256").update(content).digest("hex");
+    const previous = this.digests.get(uri);
+    this.digests.set(uri, digest);
+    return previous !== undefined && previous !== digest;
+  }
+
+  subscribe(uri: string, subscriber: Subscriber): void {
+    const subscribers = this.subscriptions.get(uri) ?? new Set<Subscriber>();
+    subscribers.add(subscriber);
+    this.subscriptions.set(uri, subscribers);
+  }
+
+  unsubscribe(uri: string, subscriber: Subscriber): void {
+    const subscribers = this.subscriptions.get(uri);
+    subscribers?.delete(subscriber);
+    if (subscribers?.size === 0) this.subscriptions.delete(uri);
+  }
+
+  // Forget every subscription of a client that went away
+  removeSubscriber(subscriber: Subscriber): void {
+    for (const uri of [...this.subscriptions.keys()]) {
+      this.unsubscribe(uri, subscriber);
+    }
+  }
+
+  subscribers(uri: string): Subscriber[] {
+    return [...(this.subscriptions.get(uri) ?? [])];
+  }
+
+  // URIs with at least one subscriber
+  subscribed(): string[] {
+    return [...this.subscriptions.keys()];
+  }
+
+  private evict(): void {
+    for (const uri of this.resources.keys()) {
+      if (this.resources.size <= this.maxResources) return;
+      if (this.subscriptions.has(uri)) continue;
+      this.resources.delete(uri);
+      this.digests.delete(uri);
+      const ref = parseResourceUri(uri);
+      if (ref?.type === "search") this.searches.delete(ref.hash);
+    }
+  }
+}
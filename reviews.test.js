@@ -0,0 +1,45 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { pageFetchedReviews, validateReviewPageOptions } from './dist/reviews.js';
+
+const reviews = [
+  { text: 'Fine', rating: 4, date: '2026-05-01' },
+  { text: 'Great', rating: 5, date: '2026-03-01' },
+  { text: 'Poor', rating: 2, date: '2026-06-01' },
+  { text: 'No rating', date: '2026-07-01' },
+];
+const texts = page => page.reviews.map(review => review.text);
+
+test('pages through the reviews on the page', () => {
+  const first = pageFetchedReviews(reviews, 4, { limit: 3 });
+  assert.deepEqual(texts(first), ['Fine', 'Great', 'Poor']);
+  assert.deepEqual(first.pagination, { offset: 0, limit: 3, reviewsOnPage: 4, reviewCount: 4, hasMore: true, nextOffset: 3, truncated: false });
+
+  const last = pageFetchedReviews(reviews, 4, { limit: 3, offset: 3 });
+  assert.deepEqual(texts(last), ['No rating']);
+  assert.equal(last.pagination.hasMore, false);
+  assert.equal(last.pagination.nextOffset, undefined);
+});
+
+test('a listing with more reviews than the page shows is truncated', () => {
+  const page = pageFetchedReviews(reviews, 250, { limit: 10 });
+  assert.equal(page.pagination.hasMore, false);
+  assert.equal(page.pagination.truncated, true);
+  assert.equal(page.pagination.reviewCount, 250);
+
+  // Without a count from the page there is nothing to compare against
+  assert.equal(pageFetchedReviews(reviews, undefined, {}).pagination.truncated, false);
+});
+
+test('sorts by date or rating, missing values last', () => {
+  assert.deepEqual(texts(pageFetchedReviews(reviews, 4, { sortBy: 'most_recent' })), ['No rating', 'Poor', 'Fine', 'Great']);
+  assert.deepEqual(texts(pageFetchedReviews(reviews, 4, { sortBy: 'highest_rated' })), ['Great', 'Fine', 'Poor', 'No rating']);
+  assert.deepEqual(texts(pageFetchedReviews(reviews, 4, { sortBy: 'lowest_rated' })), ['Poor', 'Fine', 'Great', 'No rating']);
+  // The parsed order is left alone
+  assert.deepEqual(reviews.map(review => review.text), ['Fine', 'Great', 'Poor', 'No rating']);
+});
+
+test('invalid paging options are reported', () => {
+  assert.deepEqual(validateReviewPageOptions({ sortBy: 'most_recent', limit: 50, offset: 0 }), []);
+  assert.equal(validateReviewPageOptions({ sortBy: 'newest', limit: 51, offset: -1 }).length, 3);
+});
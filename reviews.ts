@@ -0,0 +1,106 @@
+import { Review } from "./models.js";
+
+// Sorting and paging over the reviews parsed from a listing's reviews page.
+// Airbnb renders only the first batch of reviews there, so sorting and paging
+// cover that batch, not every review the listing has.
+
+export const REVIEW_SORT_ORDERS = ["relevance", "most_recent", "highest_rated", "lowest_rated"] as const;
+
+export type ReviewSortOrder = typeof REVIEW_SORT_ORDERS[number];
+
+export const DEFAULT_REVIEW_LIMIT = 10;
+export const MAX_REVIEW_LIMIT = 50;
+
+export interface ReviewPageOptions {
+  sortBy?: ReviewSortOrder;
+  limit?: number;
+  offset?: number;
+}
+
+export interface ReviewPage {
+  reviews: Review[];
+  pagination: {
+    offset: number;
+    limit: number;
+    // Reviews fetched from the reviews page, which paging covers
+    reviewsOnPage: number;
+    // Every review the listing has on Airbnb, if the page says
+    reviewCount?: number;
+    // More of the reviews on the page from nextOffset
+    hasMore: boolean;
+    nextOffset?: number;
+    // The listing has reviews beyond the ones on the page, which no offset reaches
+    truncated: boolean;
+  };
+}
+
+export const REVIEW_PAGE_PROPERTIES = {
+  sortBy: {
+    type: "string",
+    enum: REVIEW_SORT_ORDERS,
+    description: "Review order: Airbnb's relevance order (default), newest first, or by rating. Applies to the reviews on the reviews page only"
+  },
+  limit: {
+    type: "integer",
+    minimum: 1,
+    maximum: MAX_REVIEW_LIMIT,
+    description: `Maximum number of reviews to return (default ${DEFAULT_REVIEW_LIMIT})`
+  },
+  offset: {
+    type: "integer",
+    minimum: 0,
+    description: "Number of reviews to skip, from pagination.nextOffset of a previous call"
+  }
+};
+
+export function validateReviewPageOptions({ sortBy, limit, offset }: ReviewPageOptions): string[] {
+  const errors: string[] = [];
+  if (sortBy !== undefined && !REVIEW_SORT_ORDERS.includes(sortBy)) {
+    errors.push(`sortBy must be one of ${REVIEW_SORT_ORDERS.join(", ")}, got ${JSON.stringify(sortBy)}`);
+  }
+  if (limit !== undefined && (!Number.isInteger(limit) || limit < 1 || limit > MAX_REVIEW_LIMIT)) {
+    errors.push(`limit must be an integer between 1 and ${MAX_REVIEW_LIMIT}, got ${JSON.stringify(limit)}`);
+  }
+  if (offset !== undefined && (!Number.isInteger(offset) || offset < 0)) {
+    errors.push(`offset must be a non-negative integer, got ${JSON.stringify(offset)}`);
+  }
+  return errors;
+}
+
+function compareReviews(sortBy: ReviewSortOrder): ((a: Review, b: Review) => number) | undefined {
+  // Reviews without a date or rating sort last
+  const time = (review: Review) => (review.date ? Date.parse(review.date) : -Infinity);
+  switch (sortBy) {
+    case "most_recent":
+      return (a, b) => time(b) - time(a);
+    case "highest_rated":
+      return (a, b) => (b.rating ?? -1) - (a.rating ?? -1) || time(b) - time(a);
+    case "lowest_rated":
+      return (a, b) => (a.rating ?? 6) - (b.rating ?? 6) || time(b) - time(a);
+    default:
+      return undefined;
+  }
+}
+
+export function pageFetchedReviews(reviews: Review[], reviewCount: number | undefined, options: ReviewPageOptions): ReviewPage {
+  const { sortBy = "relevance", limit = DEFAULT_REVIEW_LIMIT, offset = 0 } = options;
+
+  const compare = compareReviews(sortBy);
+  const ordered = compare ? [...reviews].sort(compare) : reviews;
+  const page = ordered.slice(offset, offset + limit);
+  const nextOffset = offset + page.length;
+  const hasMore = nextOffset < reviews.length;
+
+  return {
+    reviews: page,
+    pagination: {
+      offset,
+      limit,
+      reviewsOnPage: reviews.length,
+      reviewCount,
+      hasMore,
+      nextOffset: hasMore ? nextOffset : undefined,
+      truncated: reviewCount !== undefined && reviewCount > reviews.length,
+    },
+  };
+}
@@ -0,0 +1,113 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+const ROBOTS_TXT = [
+  'User-agent: *',
+  'Crawl-delay: 3600',
+  'Disallow: /private',
+  'Allow: /private/ok',
+].join('\n');
+
+// robots.txt is served from fixtures. The config is read when dist/ is first
+// imported, so the modules are loaded only after the environment is set.
+const fixturesDir = mkdtempSync(join(tmpdir(), 'robots-test-'));
+process.env.AIRBNB_FETCH_MODE = 'replay';
+process.env.AIRBNB_FIXTURES_DIR = fixturesDir;
+
+let RobotsPolicy;
+let RequestScheduler;
+let MAX_MINIMUM_DELAY_MS;
+let scheduler;
+
+before(async () => {
+  const { FixtureStore } = await import('./dist/fixtures.js');
+  const store = new FixtureStore(fixturesDir);
+  store.write('https://www.airbnb.com/robots.txt', { status: 200, contentType: 'text/plain', body: ROBOTS_TXT });
+  store.write('https://www.airbnb.fr/robots.txt', { status: 404, contentType: 'text/plain', body: '' });
+  ({ RobotsPolicy } = await import('./dist/robots.js'));
+  ({ scheduler } = await import('./dist/fetcher.js'));
+  ({ MAX_MINIMUM_DELAY_MS, RequestScheduler } = await import('./dist/scheduler.js'));
+});
+
+after(() => rmSync(fixturesDir, { recursive: true, force: true }));
+
+function policy(baseUrl, overrides = {}) {
+  return new RobotsPolicy({
+    baseUrl,
+    userAgent: 'TestBot',
+    ignore: false,
+    failClosed: false,
+    refreshIntervalMs: 0,
+    fetchTimeoutMs: 1000,
+    ...overrides,
+  });
+}
+
+test('rules decide per path and name the matching line', async () => {
+  const robots = policy('https://www.airbnb.com');
+  await robots.ensureLoaded();
+  assert.equal(robots.status().state, 'loaded');
+
+  const blocked = robots.check('/private/rooms');
+  assert.equal(blocked.allowed, false);
+  assert.equal(blocked.line, 3);
+  assert.equal(blocked.rule, 'Disallow: /private');
+
+  assert.equal(robots.check('/private/ok').allowed, true);
+  assert.deepEqual(
+    robots.check('/rooms/1'),
+    { url: 'https://www.airbnb.com/rooms/1', allowed: true, reason: 'No rule matches this path; allowed by default' }
+  );
+  assert.equal(robots.check('https://example.com/rooms/1').allowed, false);
+});
+
+test('a long Crawl-delay is capped on the shared scheduler', async () => {
+  const robots = policy('https://www.airbnb.com');
+  await robots.refresh();
+  assert.equal(robots.crawlDelaySeconds, 3600);
+  assert.equal(scheduler.minIntervalMs, MAX_MINIMUM_DELAY_MS);
+});
+
+test('a missing robots.txt allows everything', async () => {
+  const robots = policy('https://www.airbnb.fr');
+  await robots.ensureLoaded();
+  assert.equal(robots.status().state, 'absent');
+  assert.equal(robots.check('/private/rooms').allowed, true);
+});
+
+test('an unreachable robots.txt blocks only when failing closed', async () => {
+  const open = policy('https://www.airbnb.de');
+  await open.ensureLoaded();
+  assert.equal(open.status().state, 'unavailable');
+  assert.equal(open.check('/rooms/1').allowed, true);
+
+  const closed = policy('https://www.airbnb.de', { failClosed: true });
+  await closed.ensureLoaded();
+  assert.equal(closed.check('/rooms/1').allowed, false);
+});
+
+test('ignoring robots.txt skips the fetch', async () => {
+  const robots = policy('https://www.airbnb.de', { ignore: true });
+  await robots.ensureLoaded();
+  assert.equal(robots.status().state, 'ignored');
+  assert.equal(robots.check('/private/rooms').allowed, true);
+});
+
+test('minimum delays are capped, and the largest source applies', () => {
+  const paced = new RequestScheduler({ requestsPerSecond: 2, maxConcurrency: 1 });
+  assert.equal(paced.minIntervalMs, 500);
+
+  paced.setMinimumDelay(2000, 'a');
+  paced.setMinimumDelay(1000, 'b');
+  assert.equal(paced.minIntervalMs, 2000);
+
+  paced.setMinimumDelay(Infinity, 'b');
+  assert.equal(paced.minIntervalMs, MAX_MINIMUM_DELAY_MS);
+
+  paced.setMinimumDelay(NaN, 'a');
+  paced.setMinimumDelay(-5, 'b');
+  assert.equal(paced.minIntervalMs, 500);
+});
@@ -0,0 +1,199 @@
+import robotsParser from "robots-parser";
+import { UpstreamHttpError } from "./errors.js";
+import { fetchWithUserAgent, scheduler } from "./fetcher.js";
+import { log } from "./log.js";
+
+type RobotsRules = ReturnType<typeof robotsParser>;
+
+// ignored: checks disabled by configuration
+// pending: not fetched yet
+// loaded: rules parsed from robots.txt
+// absent: Airbnb answered 4xx, which by convention allows everything
+// unavailable: robots.txt couldn't be fetched; failClosed decides what happens
+export type RobotsState = "ignored" | "pending" | "loaded" | "absent" | "unavailable";
+
+export interface RobotsOptions {
+  baseUrl: string;
+  userAgent: string;
+  ignore: boolean;
+  failClosed: boolean;
+  refreshIntervalMs: number;
+  fetchTimeoutMs: number;
+}
+
+export interface RobotsDecision {
+  url: string;
+  allowed: boolean;
+  reason: string;
+  line?: number;
+  rule?: string;
+}
+
+// After a failed fetch, wait this long before a tool call triggers another attempt
+const UNAVAILABLE_RETRY_MS = 60000;
+
+export class RobotsPolicy {
+  private rules?: RobotsRules;
+  private lines: string[] = [];
+  private state: RobotsState;
+  private fetchedAt?: Date;
+  private lastAttemptAt?: Date;
+  private lastError?: string;
+  private refreshTimer?: NodeJS.Timeout;
+  private inFlight?: Promise<void>;
+
+  constructor(private readonly options: RobotsOptions) {
+    this.state = options.ignore ? "ignored" : "pending";
+  }
+
+  get robotsUrl(): string {
+    return `${this.options.baseUrl}/robots.txt`;
+  }
+
+  // Fetch and parse robots.txt. Concurrent callers share one request.
+  refresh(): Promise<void> {
+    if (this.options.ignore) {
+      log('info', 'Skipping robots.txt fetch (ignored by configuration)');
+      return Promise.resolve();
+    }
+    if (!this.inFlight) {
+      this.inFlight = this.load().finally(() => {
+        this.inFlight = undefined;
+      });
+    }
+    return this.inFlight;
+  }
+
+  async ensureLoaded() {
+    if (this.state === "pending") {
+      await this.refresh();
+    } else if (
+      this.state === "unavailable" &&
+      (!this.lastAttemptAt || Date.now() - this.lastAttemptAt.getTime() > UNAVAILABLE_RETRY_MS)
+    ) {
+      await this.refresh();
+    }
+  }
+
+  startAutoRefresh() {
+    if (this.options.ignore || this.options.refreshIntervalMs <= 0 || this.refreshTimer) return;
+
+    this.refreshTimer = setInterval(() => {
+      this.refresh().catch(() => {});
+    }, this.options.refreshIntervalMs);
+    // Don't keep the process alive just for refreshes
+    this.refreshTimer.unref();
+  }
+
+  stopAutoRefresh() {
+    if (this.refreshTimer) {
+      clearInterval(this.refreshTimer);
+      this.refreshTimer = undefined;
+    }
+  }
+
+  private async load() {
+    this.lastAttemptAt = new Date();
+
+    try {
+      log('info', 'Fetching robots.txt from Airbnb', { url: this.robotsUrl });
+      const response = await fetchWithUserAgent(this.robotsUrl, this.options.fetchTimeoutMs);
+      const content = await response.text();
+
+      this.rules = robotsParser(this.robotsUrl, content);
+      this.lines = content.split(/\r?\n/);
+      this.state = "loaded";
+      this.fetchedAt = new Date();
+      this.lastError = undefined;
+      log('info', 'Successfully fetched robots.txt', { crawlDelaySeconds: this.crawlDelaySeconds });
+    } catch (error) {
+      this.lastError = error instanceof Error ? error.message : String(error);
+
+      const status = error instanceof UpstreamHttpError ? error.status : undefined;
+      if (status !== undefined && status >= 400 && status < 500) {
+        // A missing robots.txt places no restrictions
+        this.rules = undefined;
+        this.lines = [];
+        this.state = "absent";
+        this.fetchedAt = new Date();
+        log('info', 'No robots.txt published, all paths allowed', { status });
+      } else if (this.state !== "loaded") {
+        this.state = "unavailable";
+        log('warn', this.options.failClosed
+          ? 'Error fetching robots.txt, blocking all paths (fail-closed)'
+          : 'Error fetching robots.txt, assuming all paths allowed', { error: this.lastError });
+      } else {
+        // Keep enforcing the last good copy rather than dropping the rules
+        log('warn', 'Error refreshing robots.txt, keeping previous rules', { error: this.lastError });
+      }
+    }
+
+    scheduler.setMinimumDelay((this.crawlDelaySeconds ?? 0) * 1000, this.robotsUrl);
+  }
+
+  get crawlDelaySeconds(): number | undefined {
+    return this.rules?.getCrawlDelay(this.options.userAgent);
+  }
+
+  // Decide whether a URL (absolute, or a path on the base URL) may be fetched, and why
+  check(url: string): RobotsDecision {
+    const absoluteUrl = new URL(url, this.options.baseUrl).toString();
+
+    switch (this.state) {
+      case "ignored":
+        return { url: absoluteUrl, allowed: true, reason: "robots.txt checks are disabled by configuration" };
+      case "pending":
+        return { url: absoluteUrl, allowed: true, reason: "robots.txt has not been loaded yet" };
+      case "absent":
+        return { url: absoluteUrl, allowed: true, reason: "Airbnb does not publish a robots.txt" };
+      case "unavailable":
+        return this.options.failClosed
+          ? { url: absoluteUrl, allowed: false, reason: `robots.txt could not be loaded (${this.lastError}) and fail-closed is enabled` }
+          : { url: absoluteUrl, allowed: true, reason: `robots.txt could not be loaded (${this.lastError}); allowing because fail-closed is disabled` };
+    }
+
+    const allowed = this.rules!.isAllowed(absoluteUrl, this.options.userAgent);
+    if (allowed === undefined) {
+      return { url: absoluteUrl, allowed: false, reason: `URL is not on ${this.options.baseUrl}, which this robots.txt covers` };
+    }
+
+    const line = this.rules!.getMatchingLineNumber(absoluteUrl, this.options.userAgent);
+    if (line === undefined || line < 1) {
+      return { url: absoluteUrl, allowed, reason: "No rule matches this path; allowed by default" };
+    }
+
+    const rule = this.lines[line - 1]?.trim();
+    const decision = {
+      url: absoluteUrl,
+      allowed,
+      reason: `${allowed ? "Allowed" : "Disallowed"} by "${rule}" on line ${line}`,
+      line,
+      rule,
+    };
+
+    if (!allowed) {
+      log('warn', 'Path disallowed by robots.txt', { url: absoluteUrl, rule, line, userAgent: this.options.userAgent });
+    }
+
+    return decision;
+  }
+
+  status(includeRules: boolean = false) {
+    return {
+      state: this.state,
+      robotsUrl: this.robotsUrl,
+      userAgent: this.options.userAgent,
+      failClosed: this.options.failClosed,
+      fetchedAt: this.fetchedAt?.toISOString(),
+      lastAttemptAt: this.lastAttemptAt?.toISOString(),
+      lastError: this.lastError,
+      refreshIntervalMinutes: this.options.refreshIntervalMs / 60000,
+      crawlDelaySeconds: this.crawlDelaySeconds,
+      requestIntervalMs: scheduler.minIntervalMs,
+      sitemaps: this.rules?.getSitemaps() ?? [],
+      ...(includeRules && {
+        rules: this.lines.map(line => line.trim()).filter(line => line && !line.startsWith("#"))
+      }),
+    };
+  }
+}
@@ -0,0 +1,76 @@
+import { log } from "./log.js";
+
+export interface SchedulerOptions {
+  requestsPerSecond: number;
+  maxConcurrency: number;
+}
+
+// Upper bound for a minimum delay, so one slow or hostile robots.txt can't
+// stall every request behind the shared scheduler
+export const MAX_MINIMUM_DELAY_MS = 10000;
+
+// Shared pacing for every request to Airbnb: at most `maxConcurrency` requests
+// in flight, and request starts spaced at least 1/requestsPerSecond apart.
+export class RequestScheduler {
+  private readonly queue: (() => void)[] = [];
+  private active = 0;
+  private nextStartAt = 0;
+  private readonly minimumDelays = new Map<string, number>();
+
+  constructor(private readonly options: SchedulerOptions) {}
+
+  get minIntervalMs(): number {
+    const budgetMs = this.options.requestsPerSecond > 0 ? 1000 / this.options.requestsPerSecond : 0;
+    return Math.max(budgetMs, ...this.minimumDelays.values());
+  }
+
+  // Raise the spacing between requests above the configured budget, e.g. for a robots.txt
+  // Crawl-delay. Each source sets its own delay and the largest one applies.
+  setMinimumDelay(ms: number, source: string = "default") {
+    const requestedMs = Number.isNaN(ms) ? 0 : Math.max(0, ms);
+    const delayMs = Math.min(requestedMs, MAX_MINIMUM_DELAY_MS);
+    if (delayMs < requestedMs) {
+      log('warn', 'Requested delay between requests is too long, capping it', { source, requestedMs: ms, delayMs });
+    }
+    this.minimumDelays.set(source, delayMs);
+  }
+
+  async schedule<T>(task: () => Promise<T>): Promise<T> {
+    await this.acquireSlot();
+    try {
+      await this.waitForTurn();
+      return await task();
+    } finally {
+      this.releaseSlot();
+    }
+  }
+
+  private acquireSlot(): Promise<void> {
+    if (this.active < this.options.maxConcurrency) {
+      this.active++;
+      return Promise.resolve();
+    }
+    return new Promise(resolve => this.queue.push(resolve));
+  }
+
+  private releaseSlot() {
+    const next = this.queue.shift();
+    if (next) {
+      // Hand the slot straight to the next waiter
+      next();
+    } else {
+      this.active--;
+    }
+  }
+
+  private async waitForTurn() {
+    const now = Date.now();
+    const startAt = Math.max(now, this.nextStartAt);
+    this.nextStartAt = startAt + this.minIntervalMs;
+
+    if (startAt > now) {
+      log('info', 'Pacing request to Airbnb', { delayMs: startAt - now, queued: this.queue.length });
+      await new Promise(resolve => setTimeout(resolve, startAt - now));
+    }
+  }
+}
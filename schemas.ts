@@ -0,0 +1,584 @@
+// JSON Schemas for tool outputs. These mirror the interfaces in models.ts and
+// are declared as `outputSchema` so clients can consume `structuredContent`.
+
+const moneySchema = {
+  type: "object",
+  properties: {
+    amount: { type: "number", description: "Amount in the currency's major unit" },
+    currency: { type: "string", description: "ISO 4217 currency code" }
+  },
+  required: ["amount", "currency"]
+};
+
+const coordinatesSchema = {
+  type: "object",
+  properties: {
+    latitude: { type: "number" },
+    longitude: { type: "number" }
+  },
+  required: ["latitude", "longitude"]
+};
+
+const cacheSchema = {
+  type: "object",
+  description: "Whether this response was served from the server's response cache, and how old it is",
+  properties: {
+    hit: { type: "boolean" },
+    ageSeconds: { type: "number" }
+  },
+  required: ["hit", "ageSeconds"]
+};
+
+const stringArraySchema = {
+  type: "array",
+  items: { type: "string" }
+};
+
+// Present when the page was only partly readable
+const parseWarningsSchema = {
+  ...stringArraySchema,
+  description: "Parts of the page that weren't where the parser expected them; the rest of the data is still returned"
+};
+
+const searchResultSchema = {
+  type: "object",
+  properties: {
+    id: { type: "string", description: "Airbnb listing ID" },
+    url: { type: "string", description: "Direct link to the listing" },
+    name: { type: "string" },
+    title: { type: "string" },
+    coordinates: coordinatesSchema,
+    distanceKm: { type: "number", description: "Distance from the center of a radius search" },
+    rating: { type: "number", description: "Average rating out of 5" },
+    reviewCount: { type: "integer" },
+    badges: stringArraySchema,
+    summary: { ...stringArraySchema, description: "Short lines shown on the listing card" },
+    resolvedDates: {
+      type: "object",
+      description: "Dates this result was priced for; set by flexible-dates searches",
+      properties: {
+        checkin: { type: "string" },
+        checkout: { type: "string" },
+        nights: { type: "integer" }
+      },
+      required: ["checkin", "checkout", "nights"]
+    },
+    price: {
+      type: "object",
+      properties: {
+        ...moneySchema.properties,
+        qualifier: { type: "string", description: "What the amount covers, e.g. \"night\"" },
+        originalAmount: { type: "number", description: "Price before discount" },
+        label: { type: "string" }
+      },
+      required: ["amount", "currency", "label"]
+    },
+    totalPrice: moneySchema,
+    priceBreakdown: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          description: { type: "string" },
+          amount: { type: "number" },
+          currency: { type: "string" },
+          priceString: { type: "string" }
+        },
+        required: ["description", "priceString"]
+      }
+    }
+  },
+  required: ["id", "url", "badges", "summary", "priceBreakdown"]
+};
+
+export const SEARCH_OUTPUT_SCHEMA = {
+  type: "object" as const,
+  properties: {
+    searchUrl: { type: "string" },
+    resourceUri: { type: "string", description: "airbnb://search/{hash} resource with this search's current results" },
+    searchResults: {
+      type: "array",
+      items: searchResultSchema
+    },
+    paginationInfo: {
+      type: "object",
+      properties: {
+        nextPageCursor: { type: "string", description: "Pass as `cursor` to fetch the next page" },
+        pageCursors: stringArraySchema
+      },
+      required: ["pageCursors"]
+    },
+    searchArea: {
+      type: "object",
+      description: "Map viewport searched, for boundingBox and radius searches",
+      properties: {
+        boundingBox: {
+          type: "object",
+          properties: {
+            neLat: { type: "number" },
+            neLng: { type: "number" },
+            swLat: { type: "number" },
+            swLng: { type: "number" }
+          },
+          required: ["neLat", "neLng", "swLat", "swLng"]
+        },
+        center: coordinatesSchema,
+        radiusKm: { type: "number" }
+      },
+      required: ["boundingBox"]
+    },
+    removedByFilter: {
+      type: "object",
+      description: "Listings each entry of `filters` removed, counted under the first filter they failed",
+      additionalProperties: { type: "integer" }
+    },
+    sortBy: { type: "string", description: "Order applied to searchResults; absent for Airbnb's own order" },
+    pagesFetched: { type: "integer", description: "Number of result pages merged into searchResults" },
+    warnings: {
+      ...stringArraySchema,
+      description: "Problems that cut collection short or pages that were only partly readable; the results gathered are still returned"
+    },
+    cache: cacheSchema
+  },
+  required: ["searchUrl", "resourceUri", "searchResults", "paginationInfo", "pagesFetched", "warnings", "removedByFilter", "cache"]
+};
+
+export const LISTING_DETAILS_OUTPUT_SCHEMA = {
+  type: "object" as const,
+  properties: {
+    listingUrl: { type: "string" },
+    resourceUri: { type: "string", description: "airbnb://listing/{id} resource for this listing" },
+    details: {
+      type: "object",
+      properties: {
+        id: { type: "string" },
+        url: { type: "string" },
+        title: { type: "string" },
+        rating: { type: "number" },
+        reviewCount: { type: "integer" },
+        location: {
+          type: "object",
+          properties: {
+            title: { type: "string" },
+            subtitle: { type: "string" },
+            coordinates: coordinatesSchema
+          }
+        },
+        capacity: {
+          type: "object",
+          properties: {
+            guests: { type: "integer" },
+            bedrooms: { type: "integer", description: "0 for a studio" },
+            beds: { type: "integer" },
+            bathrooms: { type: "number" }
+          }
+        },
+        highlights: stringArraySchema,
+        description: { type: "string" },
+        policiesTitle: { type: "string" },
+        cancellationPolicy: { type: "string" },
+        houseRules: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              title: { type: "string" },
+              items: stringArraySchema
+            },
+            required: ["title", "items"]
+          }
+        },
+        amenities: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              title: { type: "string" },
+              amenities: stringArraySchema
+            },
+            required: ["title", "amenities"]
+          }
+        },
+        photos: {
+          type: "array",
+          description: "Photo gallery in the listing's order",
+          items: {
+            type: "object",
+            properties: {
+              url: { type: "string" },
+              caption: { type: "string" },
+              room: { type: "string", description: "Room the photo shows, e.g. Bedroom 1" }
+            },
+            required: ["url"]
+          }
+        },
+        warnings: parseWarningsSchema
+      },
+      required: ["id", "url", "capacity", "highlights", "houseRules", "amenities", "photos"]
+    },
+    cache: cacheSchema
+  },
+  required: ["listingUrl", "resourceUri", "details", "cache"]
+};
+
+export const ROBOTS_STATUS_OUTPUT_SCHEMA = {
+  type: "object" as const,
+  properties: {
+    state: {
+      type: "string",
+      enum: ["ignored", "pending", "loaded", "absent", "unavailable"],
+      description: "Whether robots.txt is enforced and how it was last loaded"
+    },
+    robotsUrl: { type: "string" },
+    userAgent: { type: "string" },
+    failClosed: { type: "boolean", description: "Block all paths when robots.txt can't be loaded" },
+    fetchedAt: { type: "string" },
+    lastAttemptAt: { type: "string" },
+    lastError: { type: "string" },
+    refreshIntervalMinutes: { type: "number" },
+    crawlDelaySeconds: { type: "number" },
+    requestIntervalMs: { type: "number", description: "Minimum spacing between requests, including Crawl-delay" },
+    sitemaps: stringArraySchema,
+    rules: stringArraySchema,
+    check: {
+      type: "object",
+      properties: {
+        url: { type: "string" },
+        allowed: { type: "boolean" },
+        reason: { type: "string" },
+        line: { type: "integer", description: "Line of the matching robots.txt rule" },
+        rule: { type: "string" }
+      },
+      required: ["url", "allowed", "reason"]
+    }
+  },
+  required: ["state", "robotsUrl", "userAgent", "failClosed", "refreshIntervalMinutes", "requestIntervalMs", "sitemaps"]
+};
+
+export const LISTING_REVIEWS_OUTPUT_SCHEMA = {
+  type: "object" as const,
+  properties: {
+    listingUrl: { type: "string" },
+    reviewsUrl: { type: "string" },
+    overallRating: { type: "number", description: "Average rating out of 5" },
+    reviewCount: { type: "integer", description: "Total reviews on Airbnb" },
+    categoryRatings: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          category: { type: "string", description: "e.g. cleanliness, accuracy, check_in, communication, location, value" },
+          label: { type: "string" },
+          rating: { type: "number" }
+        },
+        required: ["category", "label", "rating"]
+      }
+    },
+    reviews: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          id: { type: "string" },
+          date: { type: "string", description: "ISO 8601 date the review was written" },
+          localizedDate: { type: "string" },
+          language: { type: "string" },
+          rating: { type: "number" },
+          text: { type: "string" },
+          reviewerName: { type: "string" },
+          hostResponse: { type: "string" }
+        },
+        required: ["text"]
+      }
+    },
+    pagination: {
+      type: "object",
+      properties: {
+        offset: { type: "integer" },
+        limit: { type: "integer" },
+        reviewsOnPage: { type: "integer", description: "Reviews fetched from the reviews page; sorting and paging cover only these" },
+        reviewCount: { type: "integer", description: "Total reviews the listing has on Airbnb" },
+        hasMore: { type: "boolean", description: "More reviews from the reviews page can be fetched from nextOffset" },
+        nextOffset: { type: "integer", description: "Pass as `offset` for the next page" },
+        truncated: { type: "boolean", description: "The listing has more reviews (reviewCount) than the reviews page shows; the rest can't be paged to" }
+      },
+      required: ["offset", "limit", "reviewsOnPage", "hasMore", "truncated"]
+    },
+    warnings: parseWarningsSchema,
+    cache: cacheSchema
+  },
+  required: ["listingUrl", "reviewsUrl", "categoryRatings", "reviews", "pagination", "cache"]
+};
+
+export const LISTING_AVAILABILITY_OUTPUT_SCHEMA = {
+  type: "object" as const,
+  properties: {
+    listingUrl: { type: "string" },
+    calendarUrl: { type: "string" },
+    startMonth: { type: "string", description: "First month returned (YYYY-MM)" },
+    months: { type: "integer" },
+    availableNights: { type: "integer" },
+    nights: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          date: { type: "string", description: "YYYY-MM-DD" },
+          available: { type: "boolean" },
+          minNights: { type: "integer", description: "Minimum stay when checking in on this date" },
+          maxNights: { type: "integer", description: "Maximum stay when checking in on this date" },
+          checkinAllowed: { type: "boolean" },
+          checkoutAllowed: { type: "boolean" },
+          price: moneySchema
+        },
+        required: ["date", "available", "checkinAllowed", "checkoutAllowed"]
+      }
+    },
+    stayLength: { type: "integer" },
+    stayWindows: {
+      type: "array",
+      description: "Runs of consecutive open nights that fit stayLength, with the check-in dates that work",
+      items: {
+        type: "object",
+        properties: {
+          start: { type: "string", description: "First open night" },
+          end: { type: "string", description: "Morning after the last open night" },
+          availableNights: { type: "integer" },
+          checkinDates: stringArraySchema
+        },
+        required: ["start", "end", "availableNights", "checkinDates"]
+      }
+    },
+    warnings: parseWarningsSchema,
+    cache: cacheSchema
+  },
+  required: ["listingUrl", "calendarUrl", "startMonth", "months", "availableNights", "nights", "cache"]
+};
+
+const priceAdjustmentSchema = {
+  type: "object",
+  properties: {
+    description: { type: "string" },
+    amount: { type: "number", description: "Positive amount; for discounts, the amount saved" }
+  },
+  required: ["description", "amount"]
+};
+
+export const PRICE_QUOTE_OUTPUT_SCHEMA = {
+  type: "object" as const,
+  properties: {
+    listingUrl: { type: "string" },
+    checkin: { type: "string" },
+    checkout: { type: "string" },
+    nights: { type: "integer" },
+    available: { type: "boolean", description: "False when Airbnb shows no price for these dates and guests" },
+    currency: { type: "string", description: "ISO 4217 code for every amount in the quote" },
+    nightlyRate: { type: "number", description: "Average nightly rate before fees and discounts" },
+    accommodation: { type: "number", description: "Nightly rate × nights" },
+    cleaningFee: { type: "number" },
+    serviceFee: { type: "number" },
+    taxes: { type: "number" },
+    discounts: { type: "array", items: priceAdjustmentSchema },
+    otherFees: { type: "array", items: priceAdjustmentSchema },
+    total: { type: "number" },
+    totalIncludesTaxes: { type: "boolean" },
+    lineItems: {
+      type: "array",
+      description: "The price breakdown as Airbnb lists it",
+      items: {
+        type: "object",
+        properties: {
+          description: { type: "string" },
+          amount: { type: "number" },
+          currency: { type: "string" },
+          priceString: { type: "string" }
+        },
+        required: ["description", "priceString"]
+      }
+    },
+    warnings: parseWarningsSchema,
+    cache: cacheSchema
+  },
+  required: ["listingUrl", "checkin", "checkout", "nights", "available", "discounts", "otherFees", "lineItems", "cache"]
+};
+
+const nullableNumber = { type: ["number", "null"] };
+const nullableString = { type: ["string", "null"] };
+
+export const COMPARE_LISTINGS_OUTPUT_SCHEMA = {
+  type: "object" as const,
+  properties: {
+    checkin: { type: "string" },
+    checkout: { type: "string" },
+    listings: {
+      type: "array",
+      description: "One entry per requested id, in request order. null marks data Airbnb didn't provide",
+      items: {
+        type: "object",
+        properties: {
+          id: { type: "string" },
+          url: { type: "string" },
+          ok: { type: "boolean", description: "False when this listing couldn't be fetched; see error" },
+          error: { type: "string" },
+          errorType: { type: "string" },
+          name: nullableString,
+          totalPrice: nullableNumber,
+          nightlyRate: nullableNumber,
+          currency: nullableString,
+          rating: nullableNumber,
+          reviewCount: nullableNumber,
+          guests: nullableNumber,
+          bedrooms: nullableNumber,
+          beds: nullableNumber,
+          bathrooms: nullableNumber,
+          keyAmenities: {
+            type: "object",
+            description: "true/false per key amenity, null when the listing's amenities are unknown",
+            additionalProperties: { type: ["boolean", "null"] }
+          },
+          houseRules: { type: ["array", "null"], items: { type: "string" } },
+          cancellationPolicy: nullableString,
+          location: nullableString,
+          coordinates: { ...coordinatesSchema, type: ["object", "null"] },
+          missing: { ...stringArraySchema, description: "Fields Airbnb didn't provide for this listing" }
+        },
+        required: ["id", "url", "ok", "keyAmenities", "missing"]
+      }
+    },
+    succeeded: { type: "integer" },
+    failed: { type: "integer" },
+    best: {
+      type: "object",
+      description: "Listing ids that stand out; price picks only when all prices share a currency",
+      properties: {
+        lowestTotalPrice: { type: "string" },
+        lowestNightlyRate: { type: "string" },
+        highestRating: { type: "string" },
+        mostBedrooms: { type: "string" }
+      }
+    },
+    cache: cacheSchema
+  },
+  required: ["listings", "succeeded", "failed", "best", "cache"]
+};
+
+const priceObservationSchema = {
+  type: "object",
+  properties: {
+    checkedAt: { type: "string", description: "ISO timestamp of the check" },
+    price: { type: "number", description: "Price Airbnb displayed, usually nightly" },
+    total: { type: "number", description: "Stay total" },
+    currency: { type: "string" },
+    available: { type: "boolean" }
+  },
+  required: ["checkedAt"]
+};
+
+export const WATCHLIST_OUTPUT_SCHEMA = {
+  type: "object" as const,
+  properties: {
+    file: { type: "string", description: "Where the watch list is stored" },
+    searches: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          name: { type: "string" },
+          params: { type: "object", description: "airbnb_search arguments re-run on each check" },
+          createdAt: { type: "string" },
+          lastCheckedAt: { type: "string" },
+          listingsPresent: { type: "integer", description: "Listings in the results at the last check" }
+        },
+        required: ["name", "params", "createdAt", "listingsPresent"]
+      }
+    },
+    stays: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          name: { type: "string" },
+          params: { type: "object", description: "airbnb_price_quote arguments re-run on each check" },
+          createdAt: { type: "string" },
+          lastCheckedAt: { type: "string" },
+          latest: priceObservationSchema
+        },
+        required: ["name", "params", "createdAt"]
+      }
+    }
+  },
+  required: ["file", "searches", "stays"]
+};
+
+const listingRefSchema = {
+  type: "object",
+  properties: {
+    id: { type: "string" },
+    name: { type: "string" },
+    url: { type: "string" }
+  },
+  required: ["id", "url"]
+};
+
+const priceChangeSchema = {
+  type: "object",
+  properties: {
+    ...listingRefSchema.properties,
+    previous: priceObservationSchema,
+    current: priceObservationSchema,
+    field: { type: "string", enum: ["total", "price"], description: "Which price moved; totals are preferred" },
+    change: { type: "number", description: "Current minus previous, negative for a drop" },
+    percent: { type: "number" }
+  },
+  required: ["id", "url", "previous", "current", "field", "change", "percent"]
+};
+
+export const CHECK_WATCHES_OUTPUT_SCHEMA = {
+  type: "object" as const,
+  properties: {
+    checks: {
+      type: "array",
+      description: "One entry per saved search or watched stay checked. Entries with an error failed without changing their history",
+      items: {
+        type: "object",
+        properties: {
+          type: { type: "string", enum: ["search", "stay"] },
+          name: { type: "string" },
+          checkedAt: { type: "string" },
+          previousCheckAt: { type: "string", description: "Absent on the first check, which only records a baseline" },
+          error: { type: "string" },
+          errorType: { type: "string" },
+          resultCount: { type: "integer" },
+          newListings: { type: "array", items: listingRefSchema },
+          removedListings: { type: "array", items: listingRefSchema },
+          priceChanges: { type: "array", items: priceChangeSchema },
+          history: {
+            type: "array",
+            description: "Observed prices per listing, oldest first",
+            items: {
+              type: "object",
+              properties: {
+                ...listingRefSchema.properties,
+                present: { type: "boolean", description: "False for listings that just left the results" },
+                prices: { type: "array", items: priceObservationSchema }
+              },
+              required: ["id", "url", "present", "prices"]
+            }
+          },
+          id: { type: "string" },
+          url: { type: "string" },
+          checkin: { type: "string" },
+          checkout: { type: "string" },
+          available: { type: "boolean" },
+          availabilityChanged: { type: "boolean" },
+          priceChange: priceChangeSchema,
+          prices: { type: "array", items: priceObservationSchema, description: "Observed prices for the stay, oldest first" }
+        },
+        required: ["type", "name", "checkedAt"]
+      }
+    },
+    succeeded: { type: "integer" },
+    failed: { type: "integer" }
+  },
+  required: ["checks", "succeeded", "failed"]
+};
@@ -0,0 +1,62 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FixtureStore } from './dist/fixtures.js';
+import { runParserChecks } from './dist/selftest.js';
+
+// Pages without any client data: enough to see which parsers a URL is given to
+const EMPTY_PAGE = '<html><body></body></html>';
+
+function withFixtures(pages, check) {
+  const dir = mkdtempSync(join(tmpdir(), 'selftest-test-'));
+  try {
+    const store = new FixtureStore(dir);
+    for (const [url, status] of pages) {
+      store.write(url, { status, contentType: 'text/html', body: EMPTY_PAGE });
+    }
+    check(dir);
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+function parsersRun(checks, url) {
+  return checks.filter(check => check.url === url).map(check => check.parser);
+}
+
+test('each page kind gets its parsers, including map searches', () => {
+  const pages = [
+    'https://www.airbnb.com/s/Paris--France/homes?adults=1',
+    'https://www.airbnb.com/s/homes?ne_lat=48.86&ne_lng=2.36&sw_lat=48.84&sw_lng=2.33',
+    'https://www.airbnb.com/rooms/1?check_in=2026-11-06&check_out=2026-11-11',
+    'https://www.airbnb.com/rooms/1',
+    'https://www.airbnb.com/rooms/1/reviews',
+  ];
+  withFixtures(pages.map(url => [url, 200]), dir => {
+    const { checks, unmatched } = runParserChecks(dir);
+    assert.deepEqual(unmatched, []);
+    assert.deepEqual(parsersRun(checks, pages[0]), ['search_results']);
+    assert.deepEqual(parsersRun(checks, pages[1]), ['search_results']);
+    assert.deepEqual(parsersRun(checks, pages[2]), ['listing_details', 'price_quote']);
+    assert.deepEqual(parsersRun(checks, pages[3]), ['listing_details']);
+    assert.deepEqual(parsersRun(checks, pages[4]), ['listing_reviews']);
+    // Nothing to parse in an empty page
+    assert.ok(checks.every(check => check.status === 'failed'));
+  });
+});
+
+test('fixtures no parser claims are reported, robots.txt and errors are skipped', () => {
+  const pages = [
+    ['https://www.airbnb.com/wishlists/1', 200],
+    ['https://www.airbnb.com/robots.txt', 200],
+    ['https://www.airbnb.com/rooms/2', 404],
+  ];
+  withFixtures(pages, dir => {
+    const { checks, skipped, unmatched } = runParserChecks(dir);
+    assert.deepEqual(checks, []);
+    assert.equal(skipped.length, 2);
+    assert.deepEqual(unmatched.map(fixture => fixture.url), ['https://www.airbnb.com/wishlists/1']);
+  });
+});
@@ -0,0 +1,163 @@
+import { DiagnosticsReport, ParseDiagnostics } from "./diagnostics.js";
+import { Fixture, FixtureStore } from "./fixtures.js";
+import {
+  extractClientData,
+  parseListingAvailability,
+  parseListingDetails,
+  parseListingReviews,
+  parsePriceQuote,
+  parseSearchResults,
+} from "./parsers.js";
+
+// Run the parsers over recorded fixture pages and flag the ones that no
+// longer parse cleanly, so a change on Airbnb's side shows up after
+// re-recording fixtures rather than in a user's tool call.
+
+export type SelfTestStatus = "ok" | "drift" | "failed";
+
+export interface SelfTestCheck {
+  file: string;
+  url: string;
+  parser: string;
+  status: SelfTestStatus;
+  error?: string;
+  report: DiagnosticsReport;
+}
+
+export interface UnmatchedFixture {
+  file: string;
+  url: string;
+}
+
+interface ParserRun {
+  parser: string;
+  run: (diagnostics: ParseDiagnostics) => unknown;
+}
+
+// Which parsers apply to a fixture, judging by the URL it was recorded for
+function parsersFor(fixture: Fixture): ParserRun[] {
+  const url = new URL(fixture.url);
+  const currency = url.searchParams.get("currency") ?? undefined;
+  const page = (diagnostics: ParseDiagnostics) => extractClientData(fixture.body, diagnostics);
+
+  if (url.pathname.startsWith("/api/v3/PdpAvailabilityCalendar")) {
+    let id = "unknown";
+    try {
+      id = String(JSON.parse(url.searchParams.get("variables") ?? "{}").request?.listingId ?? id);
+    } catch {
+      // Keep "unknown"; the id is only echoed in the parsed result
+    }
+    return [{
+      parser: "listing_availability",
+      run: diagnostics => parseListingAvailability(JSON.parse(fixture.body), id, `${url.origin}/rooms/${id}`, currency, diagnostics),
+    }];
+  }
+
+  const reviews = url.pathname.match(/^\/rooms\/(\d+)\/reviews$/);
+  if (reviews) {
+    return [{
+      parser: "listing_reviews",
+      run: diagnostics => parseListingReviews(page(diagnostics), reviews[1], `${url.origin}/rooms/${reviews[1]}`, diagnostics),
+    }];
+  }
+
+  const listing = url.pathname.match(/^\/rooms\/(\d+)$/);
+  if (listing) {
+    const [id, checkin, checkout] = [listing[1], url.searchParams.get("check_in"), url.searchParams.get("check_out")];
+    const runs: ParserRun[] = [{
+      parser: "listing_details",
+      run: diagnostics => parseListingDetails(page(diagnostics), id, fixture.url, diagnostics),
+    }];
+    // Pages recorded for dates also carry the booking sidebar
+    if (checkin && checkout) {
+      runs.push({
+        parser: "price_quote",
+        run: diagnostics => parsePriceQuote(page(diagnostics), { id, url: fixture.url, checkin, checkout }, currency, diagnostics),
+      });
+    }
+    return runs;
+  }
+
+  // Searches by location are /s/<place>/homes, map searches plain /s/homes
+  if (/^\/s\/(.+\/)?homes$/.test(url.pathname)) {
+    return [{
+      parser: "search_results",
+      run: diagnostics => parseSearchResults(page(diagnostics), url.origin, currency, diagnostics),
+    }];
+  }
+
+  return [];
+}
+
+// Recorded alongside the pages but not parsed by any page parser
+function isRobotsFixture(fixture: Fixture): boolean {
+  return new URL(fixture.url).pathname === "/robots.txt";
+}
+
+export function runParserChecks(dir: string): { checks: SelfTestCheck[]; skipped: string[]; unmatched: UnmatchedFixture[] } {
+  const checks: SelfTestCheck[] = [];
+  const skipped: string[] = [];
+  const unmatched: UnmatchedFixture[] = [];
+
+  for (const { file, fixture } of new FixtureStore(dir).list()) {
+    if (fixture.status >= 400 || isRobotsFixture(fixture)) {
+      skipped.push(file);
+      continue;
+    }
+    const runs = parsersFor(fixture);
+    if (runs.length === 0) {
+      // A page the tools fetch but no check covers; usually parsersFor is out of date
+      unmatched.push({ file, url: fixture.url });
+      continue;
+    }
+
+    for (const { parser, run } of runs) {
+      const diagnostics = new ParseDiagnostics(parser);
+      try {
+        run(diagnostics);
+        checks.push({ file, url: fixture.url, parser, status: diagnostics.drifted ? "drift" : "ok", report: diagnostics.report() });
+      } catch (error) {
+        checks.push({
+          file,
+          url: fixture.url,
+          parser,
+          status: "failed",
+          error: error instanceof Error ? error.message : String(error),
+          report: diagnostics.report()
+        });
+      }
+    }
+  }
+
+  return { checks, skipped, unmatched };
+}
+
+// Print a report to stdout; returns the process exit code, 0 when every
+// page was checked and parsed cleanly
+export function runSelfTest(dir: string): number {
+  const { checks, skipped, unmatched } = runParserChecks(dir);
+
+  for (const check of checks) {
+    console.log(`${check.status.toUpperCase().padEnd(6)} ${check.parser.padEnd(20)} ${check.file}`);
+    for (const problem of [...(check.error ? [check.error] : []), ...check.report.warnings]) {
+      console.log(`       - ${problem}`);
+    }
+  }
+
+  for (const { file, url } of unmatched) {
+    console.log(`${"NONE".padEnd(6)} ${"no parser".padEnd(20)} ${file}`);
+    console.log(`       - ${url}`);
+  }
+
+  const count = (status: SelfTestStatus) => checks.filter(check => check.status === status).length;
+  console.log(
+    `\n${checks.length} parser checks in ${dir}: ${count("ok")} ok, ${count("drift")} drifted, ${count("failed")} failed` +
+    (unmatched.length > 0 ? `; ${unmatched.length} fixture(s) matched no parser` : "") +
+    (skipped.length > 0 ? `; ${skipped.length} fixture(s) skipped (robots.txt, or an error response)` : "")
+  );
+  if (checks.length === 0 && unmatched.length === 0) {
+    console.log("No fixtures to check; record some with --record-fixtures first");
+  }
+
+  return checks.length > 0 && unmatched.length === 0 && count("ok") === checks.length ? 0 : 1;
+}
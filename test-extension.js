@@ -6,6 +6,8 @@
  */
 
 import { spawn } from 'child_process';
+import { mkdtempSync, rmSync, statSync } from 'fs';
+import { tmpdir } from 'os';
 import { fileURLToPath } from 'url';
 import { dirname, join } from 'path';
 
@@ -15,19 +17,42 @@ const __dirname = dirname(__filename);
 // Test configuration
 const TEST_TIMEOUT = 30000; // 30 seconds
 const SERVER_PATH = join(__dirname, 'dist', 'index.js');
+const EXPECTED_TOOLS = [
+  'airbnb_search',
+  'airbnb_listing_details',
+  'airbnb_listing_reviews',
+  'airbnb_listing_availability',
+  'airbnb_price_quote',
+  'airbnb_compare_listings',
+  'airbnb_robots_status',
+  'airbnb_save_search',
+  'airbnb_watch_listing',
+  'airbnb_list_watches',
+  'airbnb_remove_watch',
+  'airbnb_check_watches'
+];
+
+// YYYY-MM-DD a number of days from today, so dated calls never ask for the past
+function daysFromNow(days) {
+  return new Date(Date.now() + days * 86400000).toISOString().slice(0, 10);
+}
 
 class MCPTester {
   constructor() {
     this.server = null;
     this.requestId = 1;
+    this.tools = [];
+    // Keep the watch list tests away from the user's own watch list
+    this.dataDir = mkdtempSync(join(tmpdir(), 'airbnb-extension-test-'));
   }
 
   async startServer() {
     console.log('🚀 Starting MCP server...');
     
-    this.server = spawn('node', [SERVER_PATH, '--ignore-robots-txt'], {
+    // Extra args (e.g. --replay-fixtures --fixtures-dir ./fixtures) are forwarded to the server
+    this.server = spawn('node', [SERVER_PATH, '--ignore-robots-txt', ...process.argv.slice(2)], {
       stdio: ['pipe', 'pipe', 'pipe'],
-      env: { ...process.env, IGNORE_ROBOTS_TXT: 'true' }
+      env: { ...process.env, IGNORE_ROBOTS_TXT: 'true', AIRBNB_WATCHLIST_FILE: join(this.dataDir, 'watchlist.json') }
     });
 
     this.server.stderr.on('data', (data) => {
@@ -97,6 +122,7 @@ class MCPTester {
       }
       
       const tools = response.result?.tools || [];
+      this.tools = tools;
       console.log(`✅ Found ${tools.length} tools:`);
       
       tools.forEach(tool => {
@@ -104,14 +130,19 @@ class MCPTester {
       });
       
       // Validate expected tools
-      const expectedTools = ['airbnb_search', 'airbnb_listing_details'];
       const foundTools = tools.map(t => t.name);
       
-      for (const expectedTool of expectedTools) {
+      for (const expectedTool of EXPECTED_TOOLS) {
         if (!foundTools.includes(expectedTool)) {
           throw new Error(`Missing expected tool: ${expectedTool}`);
         }
       }
+
+      for (const tool of tools) {
+        if (!tool.outputSchema) {
+          throw new Error(`Tool ${tool.name} declares no outputSchema`);
+        }
+      }
       
       return true;
     } catch (error) {
@@ -142,7 +173,8 @@ class MCPTester {
         throw new Error('Invalid response format');
       }
       
-      const content = JSON.parse(result.content[0].text);
+      // Successful calls carry structuredContent; errors are JSON in the text block
+      const content = result.structuredContent ?? JSON.parse(result.content[0].text);
       
       if (content.error) {
         console.log('⚠️  Search returned error (expected for robots.txt):', content.error);
@@ -184,7 +216,8 @@ class MCPTester {
         throw new Error('Invalid response format');
       }
       
-      const content = JSON.parse(result.content[0].text);
+      // Successful calls carry structuredContent; errors are JSON in the text block
+      const content = result.structuredContent ?? JSON.parse(result.content[0].text);
       
       if (content.error) {
         console.log('⚠️  Listing details returned error (expected for dummy ID):', content.error);
@@ -199,6 +232,127 @@ class MCPTester {
     }
   }
 
+  // Call a tool and return its payload: structuredContent on success, the JSON
+  // error from the text block otherwise. Successful payloads must carry every
+  // field the tool's outputSchema requires.
+  async callTool(name, args) {
+    const response = await this.sendRequest('tools/call', { name, arguments: args });
+    if (response.error) {
+      throw new Error(`Server error: ${response.error.message}`);
+    }
+
+    const result = response.result;
+    if (!result || !result.content || !result.content[0]) {
+      throw new Error('Invalid response format');
+    }
+    if (result.isError) {
+      // A tool that failed with results to show, like a comparison where every listing failed,
+      // keeps them in structuredContent and explains in text
+      if (result.structuredContent) {
+        return { isError: true, error: result.content[0].text, ...result.structuredContent };
+      }
+      return { isError: true, ...JSON.parse(result.content[0].text) };
+    }
+
+    const content = result.structuredContent;
+    if (!content) {
+      throw new Error(`${name} returned no structuredContent`);
+    }
+    const required = this.tools.find(tool => tool.name === name)?.outputSchema?.required ?? [];
+    const missing = required.filter(field => !(field in content));
+    if (missing.length > 0) {
+      throw new Error(`${name} result is missing ${missing.join(', ')}`);
+    }
+    return content;
+  }
+
+  // Tools that fetch from Airbnb; errors are fine without network or fixtures,
+  // as long as they come back as tool errors
+  async testFetchingTool(icon, name, args) {
+    console.log(`\n${icon} Testing ${name} tool...`);
+
+    try {
+      const content = await this.callTool(name, { ...args, ignoreRobotsText: true });
+      if (content.isError) {
+        console.log(`⚠️  ${name} returned error (expected without network or fixtures):`, content.error);
+        return true;
+      }
+
+      console.log(`✅ ${name} responded correctly`);
+      return true;
+    } catch (error) {
+      console.error(`❌ ${name} test failed:`, error.message);
+      return false;
+    }
+  }
+
+  async testRobotsStatusTool() {
+    console.log('\n🤖 Testing airbnb_robots_status tool...');
+
+    try {
+      const status = await this.callTool('airbnb_robots_status', {});
+      if (status.isError) {
+        throw new Error(status.error);
+      }
+      console.log(`✅ robots.txt state: ${status.state}`);
+
+      // Only Airbnb origins may be checked
+      const offsite = await this.callTool('airbnb_robots_status', { url: 'https://example.com/rooms/1' });
+      if (!offsite.isError) {
+        throw new Error('A URL outside Airbnb was accepted');
+      }
+      console.log('✅ URL outside Airbnb rejected');
+      return true;
+    } catch (error) {
+      console.error('❌ airbnb_robots_status test failed:', error.message);
+      return false;
+    }
+  }
+
+  async testWatchlistTools() {
+    console.log('\n👀 Testing watch list tools...');
+
+    try {
+      const saved = await this.callTool('airbnb_save_search', {
+        name: 'paris-weekend',
+        search: { location: 'Paris', adults: 2 }
+      });
+      if (saved.isError) {
+        throw new Error(saved.error);
+      }
+
+      const listed = await this.callTool('airbnb_list_watches', {});
+      if (!listed.searches.some(search => search.name === 'paris-weekend')) {
+        throw new Error('Saved search missing from airbnb_list_watches');
+      }
+      console.log(`✅ Saved search stored in ${listed.file}`);
+
+      const removed = await this.callTool('airbnb_remove_watch', { name: 'paris-weekend' });
+      if (removed.isError || removed.searches.length !== 0) {
+        throw new Error('Saved search was not removed');
+      }
+
+      const writtenAt = statSync(listed.file).mtimeMs;
+      const missing = await this.callTool('airbnb_remove_watch', { name: 'paris-weekend' });
+      if (!missing.isError) {
+        throw new Error('Removing an unknown name did not fail');
+      }
+      if (statSync(listed.file).mtimeMs !== writtenAt) {
+        throw new Error('Removing an unknown name rewrote the watch list');
+      }
+
+      const invalid = await this.callTool('airbnb_remove_watch', { name: '' });
+      if (!invalid.isError || !/name must be/.test(JSON.stringify(invalid))) {
+        throw new Error('An invalid name was not rejected');
+      }
+      console.log('✅ Saved search removed');
+      return true;
+    } catch (error) {
+      console.error('❌ watch list test failed:', error.message);
+      return false;
+    }
+  }
+
   async stopServer() {
     if (this.server && !this.server.killed) {
       console.log('\n🛑 Stopping server...');
@@ -229,7 +383,13 @@ class MCPTester {
       const tests = [
         () => this.testListTools(),
         () => this.testSearchTool(),
-        () => this.testListingDetailsTool()
+        () => this.testListingDetailsTool(),
+        () => this.testFetchingTool('💬', 'airbnb_listing_reviews', { id: '670214003022775198', limit: 5 }),
+        () => this.testFetchingTool('📅', 'airbnb_listing_availability', { id: '670214003022775198', months: 2 }),
+        () => this.testFetchingTool('💵', 'airbnb_price_quote', { id: '670214003022775198', checkin: daysFromNow(30), checkout: daysFromNow(35) }),
+        () => this.testFetchingTool('⚖️ ', 'airbnb_compare_listings', { ids: ['670214003022775198', '1'] }),
+        () => this.testRobotsStatusTool(),
+        () => this.testWatchlistTools()
       ];
       
       for (const test of tests) {
@@ -242,6 +402,7 @@ class MCPTester {
       allPassed = false;
     } finally {
       await this.stopServer();
+      rmSync(this.dataDir, { recursive: true, force: true });
     }
     
     console.log('\n' + '='.repeat(50));
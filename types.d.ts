@@ -1,6 +1,9 @@
 declare module 'robots-parser' {
   interface RobotsParser {
-    isAllowed(url: string, userAgent?: string): boolean;
+    isAllowed(url: string, userAgent?: string): boolean | undefined;
+    getMatchingLineNumber(url: string, userAgent?: string): number;
+    getCrawlDelay(userAgent?: string): number | undefined;
+    getSitemaps(): string[];
   }
 
   function robotsParser(url: string, content: string): RobotsParser;
@@ -1,61 +1,33 @@
-export function cleanObject(obj: any) {
-  Object.keys(obj).forEach(key => {
-    if (!obj[key] || key === "__typename") {
-      delete obj[key];
-    } else if (typeof obj[key] === "object") {
-      cleanObject(obj[key]);
+// Read a CLI option given as either "--name=value" or "--name value"
+export function getArgValue(name: string, argv: string[] = process.argv.slice(2)): string | undefined {
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg.startsWith(`${name}=`)) {
+      return arg.slice(name.length + 1);
     }
-  });
-}
-
-export function pickBySchema(obj: any, schema: any): any {
-  if (typeof obj !== 'object' || obj === null) return obj;
-  
-  // If the object is an array, process each item
-  if (Array.isArray(obj)) {
-    return obj.map(item => pickBySchema(item, schema));
-  }
-  
-  const result: Record<string, any> = {};
-  for (const key in schema) {
-    if (Object.prototype.hasOwnProperty.call(obj, key)) {
-      const rule = schema[key];
-      // If the rule is true, copy the value as-is
-      if (rule === true) {
-        result[key] = obj[key];
-      }
-      // If the rule is an object, apply the schema recursively
-      else if (typeof rule === 'object' && rule !== null) {
-        result[key] = pickBySchema(obj[key], rule);
-      }
+    if (arg === name && i + 1 < argv.length && !argv[i + 1].startsWith("--")) {
+      return argv[i + 1];
     }
   }
-  return result;
+  return undefined;
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
 }
 
-export function flattenArraysInObject(input: any, inArray: boolean = false): any {
-  if (Array.isArray(input)) {
-    // Process each item in the array with inArray=true so that any object
-    // inside the array is flattened to a string.
-    const flatItems = input.map(item => flattenArraysInObject(item, true));
-    return flatItems.join(', ');
-  } else if (typeof input === 'object' && input !== null) {
-    if (inArray) {
-      // When inside an array, ignore the keys and flatten the object's values.
-      const values = Object.values(input).map(value => flattenArraysInObject(value, true));
-      return values.join(': ');
-    } else {
-      // When not in an array, process each property recursively.
-      const result: Record<string, any> = {};
-      for (const key in input) {
-        if (Object.prototype.hasOwnProperty.call(input, key)) {
-          result[key] = flattenArraysInObject(input[key], false);
-        }
-      }
-      return result;
+// Map over items with at most `limit` calls in flight, keeping results in input order
+export async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
     }
-  } else {
-    // For primitives, simply return the value.
-    return input;
-  }
-}
\ No newline at end of file
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
@@ -0,0 +1,347 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { homedir } from 'os';
+import { dirname, join, resolve } from 'path';
+import { CONFIG } from "./config.js";
+import { PriceQuote, SearchResult } from "./models.js";
+
+// Saved searches and watched stays, kept in one JSON file so the price
+// history they build up survives restarts
+
+// Left empty in the extension settings, the file setting reads as unset
+export const WATCHLIST_FILE = resolve(
+  CONFIG.watchlist.file ?? join(homedir(), ".mcp-server-airbnb", "watchlist.json")
+);
+
+// Observations kept per listing; the oldest are dropped first
+export const MAX_PRICE_HISTORY = 30;
+
+const NAME_PATTERN = /^[\w .:-]{1,64}$/;
+
+export interface PriceObservation {
+  checkedAt: string;
+  price?: number; // the price Airbnb displays, usually nightly
+  total?: number; // whole stay, when dates are known
+  currency?: string;
+  available?: boolean; // watched stays only
+}
+
+export interface TrackedListing {
+  id: string;
+  name?: string;
+  url: string;
+  firstSeenAt: string;
+  lastSeenAt: string;
+  present: boolean; // false once the listing drops out of the search
+  history: PriceObservation[];
+}
+
+export interface SavedSearch {
+  name: string;
+  params: Record<string, unknown>; // airbnb_search arguments
+  createdAt: string;
+  lastCheckedAt?: string;
+  listings: Record<string, TrackedListing>;
+}
+
+export interface WatchedStay {
+  name: string;
+  params: Record<string, unknown>; // airbnb_price_quote arguments
+  createdAt: string;
+  lastCheckedAt?: string;
+  history: PriceObservation[];
+}
+
+export interface Watchlist {
+  version: 1;
+  searches: Record<string, SavedSearch>;
+  stays: Record<string, WatchedStay>;
+}
+
+export interface ListingRef {
+  id: string;
+  name?: string;
+  url: string;
+}
+
+export interface PriceChange extends ListingRef {
+  previous: PriceObservation;
+  current: PriceObservation;
+  field: "total" | "price";
+  change: number;
+  percent: number;
+}
+
+export interface SearchCheck {
+  type: "search";
+  name: string;
+  checkedAt: string;
+  previousCheckAt?: string;
+  resultCount: number;
+  newListings: ListingRef[];
+  removedListings: ListingRef[];
+  priceChanges: PriceChange[];
+  history: (ListingRef & { present: boolean; prices: PriceObservation[] })[];
+}
+
+export interface StayCheck {
+  type: "stay";
+  name: string;
+  checkedAt: string;
+  previousCheckAt?: string;
+  id: string;
+  url: string;
+  checkin: string;
+  checkout: string;
+  available: boolean;
+  availabilityChanged: boolean;
+  priceChange?: PriceChange;
+  prices: PriceObservation[];
+}
+
+export interface FailedCheck {
+  type: "search" | "stay";
+  name: string;
+  checkedAt: string;
+  error: string;
+  errorType?: string;
+}
+
+export type WatchCheck = SearchCheck | StayCheck | FailedCheck;
+
+// Entries are keyed by user-chosen names, so the maps have no prototype: a
+// name like "constructor" or "toString" must not find an inherited member
+function nameMap<T>(entries: Record<string, T> = {}): Record<string, T> {
+  return Object.assign(Object.create(null), entries);
+}
+
+export function emptyWatchlist(): Watchlist {
+  return { version: 1, searches: nameMap(), stays: nameMap() };
+}
+
+export function loadWatchlist(file: string = WATCHLIST_FILE): Watchlist {
+  if (!existsSync(file)) {
+    return emptyWatchlist();
+  }
+  let data: any;
+  try {
+    data = JSON.parse(readFileSync(file, "utf8"));
+  } catch (error) {
+    throw new Error(`Watch list ${file} is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (data?.version !== 1 || typeof data.searches !== "object" || typeof data.stays !== "object" || !data.searches || !data.stays) {
+    throw new Error(`Watch list ${file} is not in a format this server understands`);
+  }
+  return { ...data, searches: nameMap(data.searches), stays: nameMap(data.stays) } as Watchlist;
+}
+
+// Write through a temporary file so a crash never leaves half a watch list
+export function saveWatchlist(watchlist: Watchlist, file: string = WATCHLIST_FILE): void {
+  mkdirSync(dirname(file), { recursive: true });
+  const temporary = `${file}.${process.pid}.tmp`;
+  writeFileSync(temporary, JSON.stringify(watchlist, null, 2) + "\n");
+  renameSync(temporary, file);
+}
+
+let pending: Promise<unknown> = Promise.resolve();
+
+// Run read-modify-write cycles one at a time so overlapping tool calls
+// don't overwrite each other's changes
+export function updateWatchlist<T>(update: (watchlist: Watchlist) => Promise<T> | T, file: string = WATCHLIST_FILE): Promise<T> {
+  const run = pending.then(async () => {
+    const watchlist = loadWatchlist(file);
+    const result = await update(watchlist);
+    saveWatchlist(watchlist, file);
+    return result;
+  });
+  pending = run.catch(() => undefined);
+  return run;
+}
+
+// Reads wait for pending updates, so a list right after a change shows it
+export function readWatchlist(file: string = WATCHLIST_FILE): Promise<Watchlist> {
+  return pending.then(() => loadWatchlist(file));
+}
+
+export function validateWatchName(name: unknown): string[] {
+  if (typeof name !== "string" || !NAME_PATTERN.test(name)) {
+    return [`name must be 1-64 letters, digits, spaces or . _ : -, got ${JSON.stringify(name)}`];
+  }
+  return [];
+}
+
+// A name refers to a saved search or a watched stay, never both
+export function findWatch(watchlist: Watchlist, name: string): "search" | "stay" | undefined {
+  if (Object.prototype.hasOwnProperty.call(watchlist.searches, name)) return "search";
+  if (Object.prototype.hasOwnProperty.call(watchlist.stays, name)) return "stay";
+  return undefined;
+}
+
+function appendObservation(history: PriceObservation[], observation: PriceObservation): PriceObservation[] {
+  return [...history, observation].slice(-MAX_PRICE_HISTORY);
+}
+
+// Totals are compared when both checks have one, else displayed prices;
+// prices in different currencies can't be compared
+function priceChange(listing: ListingRef, previous: PriceObservation | undefined, current: PriceObservation): PriceChange | undefined {
+  if (!previous || previous.currency !== current.currency) return undefined;
+
+  const field = previous.total !== undefined && current.total !== undefined ? "total" : "price";
+  const before = previous[field];
+  const after = current[field];
+  if (before === undefined || after === undefined || before === after) return undefined;
+
+  const change = Math.round((after - before) * 100) / 100;
+  return {
+    ...listing,
+    previous,
+    current,
+    field,
+    change,
+    percent: before === 0 ? 0 : Math.round((change / before) * 1000) / 10
+  };
+}
+
+function observeResult(result: SearchResult, checkedAt: string): PriceObservation {
+  return {
+    checkedAt,
+    price: result.price?.amount,
+    total: result.totalPrice?.amount,
+    currency: result.totalPrice?.currency ?? result.price?.currency
+  };
+}
+
+// Fold a fresh set of search results into the saved search and report what moved
+export function recordSearchCheck(search: SavedSearch, results: SearchResult[], checkedAt: string): SearchCheck {
+  const previousCheckAt = search.lastCheckedAt;
+  const seen = new Set<string>();
+  const newListings: ListingRef[] = [];
+  const removedListings: ListingRef[] = [];
+  const priceChanges: PriceChange[] = [];
+
+  for (const result of results) {
+    if (seen.has(result.id)) continue;
+    seen.add(result.id);
+
+    const observation = observeResult(result, checkedAt);
+    const tracked = search.listings[result.id];
+    const ref = { id: result.id, name: result.name, url: result.url };
+
+    // The first check only establishes the baseline; listings that come back
+    // after dropping out count as new again
+    if (!tracked) {
+      if (previousCheckAt) newListings.push(ref);
+      search.listings[result.id] = {
+        ...ref,
+        firstSeenAt: checkedAt,
+        lastSeenAt: checkedAt,
+        present: true,
+        history: [observation]
+      };
+      continue;
+    }
+
+    if (!tracked.present) newListings.push(ref);
+    const change = priceChange(ref, tracked.history[tracked.history.length - 1], observation);
+    if (change) priceChanges.push(change);
+
+    Object.assign(tracked, ref, {
+      lastSeenAt: checkedAt,
+      present: true,
+      history: appendObservation(tracked.history, observation)
+    });
+  }
+
+  for (const tracked of Object.values(search.listings)) {
+    if (tracked.present && !seen.has(tracked.id)) {
+      tracked.present = false;
+      removedListings.push({ id: tracked.id, name: tracked.name, url: tracked.url });
+    }
+  }
+
+  search.lastCheckedAt = checkedAt;
+
+  // History covers what is in the search now plus what just left it
+  const reported = Object.values(search.listings)
+    .filter(tracked => tracked.present || removedListings.some(removed => removed.id === tracked.id));
+
+  return {
+    type: "search",
+    name: search.name,
+    checkedAt,
+    ...(previousCheckAt && { previousCheckAt }),
+    resultCount: seen.size,
+    newListings,
+    removedListings,
+    priceChanges,
+    history: reported.map(tracked => ({
+      id: tracked.id,
+      name: tracked.name,
+      url: tracked.url,
+      present: tracked.present,
+      prices: tracked.history
+    }))
+  };
+}
+
+export function recordStayCheck(stay: WatchedStay, quote: PriceQuote, checkedAt: string): StayCheck {
+  const previousCheckAt = stay.lastCheckedAt;
+  const previous = stay.history[stay.history.length - 1];
+  const observation: PriceObservation = {
+    checkedAt,
+    price: quote.nightlyRate,
+    total: quote.total,
+    currency: quote.currency,
+    available: quote.available
+  };
+
+  const change = priceChange({ id: quote.id, name: stay.name, url: quote.url }, previous, observation);
+  stay.history = appendObservation(stay.history, observation);
+  stay.lastCheckedAt = checkedAt;
+
+  return {
+    type: "stay",
+    name: stay.name,
+    checkedAt,
+    ...(previousCheckAt && { previousCheckAt }),
+    id: quote.id,
+    url: quote.url,
+    checkin: quote.checkin,
+    checkout: quote.checkout,
+    available: quote.available,
+    availabilityChanged: previous?.available !== undefined && previous.available !== quote.available,
+    ...(change && { priceChange: change }),
+    prices: stay.history
+  };
+}
+
+export interface WatchlistSummary {
+  file: string;
+  searches: {
+    name: string;
+    params: Record<string, unknown>;
+    createdAt: string;
+    lastCheckedAt?: string;
+    listingsPresent: number;
+  }[];
+  stays: {
+    name: string;
+    params: Record<string, unknown>;
+    createdAt: string;
+    lastCheckedAt?: string;
+    latest?: PriceObservation;
+  }[];
+}
+
+export function summarizeWatchlist(watchlist: Watchlist, file: string = WATCHLIST_FILE): WatchlistSummary {
+  return {
+    file,
+    searches: Object.values(watchlist.searches).map(({ listings, ...search }) => ({
+      ...search,
+      listingsPresent: Object.values(listings).filter(listing => listing.present).length
+    })),
+    stays: Object.values(watchlist.stays).map(({ history, ...stay }) => ({
+      ...stay,
+      ...(history.length > 0 && { latest: history[history.length - 1] })
+    }))
+  };
+}
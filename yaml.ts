@@ -0,0 +1,179 @@
+// Reader for the part of YAML a config file needs: nested mappings, lists of
+// scalars ("- item" lines or [a, b]), quoted and plain scalars, and comments.
+// Anchors, multi-line strings, flow mappings and lists of mappings are
+// rejected with the line they appear on rather than misread.
+
+export class YamlSyntaxError extends Error {
+  constructor(message: string, readonly line: number) {
+    super(`line ${line}: ${message}`);
+    this.name = new.target.name;
+  }
+}
+
+interface YamlLine {
+  number: number;
+  indent: number;
+  text: string;
+}
+
+// Drop a trailing comment: a # at the start or after whitespace, outside quotes
+function stripComment(line: string): string {
+  let quote: string | undefined;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quote) {
+      if (char === quote) quote = undefined;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === "#" && (i === 0 || /\s/.test(line[i - 1]))) {
+      return line.slice(0, i);
+    }
+  }
+  return line;
+}
+
+function isListItem(line: YamlLine): boolean {
+  return line.text === "-" || line.text.startsWith("- ");
+}
+
+// Split "a, 'b, c', d" on the commas outside quotes
+function splitFlowList(text: string): string[] {
+  const items: string[] = [];
+  let quote: string | undefined;
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === quote) quote = undefined;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === ",") {
+      items.push(text.slice(start, i));
+      start = i + 1;
+    }
+  }
+  items.push(text.slice(start));
+  return items.map(item => item.trim());
+}
+
+function parseScalar(text: string, line: number): unknown {
+  if (text.startsWith('"')) {
+    try {
+      // Double-quoted YAML escapes are close enough to JSON's
+      return JSON.parse(text);
+    } catch {
+      throw new YamlSyntaxError(`invalid double-quoted string ${text}`, line);
+    }
+  }
+  if (text.startsWith("'")) {
+    if (text.length < 2 || !text.endsWith("'")) {
+      throw new YamlSyntaxError(`unterminated single-quoted string ${text}`, line);
+    }
+    return text.slice(1, -1).replace(/''/g, "'");
+  }
+  if (text.startsWith("[")) {
+    if (!text.endsWith("]")) {
+      throw new YamlSyntaxError(`unterminated list ${text}`, line);
+    }
+    const inner = text.slice(1, -1).trim();
+    if (inner === "") return [];
+    return splitFlowList(inner).map(item => {
+      if (item === "" || /^[[{]/.test(item)) {
+        throw new YamlSyntaxError(`only lists of plain values are supported, got ${text}`, line);
+      }
+      return parseScalar(item, line);
+    });
+  }
+  if (/^[{&*!|>]/.test(text)) {
+    throw new YamlSyntaxError(`unsupported YAML syntax ${text}`, line);
+  }
+
+  if (/^(true|false)$/i.test(text)) return text.toLowerCase() === "true";
+  if (/^(null|~)$/i.test(text)) return null;
+  if (/^[-+]?(\d+(\.\d*)?|\.\d+)([eE][-+]?\d+)?$/.test(text)) return Number(text);
+  return text;
+}
+
+function parseKey(text: string, line: number): string {
+  return /^["']/.test(text) ? String(parseScalar(text, line)) : text;
+}
+
+export function parseYaml(source: string): unknown {
+  const lines: YamlLine[] = [];
+  source.split(/\r?\n/).forEach((raw, index) => {
+    const text = stripComment(raw).trim();
+    if (text === "" || text === "---") return;
+    const indentation = raw.match(/^\s*/)![0];
+    if (indentation.includes("\t")) {
+      throw new YamlSyntaxError("tabs can't be used for indentation", index + 1);
+    }
+    lines.push({ number: index + 1, indent: indentation.length, text });
+  });
+  if (lines.length === 0) return {};
+
+  let position = 0;
+
+  const parseBlock = (): unknown => {
+    const first = lines[position];
+    return isListItem(first) ? parseList(first.indent) : parseMap(first.indent);
+  };
+
+  const parseList = (indent: number): unknown[] => {
+    const list: unknown[] = [];
+    while (position < lines.length && lines[position].indent >= indent) {
+      const line = lines[position];
+      if (line.indent > indent || !isListItem(line)) {
+        throw new YamlSyntaxError("unexpected indentation", line.number);
+      }
+      const item = line.text.slice(1).trim();
+      if (item === "" || /^[^"'[][^:]*:(\s|$)/.test(item)) {
+        throw new YamlSyntaxError("only lists of plain values are supported", line.number);
+      }
+      list.push(parseScalar(item, line.number));
+      position++;
+    }
+    return list;
+  };
+
+  const parseMap = (indent: number): Record<string, unknown> => {
+    const map: Record<string, unknown> = {};
+    while (position < lines.length && lines[position].indent >= indent) {
+      const line = lines[position];
+      if (line.indent > indent) {
+        throw new YamlSyntaxError("unexpected indentation", line.number);
+      }
+      if (isListItem(line)) {
+        throw new YamlSyntaxError("expected a key, got a list item", line.number);
+      }
+
+      const match = line.text.match(/^("[^"]*"|'[^']*'|[^"'\s][^:]*?)\s*:(?:\s+(.*))?$/);
+      if (!match) {
+        throw new YamlSyntaxError(`expected "key: value", got ${line.text}`, line.number);
+      }
+      const key = parseKey(match[1], line.number);
+      if (Object.prototype.hasOwnProperty.call(map, key)) {
+        throw new YamlSyntaxError(`duplicate key ${key}`, line.number);
+      }
+      position++;
+
+      const next = lines[position];
+      if (match[2] !== undefined && match[2] !== "") {
+        map[key] = parseScalar(match[2], line.number);
+      } else if (next && next.indent > indent) {
+        map[key] = parseBlock();
+      } else if (next && next.indent === indent && isListItem(next)) {
+        // A list under a key may sit at the key's own indentation
+        map[key] = parseList(indent);
+      } else {
+        map[key] = null;
+      }
+    }
+    return map;
+  };
+
+  const result = parseBlock();
+  if (position < lines.length) {
+    throw new YamlSyntaxError("unexpected indentation", lines[position].number);
+  }
+  return result;
+}